@@ -0,0 +1,21 @@
+-- Settlement records: one row per DID NFT (pending reservation -> success/failed)
+CREATE TABLE IF NOT EXISTS nft_settlements (
+  id SERIAL PRIMARY KEY,
+  enclave_tx_digest VARCHAR(64) NOT NULL UNIQUE,
+  did_verified_id VARCHAR(66) NOT NULL UNIQUE,
+  did_nft_name VARCHAR(255),
+  did_nft_type VARCHAR(255),
+  did_nft_metadata JSONB,
+  protocol_uid INTEGER NOT NULL,
+  protocol_name VARCHAR(255),
+  protocol_address VARCHAR(66),
+  user_address VARCHAR(66) NOT NULL,
+  payment_tx_digest VARCHAR(64) UNIQUE,
+  settlement_amount BIGINT,
+  idempotency_key VARCHAR(255) UNIQUE,
+  timestamp BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  status VARCHAR(20) DEFAULT 'success'
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_user ON nft_settlements(user_address);
@@ -0,0 +1,10 @@
+-- Protocol registry: protocols onboarded onto the PaymentRegistry, each with its own ProtocolVault
+CREATE TABLE IF NOT EXISTS protocols (
+  protocol_uid INTEGER PRIMARY KEY,
+  protocol_name VARCHAR(255) NOT NULL,
+  protocol_address VARCHAR(66) NOT NULL,
+  vault_object_id VARCHAR(66) NOT NULL,
+  vault_initial_shared_version VARCHAR(32) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
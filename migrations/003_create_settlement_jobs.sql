@@ -0,0 +1,21 @@
+-- Durable queue for asynchronous settlements
+CREATE TABLE IF NOT EXISTS settlement_jobs (
+  id VARCHAR(36) PRIMARY KEY,
+  settlement_id INTEGER NOT NULL,
+  did_verified_id VARCHAR(66) NOT NULL,
+  protocol_uid INTEGER NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  last_error TEXT,
+  payment_tx_digest VARCHAR(64),
+  run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Used by the worker to find due jobs
+CREATE INDEX IF NOT EXISTS idx_settlement_jobs_due ON settlement_jobs(status, run_at);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_jobs_settlement ON settlement_jobs(settlement_id);
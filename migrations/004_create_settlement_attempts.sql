@@ -0,0 +1,23 @@
+-- Every settlement attempt (successful, failed on-chain, or rejected before execution)
+-- Request fields are TEXT because rejected attempts may carry malformed values
+CREATE TABLE IF NOT EXISTS settlement_attempts (
+  id SERIAL PRIMARY KEY,
+  settlement_id INTEGER,
+  did_verified_id TEXT,
+  user_address TEXT,
+  protocol_uid INTEGER,
+  enclave_tx_digest TEXT,
+  status VARCHAR(20) NOT NULL,
+  error_code VARCHAR(64),
+  error_message TEXT,
+  abort_code INTEGER,
+  payment_tx_digest VARCHAR(64),
+  gas_used BIGINT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_attempts_did ON settlement_attempts(did_verified_id);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_attempts_user ON settlement_attempts(user_address);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_attempts_status ON settlement_attempts(status, created_at);
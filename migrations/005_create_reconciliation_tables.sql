@@ -0,0 +1,35 @@
+-- NftSettled events indexed from the payment module
+CREATE TABLE IF NOT EXISTS nft_settled_events (
+  tx_digest VARCHAR(64) NOT NULL,
+  event_seq VARCHAR(20) NOT NULL,
+  did_verified_id VARCHAR(66) NOT NULL,
+  protocol_uid INTEGER,
+  amount BIGINT,
+  timestamp_ms BIGINT,
+  parsed_json JSONB,
+  indexed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (tx_digest, event_seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nft_settled_events_did ON nft_settled_events(did_verified_id);
+
+-- Event indexer cursors (one row per indexer)
+CREATE TABLE IF NOT EXISTS indexer_cursors (
+  name VARCHAR(64) PRIMARY KEY,
+  tx_digest VARCHAR(64) NOT NULL,
+  event_seq VARCHAR(20) NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Chain/database discrepancies found by the reconciliation worker
+-- kind: backfilled (row completed from an event), missing_row (event with no row), conflict (row has another digest)
+CREATE TABLE IF NOT EXISTS settlement_discrepancies (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(20) NOT NULL,
+  did_verified_id VARCHAR(66) NOT NULL,
+  payment_tx_digest VARCHAR(64) NOT NULL,
+  protocol_uid INTEGER,
+  details JSONB,
+  detected_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (kind, did_verified_id, payment_tx_digest)
+);
@@ -0,0 +1,22 @@
+-- API credentials issued per protocol: a public key id plus an HMAC secret
+-- Rotation issues a new key and sets expires_at on the old one; revocation sets revoked_at
+CREATE TABLE IF NOT EXISTS protocol_credentials (
+  key_id VARCHAR(64) PRIMARY KEY,
+  protocol_uid INTEGER NOT NULL REFERENCES protocols(protocol_uid),
+  secret VARCHAR(128) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  last_used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_protocol_credentials_protocol ON protocol_credentials(protocol_uid);
+
+-- Signatures accepted within the replay window (a signed request is accepted only once)
+CREATE TABLE IF NOT EXISTS request_signatures (
+  signature VARCHAR(64) PRIMARY KEY,
+  key_id VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_signatures_expires ON request_signatures(expires_at);
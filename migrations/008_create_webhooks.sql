@@ -0,0 +1,36 @@
+-- Webhook endpoints registered by protocols (events is a subset of the supported event names)
+CREATE TABLE IF NOT EXISTS protocol_webhooks (
+  id SERIAL PRIMARY KEY,
+  protocol_uid INTEGER NOT NULL REFERENCES protocols(protocol_uid),
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  secret VARCHAR(128) NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_protocol_webhooks_protocol ON protocol_webhooks(protocol_uid);
+
+-- Durable delivery log: one row per event per webhook, retried with exponential backoff
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id VARCHAR(36) PRIMARY KEY,
+  webhook_id INTEGER NOT NULL REFERENCES protocol_webhooks(id),
+  protocol_uid INTEGER NOT NULL,
+  event VARCHAR(64) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_at TIMESTAMP,
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Used by the webhook worker to find due deliveries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_protocol ON webhook_deliveries(protocol_uid, created_at);
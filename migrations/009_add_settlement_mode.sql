@@ -0,0 +1,10 @@
+-- Settlement mode per protocol: 'vault' pays the fee out of the ProtocolVault,
+-- 'mark_only' only marks the NFT settled on-chain (no funds move)
+ALTER TABLE protocols
+  ADD COLUMN IF NOT EXISTS settlement_mode VARCHAR(16) NOT NULL DEFAULT 'vault'
+  CHECK (settlement_mode IN ('vault', 'mark_only'));
+
+-- Mode each settlement was executed with (rows before this migration were all vault-funded)
+ALTER TABLE nft_settlements
+  ADD COLUMN IF NOT EXISTS settlement_mode VARCHAR(16) NOT NULL DEFAULT 'vault'
+  CHECK (settlement_mode IN ('vault', 'mark_only'));
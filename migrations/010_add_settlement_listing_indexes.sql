@@ -0,0 +1,9 @@
+-- Keyset pagination for settlement listings: (sort key, id) indexes matching listSettlements' ORDER BY
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_timestamp_id ON nft_settlements ((COALESCE(timestamp, 0)), id);
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_amount_id ON nft_settlements ((COALESCE(settlement_amount, 0)), id);
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_user_timestamp_id
+  ON nft_settlements (user_address, (COALESCE(timestamp, 0)), id);
+
+-- Common listing filters
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_protocol ON nft_settlements(protocol_uid);
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_status ON nft_settlements(status);
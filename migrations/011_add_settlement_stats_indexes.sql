@@ -0,0 +1,3 @@
+-- Settlement analytics (/stats) filter on the raw timestamp range, optionally per protocol
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_timestamp ON nft_settlements(timestamp);
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_protocol_timestamp ON nft_settlements(protocol_uid, timestamp);
@@ -0,0 +1,8 @@
+-- Correlation ID (X-Request-Id) of the HTTP request that reserved a settlement or made an attempt
+ALTER TABLE nft_settlements ADD COLUMN IF NOT EXISTS request_id VARCHAR(128);
+
+ALTER TABLE settlement_attempts ADD COLUMN IF NOT EXISTS request_id VARCHAR(128);
+
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_request_id ON nft_settlements(request_id);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_attempts_request_id ON settlement_attempts(request_id);
@@ -0,0 +1,4 @@
+-- Settlements in one batch share a payment transaction, so payment_tx_digest is no longer unique
+ALTER TABLE nft_settlements DROP CONSTRAINT IF EXISTS nft_settlements_payment_tx_digest_key;
+
+CREATE INDEX IF NOT EXISTS idx_nft_settlements_payment_tx_digest ON nft_settlements(payment_tx_digest);
@@ -0,0 +1,2 @@
+-- Rows backfilled from an on-chain NftSettled event have no enclave verification digest
+ALTER TABLE nft_settlements ALTER COLUMN enclave_tx_digest DROP NOT NULL;
@@ -0,0 +1,5 @@
+-- When a settlement was completed (Unix ms, like timestamp), so /stats can measure reservation-to-completion latency
+ALTER TABLE nft_settlements ADD COLUMN IF NOT EXISTS completed_at BIGINT;
+
+-- /stats computes the failure rate from execution attempts in a created_at range, optionally per protocol
+CREATE INDEX IF NOT EXISTS idx_settlement_attempts_protocol_created ON settlement_attempts(protocol_uid, created_at);
@@ -1,33 +1,93 @@
 import express, { Application, Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import settlementRoutes from './routes/settlement.routes';
+import webhookRoutes from './routes/webhook.routes';
+import docsRoutes from './routes/docs.routes';
+import { getAllProtocols } from './services/protocol.service';
+import { metricsMiddleware } from './middleware/metrics.middleware';
+import { requestId } from './middleware/request-id.middleware';
+import { renderMetrics } from './utils/metrics';
+import { logger } from './utils/logger';
 
 const app: Application = express();
 
+const METRICS_ENABLED = process.env.METRICS_ENABLED !== 'false';
+
+// Behind a load balancer, trust X-Forwarded-For so rate limits key on the real client IP
+// (e.g. TRUST_PROXY=1 for one proxy hop)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+}
+
+// Correlation ID: accepted from or returned in X-Request-Id, attached to logs and settlement rows
+app.use(requestId);
+
 // Middleware - CORS configuration for protocol-end
 app.use(cors({
   origin: [
     'http://localhost:3000',  // Protocol-end local dev
     'http://127.0.0.1:3000',
   ],
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Idempotency-Key', 'X-Api-Key', 'X-Timestamp', 'X-Signature', 'X-Request-Id'],
+  exposedHeaders: ['Idempotent-Replayed', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After', 'X-Request-Id'],
   credentials: true,
 }));
-app.use(express.json());
+// Keep the raw body so protocol request signatures can be verified
+app.use(express.json({
+  verify: (req, res, buf) => {
+    (req as Request).rawBody = buf;
+  },
+}));
+
+// Prometheus metrics: request counters/latency and GET /metrics (text exposition format)
+if (METRICS_ENABLED) {
+  app.use(metricsMiddleware);
+
+  app.get('/metrics', async (req: Request, res: Response) => {
+    res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    res.send(await renderMetrics());
+  });
+}
 
 // Routes
 app.use('/api/settlement', settlementRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api', docsRoutes);
 
 // Root endpoint
-app.get('/', (req: Request, res: Response) => {
+app.get('/', async (req: Request, res: Response) => {
+  const protocols = await getAllProtocols();
+
   res.json({
     name: 'SuiVerify Backend Microservice',
     version: '1.0.0',
+    protocols: protocols.map((protocol) => ({
+      protocolUid: protocol.protocol_uid,
+      protocolName: protocol.protocol_name,
+    })),
     endpoints: {
       settle: 'POST /api/settlement/settle',
+      settleBatch: 'POST /api/settlement/settle/batch',
+      simulate: 'POST /api/settlement/simulate',
       status: 'GET /api/settlement/status/:nftId',
+      job: 'GET /api/settlement/jobs/:id',
+      attempts: 'GET /api/settlement/attempts',
+      reconciliation: 'GET /api/settlement/reconciliation',
+      stats: 'GET /api/settlement/stats',
+      statements: 'GET /api/settlement/statements',
+      export: 'GET /api/settlement/export',
+      webhooks: 'GET|POST /api/webhooks',
+      webhookDeliveries: 'GET /api/webhooks/deliveries',
+      protocols: 'GET /api/settlement/protocols',
+      vault: 'GET /api/settlement/vault',
       health: 'GET /api/settlement/health',
+      live: 'GET /api/settlement/live',
+      ready: 'GET /api/settlement/ready',
+      openapi: 'GET /api/openapi.json',
+      docs: 'GET /api/docs',
+      ...(METRICS_ENABLED && { metrics: 'GET /metrics' }),
     },
   });
 });
@@ -42,7 +102,7 @@ app.use((req: Request, res: Response) => {
 
 // Error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error('Unhandled error:', err);
+  logger.error('Unhandled error', { error: err });
   res.status(500).json({
     success: false,
     error: 'Internal server error',
@@ -0,0 +1,48 @@
+import type { Signer, SignatureScheme } from '@mysten/sui/cryptography';
+import { parsePrivateKey, SUPPORTED_KEY_SCHEMES } from '../signers/keypair.signer';
+import { loadKeystore } from '../signers/keystore.signer';
+import { RemoteSigner } from '../signers/remote.signer';
+import { logger } from '../utils/logger';
+
+// Signer selection: env (ADMIN_PRIVATE_KEY), keystore (encrypted file) or remote (HTTP signing service)
+export const SIGNER_TYPE = process.env.SIGNER_TYPE || 'env';
+
+// Scheme for raw hex/base64 keys (suiprivkey strings carry their own)
+const SIGNER_KEY_SCHEME = (process.env.SIGNER_KEY_SCHEME || 'ED25519') as SignatureScheme;
+
+// Read a required environment variable for the selected signer
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} environment variable is required when SIGNER_TYPE=${SIGNER_TYPE}`);
+  }
+  return value;
+}
+
+// Build the admin signer (owner of the PaymentCap) from configuration
+function createSigner(): Signer {
+  if (!SUPPORTED_KEY_SCHEMES.includes(SIGNER_KEY_SCHEME)) {
+    throw new Error(`Unsupported SIGNER_KEY_SCHEME ${SIGNER_KEY_SCHEME}. Expected one of: ${SUPPORTED_KEY_SCHEMES.join(', ')}`);
+  }
+
+  switch (SIGNER_TYPE) {
+    case 'env':
+      return parsePrivateKey(requireEnv('ADMIN_PRIVATE_KEY'), SIGNER_KEY_SCHEME);
+    case 'keystore':
+      return loadKeystore(requireEnv('SIGNER_KEYSTORE_PATH'), requireEnv('SIGNER_KEYSTORE_PASSPHRASE'));
+    case 'remote':
+      return new RemoteSigner({
+        url: requireEnv('REMOTE_SIGNER_URL'),
+        publicKey: requireEnv('REMOTE_SIGNER_PUBLIC_KEY'),
+        token: process.env.REMOTE_SIGNER_TOKEN,
+      });
+    default:
+      throw new Error(`Unsupported SIGNER_TYPE ${SIGNER_TYPE}. Expected env, keystore or remote`);
+  }
+}
+
+// Signer used for every settlement transaction
+export const adminSigner = createSigner();
+export const adminAddress = adminSigner.toSuiAddress();
+
+logger.info('Signer loaded', { type: SIGNER_TYPE, scheme: adminSigner.getKeyScheme(), address: adminAddress });
@@ -1,44 +1,44 @@
 import { SuiClient, getFullnodeUrl } from '@mysten/sui/client';
-import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
-import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
 import protocolConfig from '../../data/protocol-config.json';
+import { logger } from '../utils/logger';
 
 // Environment variables
-const SUI_NETWORK = process.env.SUI_NETWORK || 'testnet';
-const ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY;
+export const SUI_NETWORK = process.env.SUI_NETWORK || 'testnet';
+const ENCLAVE_PACKAGE_ID = process.env.ENCLAVE_PACKAGE_ID;
+const DID_NFT_TYPE = process.env.DID_NFT_TYPE;
 
-if (!ADMIN_PRIVATE_KEY) {
-  throw new Error('ADMIN_PRIVATE_KEY environment variable is required');
+if (!ENCLAVE_PACKAGE_ID) {
+  throw new Error('ENCLAVE_PACKAGE_ID environment variable is required');
+}
+
+if (!DID_NFT_TYPE) {
+  throw new Error('DID_NFT_TYPE environment variable is required');
 }
 
 // Initialize Sui client
 const rpcUrl = process.env.SUI_RPC_URL || getFullnodeUrl(SUI_NETWORK as 'testnet' | 'mainnet' | 'devnet');
 export const suiClient = new SuiClient({ url: rpcUrl });
 
-// Parse admin keypair from private key
-function getAdminKeypair(): Ed25519Keypair {
-  const privateKey = ADMIN_PRIVATE_KEY!;
+// Block explorer for transaction links in API responses (set SUI_EXPLORER_URL for other networks or explorers)
+export const EXPLORER_URL = (process.env.SUI_EXPLORER_URL || `https://suiscan.xyz/${SUI_NETWORK}`).replace(/\/+$/, '');
 
-  // Handle suiprivkey format
-  if (privateKey.startsWith('suiprivkey')) {
-    const { secretKey } = decodeSuiPrivateKey(privateKey);
-    return Ed25519Keypair.fromSecretKey(secretKey);
-  }
+// Settlement modes: `vault` pays the settlement fee out of the protocol's ProtocolVault,
+// `mark_only` only marks the NFT settled (no funds move)
+export type SettlementMode = 'vault' | 'mark_only';
 
-  // Handle hex format
-  if (privateKey.startsWith('0x')) {
-    const keyBytes = Buffer.from(privateKey.slice(2), 'hex');
-    return Ed25519Keypair.fromSecretKey(keyBytes);
-  }
+export const SETTLEMENT_MODES: SettlementMode[] = ['vault', 'mark_only'];
 
-  // Handle base64 format
-  const keyBytes = Buffer.from(privateKey, 'base64');
-  return Ed25519Keypair.fromSecretKey(keyBytes);
+// Validate a configured settlement mode (defaults to vault)
+function parseSettlementMode(mode: string | undefined): SettlementMode {
+  if (mode === undefined) {
+    return 'vault';
+  }
+  if (!SETTLEMENT_MODES.includes(mode as SettlementMode)) {
+    throw new Error(`Invalid settlementMode "${mode}" in protocol-config.json (expected ${SETTLEMENT_MODES.join(' or ')})`);
+  }
+  return mode as SettlementMode;
 }
 
-export const adminKeypair = getAdminKeypair();
-export const adminAddress = adminKeypair.getPublicKey().toSuiAddress();
-
 // Contract configuration from protocol-config.json
 export const CONTRACT_CONFIG = {
   packageId: protocolConfig.contracts.packageId,
@@ -52,27 +52,42 @@ export const CONTRACT_CONFIG = {
   clock: {
     objectId: protocolConfig.contracts.clock.objectId,
   },
-  protocol: {
-    uid: protocolConfig.protocol.uid,
-    address: protocolConfig.protocol.address,
+  // Package that emits the enclave verification events settlements are paid against
+  enclave: {
+    packageId: ENCLAVE_PACKAGE_ID,
+  },
+  // Move type of the DID NFTs minted by the verification flow (e.g. 0x...::did::DidNft)
+  didNft: {
+    type: DID_NFT_TYPE,
+  },
+  // Seed entries for the protocol registry (see protocol.service.ts)
+  protocols: protocolConfig.protocols.map((protocol) => ({
+    name: protocol.name,
+    uid: protocol.uid,
+    address: protocol.address,
+    settlementMode: parseSettlementMode(protocol.settlementMode),
     vault: {
-      objectId: protocolConfig.protocol.vault.objectId,
-      initialSharedVersion: protocolConfig.protocol.vault.initialSharedVersion,
+      objectId: protocol.vault.objectId,
+      initialSharedVersion: protocol.vault.initialSharedVersion,
     },
-  },
+  })),
   constants: {
     settlementFee: protocolConfig.constants.settlementFee,
     minVaultAmount: protocolConfig.constants.minVaultAmount,
+    mistPerSui: protocolConfig.constants.mistPerSui,
   },
 };
 
-// Contract function names
+// Contract function names (payment module)
 export const CONTRACT_FUNCTIONS = {
+  settleNftPayment: 'settle_nft_payment',
   settleNftPaymentWithVault: 'settle_nft_payment_with_vault',
 };
 
-console.log('=== Sui Configuration Loaded ===');
-console.log(`Network: ${SUI_NETWORK}`);
-console.log(`RPC URL: ${rpcUrl}`);
-console.log(`Admin Address: ${adminAddress}`);
-console.log(`Package ID: ${CONTRACT_CONFIG.packageId}`);
+logger.info('Sui configuration loaded', {
+  network: SUI_NETWORK,
+  rpcUrl,
+  packageId: CONTRACT_CONFIG.packageId,
+  enclavePackageId: CONTRACT_CONFIG.enclave.packageId,
+  didNftType: CONTRACT_CONFIG.didNft.type,
+});
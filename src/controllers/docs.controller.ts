@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { getOpenApiDocument } from '../services/openapi.service';
+
+// Redoc bundle, pinned to an exact npm release and checked by Subresource Integrity
+// To upgrade: change the version and recompute the hash of bundles/redoc.standalone.js
+// (openssl dgst -sha384 -binary redoc.standalone.js | openssl base64 -A)
+const REDOC_VERSION = '2.5.4';
+const REDOC_INTEGRITY = 'sha384-w447zOpYfw/1Tv/5AK9NfHTlQIqE3RVR6KY62jCyy9zNDgO64cMwGGP1Fj0zJVf5';
+
+// Docs page rendered in the browser from /api/openapi.json
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>SuiVerify Settlement API</title>
+    <style>body { margin: 0; }</style>
+  </head>
+  <body>
+    <redoc spec-url="/api/openapi.json"></redoc>
+    <script
+      src="https://cdn.jsdelivr.net/npm/redoc@${REDOC_VERSION}/bundles/redoc.standalone.js"
+      integrity="${REDOC_INTEGRITY}"
+      crossorigin="anonymous"
+    ></script>
+  </body>
+</html>
+`;
+
+// GET /api/openapi.json
+export function getOpenApiSpec(req: Request, res: Response): void {
+  res.json(getOpenApiDocument());
+}
+
+// GET /api/docs
+export function getApiDocs(req: Request, res: Response): void {
+  res.type('html').send(DOCS_PAGE);
+}
@@ -1,295 +1,623 @@
 import { Request, Response } from 'express';
-import { Transaction } from '@mysten/sui/transactions';
+import { CONTRACT_CONFIG, EXPLORER_URL } from '../config/sui.config';
+import { adminAddress } from '../config/signer.config';
 import {
-  suiClient,
-  adminKeypair,
-  adminAddress,
-  CONTRACT_CONFIG,
-  CONTRACT_FUNCTIONS,
-} from '../config/sui.config';
-import {
-  storeSettlement,
-  isNftSettled,
+  failSettlement,
+  getSettlementByIdempotencyKey,
   getSettlementByNftId,
-  getSettlementsByUser,
   getSettlementById,
-  getAllSettlements,
+  listSettlements,
+  iterateSettlements,
+  isReservationExpired,
   SettlementRecord,
+  SettlementFilters,
+  SettlementCursor,
+  SettlementSortField,
+  SortOrder,
 } from '../services/database.service';
-import protocolConfig from '../../data/protocol-config.json';
-
-// Settlement request interface - all data from frontend
-interface SettlementRequest {
-  // Enclave verification tx digest (from ZK verification)
-  enclaveTxDigest: string;
-  // DID NFT that was verified
-  didVerifiedId: string;
-  didNftName?: string;
-  // User who completed verification (zkLogin address)
-  userAddress: string;
-  // Protocol info (passed from frontend)
-  protocolName: string;
-  protocolUid: number;
+import { getAllProtocols, getProtocolByUid } from '../services/protocol.service';
+import { getVaultStatus, VaultStatus } from '../services/vault.service';
+import { getExecutorStats } from '../services/executor.service';
+import { checkReadiness } from '../services/health.service';
+import { recordAttempt, getAttempts } from '../services/attempt.service';
+import { getReconciliationReport } from '../services/reconciliation.service';
+import { getProtocolStatement } from '../services/statement.service';
+import { getSettlementStats } from '../services/stats.service';
+import { AUTH_ERRORS } from '../services/credential.service';
+import {
+  verifySettlementRequest,
+  reserveVerifiedSettlement,
+  executeSettlement,
+  executeSettlementBatch,
+  simulateSettlement,
+  notifySettlementFailed,
+  SettlementRequest,
+} from '../services/settlement.service';
+import { enqueueSettlementJob, getJobById, getJobBySettlementId, SettlementJob } from '../services/job.service';
+import { SettlementError, SETTLEMENT_ERRORS, validationError } from '../utils/errors';
+import { csvRow } from '../utils/csv';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { validate, Infer } from '../utils/schema';
+import {
+  settlementRequestSchema,
+  settleQuerySchema,
+  batchSettlementSchema,
+  allSettlementsQuerySchema,
+  userSettlementsQuerySchema,
+  exportQuerySchema,
+  statementQuerySchema,
+  statsQuerySchema,
+  attemptsQuerySchema,
+  reconciliationQuerySchema,
+  vaultQuerySchema,
+  jobParamsSchema,
+  nftParamsSchema,
+  userParamsSchema,
+  settlementIdParamsSchema,
+  SettlementListQueryInput,
+} from '../schemas/settlement.schema';
+import { logger } from '../utils/logger';
+
+// Rows read per database round trip while streaming an export
+const EXPORT_BATCH_SIZE = 500;
+
+// Validate Idempotency-Key header (printable ASCII, up to 255 chars)
+function isValidIdempotencyKey(key: string): boolean {
+  return /^[\x21-\x7E]{1,255}$/.test(key);
 }
 
-// Validate Sui object ID format (0x + 64 hex characters)
-function isValidSuiId(id: string): boolean {
-  return /^0x[a-fA-F0-9]{64}$/.test(id);
+// Parsed settlement listing query
+interface SettlementListQuery {
+  filters: SettlementFilters;
+  sort: SettlementSortField;
+  order: SortOrder;
+  limit: number;
+  after?: SettlementCursor;
 }
 
-// Validate Sui tx digest format (base58, typically 43-44 chars)
-function isValidTxDigest(digest: string): boolean {
-  return /^[1-9A-HJ-NP-Za-km-z]{43,44}$/.test(digest);
+// Build a listing query from validated query params
+// A cursor carries the sort and order it was issued for; otherwise the route's defaults apply
+function toSettlementListQuery(
+  input: Omit<SettlementListQueryInput, 'limit'> & { limit?: number },
+  defaults: { sort: SettlementSortField; order: SortOrder }
+): SettlementListQuery {
+  const { protocolUid, status, didVerifiedId, from, to, minAmount, maxAmount } = input;
+  const filters: SettlementFilters = { protocolUid, status, didVerifiedId, from, to, minAmount, maxAmount };
+  const limit = input.limit ?? 100;
+
+  if (input.cursor !== undefined) {
+    const after = decodeCursor(input.cursor)!;
+    return { filters, sort: after.sort, order: after.order, limit, after };
+  }
+
+  return {
+    filters,
+    sort: input.sort || defaults.sort,
+    order: input.order || defaults.order,
+    limit,
+  };
+}
+
+// Validate a settlement request and bind it to the protocol authenticated by its API key so protocolUid
+// cannot be spoofed: protocolUid defaults to the authenticated protocol and any other value is rejected
+// Throws a SettlementError (400 with every field error, or 403) when the request may not proceed
+function parseSettlementRequest(req: Request, body: unknown): SettlementRequest {
+  const result = validate(settlementRequestSchema, body);
+  if ('errors' in result) {
+    throw validationError(result.errors);
+  }
+
+  const request = result.value;
+  if (req.protocolUid !== undefined) {
+    if (request.protocolUid === undefined) {
+      request.protocolUid = req.protocolUid;
+    } else if (request.protocolUid !== req.protocolUid) {
+      throw new SettlementError(
+        403,
+        AUTH_ERRORS.protocolMismatch,
+        `API key is not authorized for protocol ${request.protocolUid}`
+      );
+    }
+  }
+
+  // Only reachable with PROTOCOL_AUTH_ENABLED=false
+  if (request.protocolUid === undefined) {
+    throw validationError([{ field: 'protocolUid', message: 'protocolUid is required' }]);
+  }
+
+  return { ...request, protocolUid: request.protocolUid };
+}
+
+// Protocol a reporting request may read: the one its API key belongs to, so one protocol can't read
+// another's settlements. Any other requested protocolUid is rejected (403); with protocol auth disabled
+// (local development) the requested protocolUid, if any, is used as is
+function scopedProtocolUid(req: Request, requested: number | undefined): number | undefined {
+  if (req.protocolUid === undefined) {
+    return requested;
+  }
+  if (requested !== undefined && requested !== req.protocolUid) {
+    throw new SettlementError(403, AUTH_ERRORS.protocolMismatch, `API key is not authorized for protocol ${requested}`);
+  }
+  return req.protocolUid;
+}
+
+// Record a settlement request rejected before execution
+// Fields come straight from the client and may be missing or malformed
+async function recordRejectedAttempt(body: unknown, errorCode: string, errorMessage: string): Promise<void> {
+  const asString = (value: unknown) => (typeof value === 'string' ? value : null);
+  const request = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+  await recordAttempt({
+    did_verified_id: asString(request.didVerifiedId),
+    user_address: asString(request.userAddress),
+    protocol_uid: Number.isInteger(request.protocolUid) ? (request.protocolUid as number) : null,
+    enclave_tx_digest: asString(request.enclaveTxDigest),
+    status: 'rejected',
+    error_code: errorCode,
+    error_message: errorMessage,
+  });
+}
+
+// Build the public settlement payload from a stored record
+// Used for fresh settlements and for idempotent replays so both return identical data
+function formatSettlement(settlement: SettlementRecord) {
+  return {
+    enclaveTxDigest: settlement.enclave_tx_digest,
+    didVerifiedId: settlement.did_verified_id,
+    didNftName: settlement.did_nft_name,
+    protocolUid: settlement.protocol_uid,
+    protocolName: settlement.protocol_name,
+    protocolAddress: settlement.protocol_address,
+    userAddress: settlement.user_address,
+    paymentTxDigest: settlement.payment_tx_digest,
+    settlementAmount: Number(settlement.settlement_amount),
+    settlementMode: settlement.settlement_mode,
+    requestId: settlement.request_id,
+    explorerUrl: `${EXPLORER_URL}/tx/${settlement.payment_tx_digest}`,
+  };
+}
+
+// Build one export row
+function formatExportRow(settlement: SettlementRecord) {
+  return {
+    id: settlement.id,
+    enclaveTxDigest: settlement.enclave_tx_digest,
+    didVerifiedId: settlement.did_verified_id,
+    didNftName: settlement.did_nft_name ?? null,
+    protocolUid: settlement.protocol_uid,
+    protocolName: settlement.protocol_name ?? null,
+    userAddress: settlement.user_address,
+    paymentTxDigest: settlement.payment_tx_digest ?? null,
+    settlementAmount: settlement.settlement_amount !== undefined && settlement.settlement_amount !== null
+      ? String(settlement.settlement_amount)
+      : null,
+    settlementMode: settlement.settlement_mode,
+    status: settlement.status,
+    timestamp: settlement.timestamp !== undefined && settlement.timestamp !== null ? Number(settlement.timestamp) : null,
+    createdAt: settlement.created_at ?? null,
+  };
+}
+
+// CSV export columns, in order
+const EXPORT_COLUMNS: (keyof ReturnType<typeof formatExportRow>)[] = [
+  'id',
+  'enclaveTxDigest',
+  'didVerifiedId',
+  'didNftName',
+  'protocolUid',
+  'protocolName',
+  'userAddress',
+  'paymentTxDigest',
+  'settlementAmount',
+  'settlementMode',
+  'status',
+  'timestamp',
+  'createdAt',
+];
+
+// Build the public job payload
+function formatJob(job: SettlementJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    didVerifiedId: job.did_verified_id,
+    protocolUid: job.protocol_uid,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    paymentTxDigest: job.payment_tx_digest,
+    error: job.last_error,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+  };
+}
+
+// Build the public vault payload (MIST amounts as strings to avoid precision loss)
+function formatVault(vault: VaultStatus) {
+  return {
+    protocolUid: vault.protocolUid,
+    protocolName: vault.protocolName,
+    vaultObjectId: vault.vaultObjectId,
+    balance: vault.balance.toString(),
+    settlementFee: vault.settlementFee.toString(),
+    minVaultAmount: vault.minVaultAmount.toString(),
+    remainingSettlements: vault.remainingSettlements,
+    belowMinimum: vault.belowMinimum,
+  };
+}
+
+// Respond 202 with a queued settlement job
+function respondJobAccepted(res: Response, job: SettlementJob): void {
+  res.status(202).json({
+    success: true,
+    message: 'Settlement queued',
+    data: {
+      ...formatJob(job),
+      statusUrl: `/api/settlement/jobs/${job.id}`,
+    },
+  });
+}
+
+// Respond with a SettlementError (status, stable code and any extra details)
+function respondSettlementError(res: Response, error: SettlementError): void {
+  res.status(error.status).json({
+    success: false,
+    code: error.code,
+    error: error.message,
+    ...error.details,
+  });
 }
 
 // Settle NFT payment on-chain
+// Supports an optional Idempotency-Key header: retries with the same key replay the original result
+// With ?async=true the settlement is queued and 202 is returned with a job id
 export async function settleNftPayment(req: Request, res: Response): Promise<void> {
   try {
-    const { enclaveTxDigest, didVerifiedId, didNftName, userAddress, protocolName, protocolUid } = req.body as SettlementRequest;
+    const idempotencyKey = req.get('Idempotency-Key');
+    const { async: asyncMode } = req.validated!.query as Infer<typeof settleQuerySchema>;
 
-    // Validate required fields
-    if (!enclaveTxDigest) {
-      res.status(400).json({
-        success: false,
-        error: 'enclaveTxDigest is required',
-      });
-      return;
+    // Validate required fields and formats, and the protocol the API key may settle for
+    let settlementRequest: SettlementRequest;
+    try {
+      settlementRequest = parseSettlementRequest(req, req.body);
+    } catch (error) {
+      if (error instanceof SettlementError) {
+        await recordRejectedAttempt(req.body, error.code, error.message);
+      }
+      throw error;
     }
+    const { enclaveTxDigest, didVerifiedId } = settlementRequest;
 
-    if (!didVerifiedId) {
-      res.status(400).json({
-        success: false,
-        error: 'didVerifiedId is required',
-      });
-      return;
-    }
+    // Replay the original result for a retried request
+    if (idempotencyKey !== undefined) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        res.status(400).json({
+          success: false,
+          code: SETTLEMENT_ERRORS.invalidIdempotencyKey,
+          error: 'Invalid Idempotency-Key header. Expected 1-255 printable ASCII characters',
+        });
+        return;
+      }
 
-    if (!userAddress) {
-      res.status(400).json({
-        success: false,
-        error: 'userAddress is required',
-      });
-      return;
-    }
+      const previous = await getSettlementByIdempotencyKey(idempotencyKey);
+      if (previous) {
+        if (
+          previous.did_verified_id !== didVerifiedId ||
+          previous.enclave_tx_digest !== enclaveTxDigest ||
+          previous.protocol_uid !== settlementRequest.protocolUid
+        ) {
+          res.status(422).json({
+            success: false,
+            code: SETTLEMENT_ERRORS.idempotencyKeyMismatch,
+            error: 'Idempotency-Key was already used with a different settlement request',
+          });
+          return;
+        }
 
-    // Validate protocol info from request
-    if (!protocolName) {
-      res.status(400).json({
-        success: false,
-        error: 'protocolName is required',
-      });
-      return;
-    }
+        if (previous.status === 'success') {
+          res.set('Idempotent-Replayed', 'true');
+          res.status(200).json({
+            success: true,
+            message: 'NFT payment settled successfully',
+            data: formatSettlement(previous),
+          });
+          return;
+        }
 
-    if (protocolUid === undefined || protocolUid === null) {
-      res.status(400).json({
-        success: false,
-        error: 'protocolUid is required',
-      });
-      return;
+        if (previous.status === 'pending') {
+          // An asynchronous settlement still in flight replays its job
+          const job = await getJobBySettlementId(previous.id!);
+          if (job) {
+            res.set('Idempotent-Replayed', 'true');
+            respondJobAccepted(res, job);
+            return;
+          }
+
+          if (!isReservationExpired(previous)) {
+            res.status(409).json({
+              success: false,
+              code: SETTLEMENT_ERRORS.inProgress,
+              error: 'DID NFT settlement is already in progress',
+            });
+            return;
+          }
+        }
+        // A failed attempt or an abandoned reservation falls through and is retried
+      }
     }
 
-    // Security check: Validate that passed protocol matches configured protocol
-    if (protocolUid !== CONTRACT_CONFIG.protocol.uid) {
-      res.status(403).json({
-        success: false,
-        error: `Invalid protocol UID. Expected ${CONTRACT_CONFIG.protocol.uid}, got ${protocolUid}`,
-      });
-      return;
+    // Registry, duplicate and on-chain checks, then claim the per-NFT reservation before anything is signed
+    let settlement: SettlementRecord;
+    try {
+      const verified = await verifySettlementRequest(settlementRequest);
+      settlement = await reserveVerifiedSettlement(settlementRequest, verified, idempotencyKey);
+    } catch (error) {
+      await recordRejectedAttempt(
+        settlementRequest,
+        error instanceof SettlementError ? error.code : SETTLEMENT_ERRORS.rpcError,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
     }
 
-    if (protocolName !== protocolConfig.protocol.name) {
-      res.status(403).json({
-        success: false,
-        error: `Invalid protocol name. Expected "${protocolConfig.protocol.name}", got "${protocolName}"`,
-      });
+    if (asyncMode) {
+      let job;
+      try {
+        job = await enqueueSettlementJob({
+          settlementId: settlement.id!,
+          didVerifiedId,
+          protocolUid: settlement.protocol_uid,
+        });
+      } catch (error) {
+        // Without a job nothing would ever complete the reservation
+        await failSettlement(settlement.id!);
+        throw error;
+      }
+      logger.info('Settlement job queued', { jobId: job.id, settlementId: settlement.id, didVerifiedId });
+      respondJobAccepted(res, job);
       return;
     }
 
-    // Validate DID NFT ID format
-    if (!isValidSuiId(didVerifiedId)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid didVerifiedId format. Expected 0x + 64 hex characters',
-      });
-      return;
+    let completed: SettlementRecord;
+    try {
+      completed = await executeSettlement(settlement);
+    } catch (error) {
+      // SettlementErrors already released the reservation, or left it pending because the transaction
+      // may have landed; any other error was raised before submission, so the reservation is released
+      if (!(error instanceof SettlementError)) {
+        await failSettlement(settlement.id!);
+        await notifySettlementFailed(
+          settlement,
+          SETTLEMENT_ERRORS.rpcError,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+      throw error;
     }
 
-    // Validate user address format (zkLogin address)
-    if (!isValidSuiId(userAddress)) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid userAddress format. Expected 0x + 64 hex characters',
-      });
+    // Return success response with all data
+    res.status(200).json({
+      success: true,
+      message: 'NFT payment settled successfully',
+      data: formatSettlement(completed),
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      logger.warn('Settlement rejected', { code: error.code, error: error.message });
+      respondSettlementError(res, error);
       return;
     }
 
-    // Validate enclave tx digest format
-    if (!isValidTxDigest(enclaveTxDigest)) {
-      res.status(400).json({
+    logger.error('Settlement error', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Settle many NFT payments in as few transactions as possible
+// Body: { settlements: SettlementRequest[] } - each item is validated, verified and reserved independently,
+// then the reserved ones are settled together in programmable transaction blocks
+// Always 200 with per-item results (in request order) unless the batch itself is malformed
+export async function settleNftPaymentBatch(req: Request, res: Response): Promise<void> {
+  try {
+    const { settlements: requests } = req.validated!.body as Infer<typeof batchSettlementSchema>;
+
+    const results: Record<string, unknown>[] = new Array(requests.length);
+    const reserved: { index: number; settlement: SettlementRecord }[] = [];
+
+    // Record a rejected item and its result
+    const rejectItem = async (index: number, request: unknown, error: SettlementError) => {
+      await recordRejectedAttempt(request, error.code, error.message);
+      results[index] = {
+        index,
         success: false,
-        error: 'Invalid enclaveTxDigest format. Expected base58 transaction digest',
-      });
-      return;
+        didVerifiedId: (request as Partial<SettlementRequest> | null)?.didVerifiedId,
+        status: error.status,
+        code: error.code,
+        error: error.message,
+        ...error.details,
+      };
+    };
+
+    // Items are checked in order, so a duplicate NFT or enclave digest later in the batch is rejected
+    for (const [index, body] of requests.entries()) {
+      try {
+        const settlementRequest = parseSettlementRequest(req, body);
+        const verified = await verifySettlementRequest(settlementRequest);
+        const settlement = await reserveVerifiedSettlement(settlementRequest, verified);
+        reserved.push({ index, settlement });
+      } catch (error) {
+        await rejectItem(
+          index,
+          body,
+          error instanceof SettlementError
+            ? error
+            : new SettlementError(500, SETTLEMENT_ERRORS.rpcError, error instanceof Error ? error.message : String(error))
+        );
+      }
     }
 
-    // Check if DID NFT is already settled
-    const alreadySettled = await isNftSettled(didVerifiedId);
-    if (alreadySettled) {
-      const existingSettlement = await getSettlementByNftId(didVerifiedId);
-      res.status(409).json({
-        success: false,
-        error: 'DID NFT has already been settled',
-        data: existingSettlement,
+    if (reserved.length > 0) {
+      const outcomes = await executeSettlementBatch(reserved.map((item) => item.settlement));
+
+      outcomes.forEach((outcome, i) => {
+        const { index } = reserved[i];
+        results[index] = outcome.completed
+          ? { index, success: true, data: formatSettlement(outcome.completed) }
+          : {
+              index,
+              success: false,
+              didVerifiedId: outcome.settlement.did_verified_id,
+              status: outcome.error!.status,
+              code: outcome.error!.code,
+              error: outcome.error!.message,
+              ...outcome.error!.details,
+            };
       });
-      return;
     }
 
-    console.log(`\n=== Processing Settlement ===`);
-    console.log(`Protocol: ${protocolName} (UID: ${protocolUid})`);
-    console.log(`Enclave TX: ${enclaveTxDigest}`);
-    console.log(`DID NFT: ${didVerifiedId}`);
-    console.log(`User (zkLogin): ${userAddress}`);
-
-    // Build the transaction
-    const tx = new Transaction();
-
-    // ============================================================
-    // OPTION 1: settle_nft_payment (NO fund transfer, just marks settled)
-    // Uncomment below if you want to use this instead
-    // ============================================================
-    // tx.moveCall({
-    //   target: `${CONTRACT_CONFIG.packageId}::payment::settle_nft_payment`,
-    //   arguments: [
-    //     // Arg0: &mut PaymentRegistry (shared object)
-    //     tx.sharedObjectRef({
-    //       objectId: CONTRACT_CONFIG.paymentRegistry.objectId,
-    //       initialSharedVersion: CONTRACT_CONFIG.paymentRegistry.initialSharedVersion,
-    //       mutable: true,
-    //     }),
-    //     // Arg1: &PaymentCap (owned object)
-    //     tx.object(CONTRACT_CONFIG.paymentCap.objectId),
-    //     // Arg2: u64 (protocol_uid)
-    //     tx.pure.u64(CONTRACT_CONFIG.protocol.uid),
-    //     // Arg3: ID (nft_id) - pass as address type
-    //     tx.pure.address(didVerifiedId),
-    //     // Arg4: String (nft_name)
-    //     tx.pure.string(didNftName || 'Unknown NFT'),
-    //     // Arg5: &Clock (shared object, immutable)
-    //     tx.sharedObjectRef({
-    //       objectId: CONTRACT_CONFIG.clock.objectId,
-    //       initialSharedVersion: '1',
-    //       mutable: false,
-    //     }),
-    //   ],
-    // });
-
-    // ============================================================
-    // OPTION 2: settle_nft_payment_with_vault (WITH fund transfer)
-    // Transfers settlement fee from protocol vault to SuiVerify treasury
-    // ============================================================
-    tx.moveCall({
-      target: `${CONTRACT_CONFIG.packageId}::payment::settle_nft_payment_with_vault`,
-      arguments: [
-        // Arg0: &mut PaymentRegistry (shared object)
-        tx.sharedObjectRef({
-          objectId: CONTRACT_CONFIG.paymentRegistry.objectId,
-          initialSharedVersion: CONTRACT_CONFIG.paymentRegistry.initialSharedVersion,
-          mutable: true,
-        }),
-        // Arg1: &PaymentCap (owned object)
-        tx.object(CONTRACT_CONFIG.paymentCap.objectId),
-        // Arg2: &mut ProtocolVault (shared object)
-        tx.sharedObjectRef({
-          objectId: CONTRACT_CONFIG.protocol.vault.objectId,
-          initialSharedVersion: CONTRACT_CONFIG.protocol.vault.initialSharedVersion,
-          mutable: true,
-        }),
-        // Arg3: u64 (protocol_uid)
-        tx.pure.u64(CONTRACT_CONFIG.protocol.uid),
-        // Arg4: ID (nft_id) - pass as address type
-        tx.pure.address(didVerifiedId),
-        // Arg5: String (nft_name)
-        tx.pure.string(didNftName || 'Unknown NFT'),
-        // Arg6: &Clock (shared object, immutable)
-        tx.sharedObjectRef({
-          objectId: CONTRACT_CONFIG.clock.objectId,
-          initialSharedVersion: '1',
-          mutable: false,
-        }),
-      ],
+    const settled = results.filter((result) => result.success).length;
+    const paymentTxDigests = [
+      ...new Set(results.filter((result) => result.success).map((result) => (result.data as { paymentTxDigest: string }).paymentTxDigest)),
+    ];
+
+    res.status(200).json({
+      success: true,
+      message: `${settled} of ${requests.length} NFT payment(s) settled`,
+      total: requests.length,
+      settled,
+      failed: requests.length - settled,
+      paymentTxDigests,
+      data: results,
     });
+  } catch (error) {
+    logger.error('Batch settlement error', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
 
-    // Execute the transaction
-    console.log('Executing settlement transaction...');
-    const result = await suiClient.signAndExecuteTransaction({
-      transaction: tx,
-      signer: adminKeypair,
-      options: {
-        showEffects: true,
-        showEvents: true,
+// Simulate a settlement (dry run) without signing or writing to the database
+// Runs the same validation and on-chain checks as /settle and returns the predicted outcome
+export async function simulateNftPayment(req: Request, res: Response): Promise<void> {
+  try {
+    // Validate required fields and formats, and the protocol the API key may settle for
+    const settlementRequest = parseSettlementRequest(req, req.body);
+
+    // Registry, duplicate and on-chain checks (throws SettlementError)
+    const verified = await verifySettlementRequest(settlementRequest);
+    const simulation = await simulateSettlement(settlementRequest, verified);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        willSucceed: simulation.willSucceed,
+        ...(simulation.error && {
+          error: {
+            code: simulation.error.code,
+            status: simulation.error.status,
+            message: simulation.error.message,
+            ...simulation.error.details,
+          },
+        }),
+        didVerifiedId: settlementRequest.didVerifiedId,
+        didNftName: verified.didNft.name,
+        protocolUid: verified.protocol.protocol_uid,
+        protocolName: verified.protocol.protocol_name,
+        settlementMode: simulation.settlementMode,
+        settlementFee: simulation.willSucceed ? simulation.settlementFee.toString() : '0',
+        vaultBalance: simulation.vaultBalance.toString(),
+        gasEstimate: simulation.gasEstimate && {
+          computationCost: simulation.gasEstimate.computationCost.toString(),
+          storageCost: simulation.gasEstimate.storageCost.toString(),
+          storageRebate: simulation.gasEstimate.storageRebate.toString(),
+          totalGas: simulation.gasEstimate.totalGas.toString(),
+        },
       },
     });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
+      return;
+    }
 
-    console.log(`Payment TX: ${result.digest}`);
+    logger.error('Simulation error', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
 
-    // Check transaction status
-    const status = result.effects?.status?.status;
-    if (status !== 'success') {
-      const errorMessage = result.effects?.status?.error || 'Unknown error';
-      console.error('Transaction failed:', errorMessage);
-      res.status(500).json({
-        success: false,
-        error: `Transaction failed: ${errorMessage}`,
-        digest: result.digest,
-      });
+// Get settlement attempts (successful, failed and rejected)
+// Query params: protocolUid, didVerifiedId, userAddress, status, limit, offset
+export async function getSettlementAttempts(req: Request, res: Response): Promise<void> {
+  try {
+    const { protocolUid, didVerifiedId, userAddress, status, limit: queryLimit, offset: queryOffset } =
+      req.validated!.query as Infer<typeof attemptsQuerySchema>;
+
+    const result = await getAttempts({
+      protocolUid: scopedProtocolUid(req, protocolUid),
+      didVerifiedId,
+      userAddress,
+      status,
+      limit: queryLimit,
+      offset: queryOffset,
+    });
+
+    res.status(200).json({
+      success: true,
+      total: result.total,
+      count: result.attempts.length,
+      pagination: {
+        limit: queryLimit,
+        offset: queryOffset,
+      },
+      data: result.attempts,
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
       return;
     }
+    logger.error('Error getting settlement attempts', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
 
-    // Store complete settlement record in database
-    const settlementRecord: SettlementRecord = {
-      // Enclave verification
-      enclave_tx_digest: enclaveTxDigest,
-      // DID NFT
-      did_verified_id: didVerifiedId,
-      did_nft_name: didNftName,
-      // Protocol info
-      protocol_uid: CONTRACT_CONFIG.protocol.uid,
-      protocol_name: protocolConfig.protocol.name,
-      protocol_address: CONTRACT_CONFIG.protocol.address,
-      // User info
-      user_address: userAddress,
-      // Payment settlement
-      payment_tx_digest: result.digest,
-      settlement_amount: CONTRACT_CONFIG.constants.settlementFee,
-      // Metadata
-      timestamp: Date.now(),
-      status: 'success',
-    };
+// Get chain-to-database reconciliation report
+export async function getReconciliation(req: Request, res: Response): Promise<void> {
+  try {
+    const { kind, limit, offset } = req.validated!.query as Infer<typeof reconciliationQuerySchema>;
 
-    await storeSettlement(settlementRecord);
-    console.log('Settlement stored in database');
-    console.log(`=== Settlement Complete ===\n`);
+    const report = await getReconciliationReport({ protocolUid: req.protocolUid, kind, limit, offset });
 
-    // Return success response with all data
     res.status(200).json({
       success: true,
-      message: 'NFT payment settled successfully',
+      total: report.total,
+      count: report.items.length,
+      pagination: {
+        limit,
+        offset,
+      },
       data: {
-        enclaveTxDigest,
-        didVerifiedId,
-        didNftName,
-        protocolUid: CONTRACT_CONFIG.protocol.uid,
-        protocolName: protocolConfig.protocol.name,
-        protocolAddress: CONTRACT_CONFIG.protocol.address,
-        userAddress,
-        paymentTxDigest: result.digest,
-        settlementAmount: CONTRACT_CONFIG.constants.settlementFee,
-        explorerUrl: `https://suiscan.xyz/testnet/tx/${result.digest}`,
+        cursor: report.cursor,
+        lastEventTimestampMs: report.lastEventTimestampMs,
+        // Size of every section: missing_event (settled rows without an NftSettled event),
+        // missing_row (events whose row couldn't be rebuilt), backfilled, conflict (digest differs)
+        counts: report.counts,
+        kind: kind ?? null,
+        items: report.items,
       },
     });
   } catch (error) {
-    console.error('Settlement error:', error);
+    logger.error('Error getting reconciliation report', { error });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -297,36 +625,59 @@ export async function settleNftPayment(req: Request, res: Response): Promise<voi
   }
 }
 
-// Check settlement status for a DID NFT
-export async function getSettlementStatus(req: Request, res: Response): Promise<void> {
+// Get settlement job status
+export async function getSettlementJob(req: Request, res: Response): Promise<void> {
   try {
-    const { nftId } = req.params;
+    const { id } = req.validated!.params as Infer<typeof jobParamsSchema>;
 
-    if (!nftId) {
-      res.status(400).json({
+    const job = await getJobById(id);
+
+    if (job) {
+      res.status(200).json({
+        success: true,
+        data: formatJob(job),
+      });
+    } else {
+      res.status(404).json({
         success: false,
-        error: 'nftId is required',
+        error: `Settlement job ${id} not found`,
       });
-      return;
     }
+  } catch (error) {
+    logger.error('Error getting settlement job', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Check settlement status for a DID NFT
+export async function getSettlementStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const { nftId } = req.validated!.params as Infer<typeof nftParamsSchema>;
 
     const settlement = await getSettlementByNftId(nftId);
 
-    if (settlement) {
+    if (settlement && settlement.status === 'success') {
       res.status(200).json({
         success: true,
         settled: true,
         data: settlement,
       });
     } else {
+      // Pending or failed reservations are reported but do not count as settled
       res.status(200).json({
         success: true,
         settled: false,
-        message: 'DID NFT has not been settled',
+        message: settlement?.status === 'pending'
+          ? 'DID NFT settlement is in progress'
+          : 'DID NFT has not been settled',
+        ...(settlement && { data: settlement }),
       });
     }
   } catch (error) {
-    console.error('Error checking settlement status:', error);
+    logger.error('Error checking settlement status', { error });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -334,28 +685,73 @@ export async function getSettlementStatus(req: Request, res: Response): Promise<
   }
 }
 
-// Get settlements by user address
+// Get settlements by user address (newest first by default)
+// Query params: same filters, sort, order, limit and cursor as /all
 export async function getUserSettlements(req: Request, res: Response): Promise<void> {
   try {
-    const { userAddress } = req.params;
+    const { userAddress } = req.validated!.params as Infer<typeof userParamsSchema>;
+    const { filters, sort, order, limit, after } = toSettlementListQuery(
+      req.validated!.query as SettlementListQueryInput,
+      { sort: 'timestamp', order: 'desc' }
+    );
+    const result = await listSettlements({
+      filters: { ...filters, protocolUid: scopedProtocolUid(req, filters.protocolUid), userAddress },
+      sort,
+      order,
+      limit,
+      after,
+    });
 
-    if (!userAddress) {
-      res.status(400).json({
-        success: false,
-        error: 'userAddress is required',
-      });
+    res.status(200).json({
+      success: true,
+      total: result.total,
+      count: result.settlements.length,
+      pagination: {
+        limit,
+        sort,
+        order,
+        nextCursor: result.next ? encodeCursor(result.next) : null,
+      },
+      data: result.settlements,
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
       return;
     }
+    logger.error('Error getting user settlements', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
 
-    const settlements = await getSettlementsByUser(userAddress);
+// Health check: service info plus the readiness checks (503 when any fails)
+export async function healthCheck(req: Request, res: Response): Promise<void> {
+  try {
+    const [readiness, protocols] = await Promise.all([
+      checkReadiness(),
+      // A database outage is reported by the checks; the protocol list is just left empty
+      getAllProtocols().catch(() => []),
+    ]);
 
-    res.status(200).json({
-      success: true,
-      count: settlements.length,
-      data: settlements,
+    res.status(readiness.ready ? 200 : 503).json({
+      success: readiness.ready,
+      status: readiness.ready ? 'healthy' : 'unhealthy',
+      adminAddress,
+      packageId: CONTRACT_CONFIG.packageId,
+      protocols: protocols.map((protocol) => ({
+        protocolUid: protocol.protocol_uid,
+        protocolName: protocol.protocol_name,
+        settlementMode: protocol.settlement_mode,
+      })),
+      executor: getExecutorStats(),
+      checks: readiness.checks,
+      timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error getting user settlements:', error);
+    logger.error('Error during health check', { error });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -363,41 +759,114 @@ export async function getUserSettlements(req: Request, res: Response): Promise<v
   }
 }
 
-// Health check
-export async function healthCheck(req: Request, res: Response): Promise<void> {
+// Liveness probe: the process is up and serving requests (no dependency checks,
+// so an RPC or database outage doesn't get the process restarted)
+export function liveness(req: Request, res: Response): void {
   res.status(200).json({
     success: true,
-    status: 'healthy',
-    adminAddress,
-    packageId: CONTRACT_CONFIG.packageId,
-    protocolUid: CONTRACT_CONFIG.protocol.uid,
-    protocolName: protocolConfig.protocol.name,
+    status: 'alive',
+    uptimeSeconds: Math.round(process.uptime()),
     timestamp: new Date().toISOString(),
   });
 }
 
-// Get single settlement by database ID
-export async function getSingleSettlement(req: Request, res: Response): Promise<void> {
+// Readiness probe: 200 only when the database, RPC, PaymentCap, gas and shared objects all check out
+// Each check is reported with its timing; any failure returns 503
+export async function readiness(req: Request, res: Response): Promise<void> {
   try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({
-        success: false,
-        error: 'id is required',
+    const report = await checkReadiness();
+    if (!report.ready) {
+      logger.warn('Readiness check failed', {
+        failed: report.checks.filter((check) => check.status === 'fail').map((check) => ({ name: check.name, error: check.error })),
       });
-      return;
     }
 
-    const numericId = parseInt(id, 10);
-    if (isNaN(numericId) || numericId < 1) {
-      res.status(400).json({
-        success: false,
-        error: 'Invalid id format. Expected positive integer',
-      });
-      return;
+    res.status(report.ready ? 200 : 503).json({
+      success: report.ready,
+      status: report.ready ? 'ready' : 'not_ready',
+      checks: report.checks,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    // The probe must still answer: a check runner that throws means not ready
+    logger.error('Error during readiness check', { error });
+    res.status(503).json({
+      success: false,
+      status: 'not_ready',
+      error: error instanceof Error ? error.message : 'Internal server error',
+      checks: [],
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// List all registered protocols
+export async function getProtocols(req: Request, res: Response): Promise<void> {
+  try {
+    const protocols = await getAllProtocols();
+
+    res.status(200).json({
+      success: true,
+      count: protocols.length,
+      data: protocols.map((protocol) => ({
+        protocolUid: protocol.protocol_uid,
+        protocolName: protocol.protocol_name,
+        protocolAddress: protocol.protocol_address,
+        vaultObjectId: protocol.vault_object_id,
+        settlementMode: protocol.settlement_mode,
+      })),
+    });
+  } catch (error) {
+    logger.error('Error getting protocols', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Get live ProtocolVault balances
+// Query params: protocolUid (optional, defaults to all registered protocols)
+export async function getVaultBalances(req: Request, res: Response): Promise<void> {
+  try {
+    const { protocolUid } = req.validated!.query as Infer<typeof vaultQuerySchema>;
+
+    let protocols;
+    if (protocolUid !== undefined) {
+      const protocol = await getProtocolByUid(protocolUid);
+      if (!protocol) {
+        res.status(404).json({
+          success: false,
+          error: `Protocol ${protocolUid} is not registered`,
+        });
+        return;
+      }
+      protocols = [protocol];
+    } else {
+      protocols = await getAllProtocols();
     }
 
+    const vaults = await Promise.all(protocols.map((protocol) => getVaultStatus(protocol)));
+
+    res.status(200).json({
+      success: true,
+      count: vaults.length,
+      data: vaults.map(formatVault),
+    });
+  } catch (error) {
+    logger.error('Error getting vault balances', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Get single settlement by database ID
+export async function getSingleSettlement(req: Request, res: Response): Promise<void> {
+  try {
+    const { id: numericId } = req.validated!.params as Infer<typeof settlementIdParamsSchema>;
+
     const settlement = await getSettlementById(numericId);
 
     if (settlement) {
@@ -412,7 +881,7 @@ export async function getSingleSettlement(req: Request, res: Response): Promise<
       });
     }
   } catch (error) {
-    console.error('Error getting settlement by id:', error);
+    logger.error('Error getting settlement by id', { error });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -420,51 +889,226 @@ export async function getSingleSettlement(req: Request, res: Response): Promise<
   }
 }
 
-// Get all settlements (with optional pagination)
-// Query params: limit, page (or offset)
-export async function getBulkSettlements(req: Request, res: Response): Promise<void> {
+// Get a protocol's billing statement: totals and line items of successful settlements in a timestamp range
+// Query params: protocolUid (default: the API key's protocol), from/to (Unix ms or ISO 8601;
+// default: start of the current UTC month to now)
+export async function getStatement(req: Request, res: Response): Promise<void> {
   try {
-    const { limit, page, offset } = req.query;
+    const query = req.validated!.query as Infer<typeof statementQuerySchema>;
+    const { from, to, limit } = query;
 
-    let queryLimit: number | undefined;
-    let queryOffset: number | undefined;
+    const protocolUid = scopedProtocolUid(req, query.protocolUid);
+    // Only reachable with PROTOCOL_AUTH_ENABLED=false
+    if (protocolUid === undefined) {
+      respondSettlementError(res, validationError([{ field: 'protocolUid', message: 'protocolUid is required' }]));
+      return;
+    }
 
-    // Parse limit
-    if (limit !== undefined) {
-      queryLimit = parseInt(limit as string, 10);
-      if (isNaN(queryLimit) || queryLimit < 1) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid limit. Expected positive integer',
-        });
-        return;
-      }
+    const now = new Date();
+    const fromMs = from ?? Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    const toMs = to ?? now.getTime();
+
+    // Only one bound given: the schema cannot compare it with the default of the other
+    if (fromMs > toMs) {
+      respondSettlementError(res, validationError([{ field: 'from', message: 'from must not be after to' }]));
+      return;
     }
 
-    // Parse offset (either direct offset or calculated from page)
-    if (offset !== undefined) {
-      queryOffset = parseInt(offset as string, 10);
-      if (isNaN(queryOffset) || queryOffset < 0) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid offset. Expected non-negative integer',
-        });
+    const statement = await getProtocolStatement({
+      protocolUid,
+      from: fromMs,
+      to: toMs,
+      limit,
+      after: query.cursor !== undefined ? decodeCursor(query.cursor)! : undefined,
+    });
+
+    if (!statement) {
+      res.status(404).json({
+        success: false,
+        code: SETTLEMENT_ERRORS.protocolNotRegistered,
+        error: `Protocol ${protocolUid} is not registered`,
+      });
+      return;
+    }
+
+    const { next, ...data } = statement;
+    res.status(200).json({
+      success: true,
+      pagination: {
+        limit,
+        nextCursor: next ? encodeCursor(next) : null,
+      },
+      data: {
+        ...data,
+        from: new Date(data.from).toISOString(),
+        to: new Date(data.to).toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
+      return;
+    }
+    logger.error('Error building statement', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Get settlement analytics, bucketed by day/week/month (per protocol) or totalled per protocol
+// Query params: groupBy (day, week, month, protocol; default day), protocolUid,
+// from/to (Unix ms or ISO 8601; default: the last 30 days)
+export async function getStats(req: Request, res: Response): Promise<void> {
+  try {
+    const query = req.validated!.query as Infer<typeof statsQuerySchema>;
+    const { groupBy: queryGroupBy, from, to } = query;
+    const protocolUid = scopedProtocolUid(req, query.protocolUid);
+
+    const now = Date.now();
+    const fromMs = from ?? now - 30 * 24 * 60 * 60 * 1000;
+    const toMs = to ?? now;
+
+    // Only one bound given: the schema cannot compare it with the default of the other
+    if (fromMs > toMs) {
+      respondSettlementError(res, validationError([{ field: 'from', message: 'from must not be after to' }]));
+      return;
+    }
+
+    const stats = await getSettlementStats({
+      groupBy: queryGroupBy,
+      from: fromMs,
+      to: toMs,
+      protocolUid,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        groupBy: queryGroupBy,
+        from: new Date(fromMs).toISOString(),
+        to: new Date(toMs).toISOString(),
+        ...(protocolUid !== undefined && { protocolUid }),
+        totals: stats.totals,
+        buckets: stats.buckets,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
+      return;
+    }
+    logger.error('Error getting settlement stats', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Resolve once the response can take more data (or the client has gone away)
+function waitForDrain(res: Response): Promise<void> {
+  return new Promise((resolve) => {
+    // 'close' may have fired before the listeners below are attached
+    if (res.destroyed || res.writableEnded) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+}
+
+// Stream settlements as CSV or NDJSON
+// Query params: format (csv or ndjson, default csv) plus the filters, sort and order of /all
+// Rows are written as they are read, so exports of any size never load the table into memory
+export async function exportSettlements(req: Request, res: Response): Promise<void> {
+  const query = req.validated!.query as Infer<typeof exportQuerySchema>;
+  const { format } = query;
+  const { filters, sort, order } = toSettlementListQuery(query, { sort: 'id', order: 'asc' });
+
+  try {
+    filters.protocolUid = scopedProtocolUid(req, filters.protocolUid);
+  } catch (error) {
+    respondSettlementError(res, error as SettlementError);
+    return;
+  }
+
+  // Headers go out with the first page, so a query that fails up front still gets a JSON error
+  let started = false;
+  const start = () => {
+    const filename = `settlements-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.status(200);
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      res.write(csvRow(EXPORT_COLUMNS));
+    }
+    started = true;
+  };
+
+  try {
+    for await (const settlement of iterateSettlements({ filters, sort, order, batchSize: EXPORT_BATCH_SIZE })) {
+      if (res.destroyed) {
+        // Client went away - leaving the loop stops reading from the database
         return;
       }
-    } else if (page !== undefined && queryLimit !== undefined) {
-      const pageNum = parseInt(page as string, 10);
-      if (isNaN(pageNum) || pageNum < 1) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid page. Expected positive integer',
-        });
-        return;
+      if (!started) {
+        start();
       }
-      queryOffset = (pageNum - 1) * queryLimit;
+
+      const row = formatExportRow(settlement);
+      const line = format === 'csv'
+        ? csvRow(EXPORT_COLUMNS.map((column) => row[column]))
+        : `${JSON.stringify(row)}\n`;
+
+      if (!res.write(line)) {
+        await waitForDrain(res);
+      }
+    }
+
+    if (!started) {
+      // No matching rows: an empty file (CSV header only)
+      start();
+    }
+    res.end();
+  } catch (error) {
+    logger.error('Error exporting settlements', { error });
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+      });
+      return;
     }
+    // Part of the body is already out - cut the stream so the client sees an incomplete download
+    res.destroy(error instanceof Error ? error : undefined);
+  }
+}
+
+// Get all settlements (paginated)
+// Query params: protocolUid, status, didVerifiedId, from/to (timestamp range), minAmount/maxAmount,
+// sort (id, timestamp, amount), order, limit (default 100, max 500), cursor (or legacy page/offset)
+export async function getBulkSettlements(req: Request, res: Response): Promise<void> {
+  try {
+    const query = req.validated!.query as Infer<typeof allSettlementsQuerySchema>;
+    const { filters, sort, order, limit: queryLimit, after } = toSettlementListQuery(query, { sort: 'id', order: 'asc' });
+
+    // Offset is either given directly or calculated from page
+    const queryOffset = query.offset ?? (query.page !== undefined ? (query.page - 1) * queryLimit : undefined);
 
-    const result = await getAllSettlements({
+    const result = await listSettlements({
+      filters: { ...filters, protocolUid: scopedProtocolUid(req, filters.protocolUid) },
+      sort,
+      order,
       limit: queryLimit,
+      after,
       offset: queryOffset,
     });
 
@@ -472,18 +1116,26 @@ export async function getBulkSettlements(req: Request, res: Response): Promise<v
       success: true,
       total: result.total,
       count: result.settlements.length,
-      ...(queryLimit !== undefined && {
-        pagination: {
-          limit: queryLimit,
+      pagination: {
+        limit: queryLimit,
+        sort,
+        order,
+        nextCursor: result.next ? encodeCursor(result.next) : null,
+        // Offset pages shift when rows are inserted; follow nextCursor for a stable walk
+        ...(!after && {
           offset: queryOffset || 0,
-          page: queryOffset !== undefined && queryLimit ? Math.floor(queryOffset / queryLimit) + 1 : 1,
-          totalPages: queryLimit ? Math.ceil(result.total / queryLimit) : 1,
-        },
-      }),
+          page: queryOffset !== undefined ? Math.floor(queryOffset / queryLimit) + 1 : 1,
+          totalPages: Math.ceil(result.total / queryLimit),
+        }),
+      },
       data: result.settlements,
     });
   } catch (error) {
-    console.error('Error getting all settlements:', error);
+    if (error instanceof SettlementError) {
+      respondSettlementError(res, error);
+      return;
+    }
+    logger.error('Error getting all settlements', { error });
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Internal server error',
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express';
+import {
+  checkWebhookTarget,
+  registerWebhook,
+  getWebhooks,
+  deactivateWebhook,
+  getDeliveries,
+  getDelivery,
+  replayDelivery,
+} from '../services/webhook.service';
+import { AUTH_ERRORS } from '../services/credential.service';
+import { validationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { Infer } from '../utils/schema';
+import {
+  createWebhookSchema,
+  deliveriesQuerySchema,
+  webhookParamsSchema,
+  deliveryParamsSchema,
+} from '../schemas/webhook.schema';
+
+// Webhooks belong to the authenticated protocol
+// Returns its UID, or responds 401 when the request carries no protocol API key
+function requireProtocol(req: Request, res: Response): number | null {
+  if (req.protocolUid === undefined) {
+    res.status(401).json({
+      success: false,
+      code: AUTH_ERRORS.missingCredentials,
+      error: 'Webhook management requires a protocol API key',
+    });
+    return null;
+  }
+  return req.protocolUid;
+}
+
+// Register a webhook endpoint for the authenticated protocol
+// Body: { url, events }
+export async function createWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const protocolUid = requireProtocol(req, res);
+    if (protocolUid === null) {
+      return;
+    }
+
+    const { url, events } = req.validated!.body as Infer<typeof createWebhookSchema>;
+
+    const refused = await checkWebhookTarget(url);
+    if (refused) {
+      const error = validationError([{ field: 'url', message: refused }]);
+      res.status(error.status).json({
+        success: false,
+        code: error.code,
+        error: error.message,
+        ...error.details,
+      });
+      return;
+    }
+
+    const { webhook, secret } = await registerWebhook({
+      protocolUid,
+      url,
+      events: [...new Set(events)],
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook registered. Store the secret now, it is not shown again',
+      data: {
+        ...webhook,
+        secret,
+      },
+    });
+  } catch (error) {
+    logger.error('Error registering webhook', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// List the authenticated protocol's webhooks
+export async function listWebhooks(req: Request, res: Response): Promise<void> {
+  try {
+    const protocolUid = requireProtocol(req, res);
+    if (protocolUid === null) {
+      return;
+    }
+
+    const webhooks = await getWebhooks(protocolUid);
+
+    res.status(200).json({
+      success: true,
+      count: webhooks.length,
+      data: webhooks,
+    });
+  } catch (error) {
+    logger.error('Error listing webhooks', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Deactivate one of the authenticated protocol's webhooks
+export async function deleteWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const protocolUid = requireProtocol(req, res);
+    if (protocolUid === null) {
+      return;
+    }
+
+    const { id } = req.validated!.params as Infer<typeof webhookParamsSchema>;
+
+    if (!(await deactivateWebhook(protocolUid, id))) {
+      res.status(404).json({
+        success: false,
+        error: `Webhook ${id} not found`,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Webhook ${id} deactivated`,
+    });
+  } catch (error) {
+    logger.error('Error deactivating webhook', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// List the authenticated protocol's webhook deliveries
+// Query params: status, limit, offset
+export async function listDeliveries(req: Request, res: Response): Promise<void> {
+  try {
+    const protocolUid = requireProtocol(req, res);
+    if (protocolUid === null) {
+      return;
+    }
+
+    const { status, limit: queryLimit, offset: queryOffset } = req.validated!.query as Infer<typeof deliveriesQuerySchema>;
+
+    const result = await getDeliveries({
+      protocolUid,
+      status,
+      limit: queryLimit,
+      offset: queryOffset,
+    });
+
+    res.status(200).json({
+      success: true,
+      total: result.total,
+      count: result.deliveries.length,
+      pagination: {
+        limit: queryLimit,
+        offset: queryOffset,
+      },
+      data: result.deliveries,
+    });
+  } catch (error) {
+    logger.error('Error listing webhook deliveries', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
+
+// Replay a failed delivery
+export async function replayWebhookDelivery(req: Request, res: Response): Promise<void> {
+  try {
+    const protocolUid = requireProtocol(req, res);
+    if (protocolUid === null) {
+      return;
+    }
+
+    const { id } = req.validated!.params as Infer<typeof deliveryParamsSchema>;
+    const delivery = await getDelivery(protocolUid, id);
+
+    if (!delivery) {
+      res.status(404).json({
+        success: false,
+        error: `Webhook delivery ${id} not found`,
+      });
+      return;
+    }
+
+    const replayed = await replayDelivery(protocolUid, id);
+    if (!replayed) {
+      res.status(409).json({
+        success: false,
+        error: `Only failed deliveries can be replayed (delivery is ${delivery.status})`,
+      });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Delivery queued for replay',
+      data: replayed,
+    });
+  } catch (error) {
+    logger.error('Error replaying webhook delivery', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import 'dotenv/config';
+import {
+  issueCredential,
+  rotateCredential,
+  revokeCredential,
+  listCredentials,
+  IssuedCredential,
+} from './services/credential.service';
+import { closePool } from './services/database.service';
+
+// Print a newly issued key - the secret is only ever shown here
+function printIssued(issued: IssuedCredential): void {
+  console.log(`Protocol:   ${issued.credential.protocol_uid}`);
+  console.log(`API key:    ${issued.credential.key_id}`);
+  console.log(`Secret:     ${issued.secret}`);
+  console.log('Hand the secret to the protocol over a secure channel; it is not shown again.');
+}
+
+// Protocol credential command
+// Usage:
+//   npm run credentials -- issue <protocolUid>                 - Issue a new API key
+//   npm run credentials -- rotate <keyId> [--grace=<seconds>]  - Issue a replacement and expire the old key
+//   npm run credentials -- revoke <keyId>                      - Revoke a key immediately
+//   npm run credentials -- list [protocolUid]                  - List keys (without secrets)
+async function main(): Promise<void> {
+  const [command, arg] = process.argv.slice(2).filter((a) => !a.startsWith('--'));
+  const graceArg = process.argv.find((a) => a.startsWith('--grace='));
+
+  try {
+    switch (command) {
+      case 'issue': {
+        const protocolUid = parseInt(arg, 10);
+        if (isNaN(protocolUid)) {
+          throw new Error('Usage: credentials issue <protocolUid>');
+        }
+        printIssued(await issueCredential(protocolUid));
+        break;
+      }
+      case 'rotate': {
+        if (!arg) {
+          throw new Error('Usage: credentials rotate <keyId> [--grace=<seconds>]');
+        }
+        const grace = graceArg ? parseInt(graceArg.split('=')[1], 10) : undefined;
+        printIssued(await rotateCredential(arg, grace));
+        console.log(`Old key ${arg} expires after the grace period.`);
+        break;
+      }
+      case 'revoke': {
+        if (!arg) {
+          throw new Error('Usage: credentials revoke <keyId>');
+        }
+        const revoked = await revokeCredential(arg);
+        console.log(revoked ? `Revoked ${arg}` : `API key ${arg} not found or already revoked`);
+        break;
+      }
+      case 'list': {
+        const credentials = await listCredentials(arg !== undefined ? parseInt(arg, 10) : undefined);
+        for (const credential of credentials) {
+          const state = credential.revoked_at
+            ? `revoked ${credential.revoked_at.toISOString()}`
+            : credential.expires_at
+              ? `expires ${credential.expires_at.toISOString()}`
+              : 'active';
+          const used = credential.last_used_at ? credential.last_used_at.toISOString() : 'never';
+          console.log(`${credential.protocol_uid} ${credential.key_id}: ${state} (last used ${used})`);
+        }
+        break;
+      }
+      default:
+        throw new Error('Usage: credentials <issue|rotate|revoke|list> ...');
+    }
+  } catch (error) {
+    console.error('Credentials command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
@@ -0,0 +1,50 @@
+import 'dotenv/config';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import type { SignatureScheme } from '@mysten/sui/cryptography';
+import { parsePrivateKey } from './signers/keypair.signer';
+import { encryptKeystore, KeystoreFile } from './signers/keystore.signer';
+
+// Keystore command
+// Usage:
+//   npm run keystore -- create <path>    - Encrypt ADMIN_PRIVATE_KEY with SIGNER_KEYSTORE_PASSPHRASE into <path>
+//   npm run keystore -- address <path>   - Print the address a keystore signs for
+function main(): void {
+  const [command, path] = process.argv.slice(2);
+
+  try {
+    if (!path) {
+      throw new Error('Usage: keystore <create|address> <path>');
+    }
+
+    switch (command) {
+      case 'create': {
+        const privateKey = process.env.ADMIN_PRIVATE_KEY;
+        const passphrase = process.env.SIGNER_KEYSTORE_PASSPHRASE;
+        if (!privateKey || !passphrase) {
+          throw new Error('ADMIN_PRIVATE_KEY and SIGNER_KEYSTORE_PASSPHRASE are required');
+        }
+        if (existsSync(path)) {
+          throw new Error(`${path} already exists`);
+        }
+
+        const keypair = parsePrivateKey(privateKey, (process.env.SIGNER_KEY_SCHEME || 'ED25519') as SignatureScheme);
+        writeFileSync(path, JSON.stringify(encryptKeystore(keypair, passphrase), null, 2) + '\n', { mode: 0o600 });
+        console.log(`Keystore written to ${path} for ${keypair.toSuiAddress()} (${keypair.getKeyScheme()})`);
+        console.log('Remove ADMIN_PRIVATE_KEY from the environment and set SIGNER_TYPE=keystore');
+        break;
+      }
+      case 'address': {
+        const keystore = JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile;
+        console.log(keystore.address);
+        break;
+      }
+      default:
+        throw new Error('Usage: keystore <create|address> <path>');
+    }
+  } catch (error) {
+    console.error('Keystore command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
+
+main();
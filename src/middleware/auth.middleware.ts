@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { authenticateRequest, AUTH_ERRORS } from '../services/credential.service';
+import { SettlementError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Protocol authentication can only be switched off explicitly (local development)
+const PROTOCOL_AUTH_ENABLED = process.env.PROTOCOL_AUTH_ENABLED !== 'false';
+
+if (!PROTOCOL_AUTH_ENABLED) {
+  logger.warn('PROTOCOL_AUTH_ENABLED=false: settlement requests are not authenticated');
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Raw JSON body, kept for signature verification
+      rawBody?: Buffer;
+      // Protocol bound to the request by its API key
+      protocolUid?: number;
+      apiKeyId?: string;
+    }
+  }
+}
+
+// Require a protocol API key and HMAC signature (X-Api-Key, X-Timestamp, X-Signature)
+// and bind the authenticated protocol to the request
+export async function requireProtocolAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!PROTOCOL_AUTH_ENABLED) {
+    next();
+    return;
+  }
+
+  const keyId = req.get('X-Api-Key');
+  const timestamp = req.get('X-Timestamp');
+  const signature = req.get('X-Signature');
+
+  if (!keyId || !timestamp || !signature) {
+    res.status(401).json({
+      success: false,
+      code: AUTH_ERRORS.missingCredentials,
+      error: 'X-Api-Key, X-Timestamp and X-Signature headers are required',
+    });
+    return;
+  }
+
+  try {
+    const credential = await authenticateRequest({
+      keyId,
+      timestamp,
+      signature,
+      method: req.method,
+      path: req.originalUrl,
+      rawBody: req.rawBody || Buffer.alloc(0),
+    });
+
+    req.protocolUid = credential.protocol_uid;
+    req.apiKeyId = credential.key_id;
+    next();
+  } catch (error) {
+    if (error instanceof SettlementError) {
+      logger.warn('Authentication rejected', { code: error.code, keyId });
+      res.status(error.status).json({
+        success: false,
+        code: error.code,
+        error: error.message,
+      });
+      return;
+    }
+
+    logger.error('Authentication error', { error });
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Internal server error',
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import { httpRequestsTotal, httpRequestDuration } from '../services/metrics.service';
+
+// Count and time every HTTP request by method, route pattern and status code
+// The route is the matched pattern (e.g. /api/settlement/status/:nftId) so ids don't create new series
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = { method: req.method, route, status: res.statusCode };
+    httpRequestsTotal.inc(labels);
+    stopTimer(labels);
+  });
+
+  next();
+}
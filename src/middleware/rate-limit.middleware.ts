@@ -0,0 +1,123 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  createMemoryStore,
+  createPostgresStore,
+  RateLimitBudget,
+  RateLimitResult,
+  RateLimitStore,
+} from '../services/rate-limit.service';
+import { SETTLEMENT_ERRORS } from '../utils/errors';
+
+// Rate limit configuration
+const RATE_LIMIT_ENABLED = process.env.RATE_LIMIT_ENABLED !== 'false';
+const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'memory';
+
+// Separate budgets for settlement writes (/settle, /simulate) and lookups
+const BUDGETS: Record<'write' | 'read', RateLimitBudget> = {
+  write: {
+    capacity: parseInt(process.env.RATE_LIMIT_WRITE_BURST || '10', 10),
+    refillPerSecond: parseInt(process.env.RATE_LIMIT_WRITE_PER_MINUTE || '30', 10) / 60,
+  },
+  read: {
+    capacity: parseInt(process.env.RATE_LIMIT_READ_BURST || '60', 10),
+    refillPerSecond: parseInt(process.env.RATE_LIMIT_READ_PER_MINUTE || '300', 10) / 60,
+  },
+};
+
+const store: RateLimitStore = RATE_LIMIT_STORE === 'postgres' ? createPostgresStore() : createMemoryStore();
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Buckets already charged for this request (a limiter placed before and after auth charges each once)
+      rateLimitKeys?: Set<string>;
+    }
+  }
+}
+
+// Tokens a request takes from each bucket (e.g. one per batch item)
+export type RateLimitCost = (req: Request) => number;
+
+const ipKey = (req: Request, budget: 'write' | 'read') => `${budget}:ip:${req.ip}`;
+
+// Bucket keys for a request: client IP, authenticated protocol and user address (when present)
+function bucketKeys(req: Request, budget: 'write' | 'read'): string[] {
+  const keys = [ipKey(req, budget)];
+
+  if (req.protocolUid !== undefined) {
+    keys.push(`${budget}:protocol:${req.protocolUid}`);
+  }
+
+  const userAddress = req.params.userAddress || req.body?.userAddress;
+  if (typeof userAddress === 'string' && userAddress) {
+    keys.push(`${budget}:user:${userAddress.toLowerCase()}`);
+  }
+
+  return keys;
+}
+
+// Set RateLimit-* headers from the most restrictive bucket
+function setRateLimitHeaders(res: Response, result: RateLimitResult): void {
+  res.set('RateLimit-Limit', String(result.limit));
+  res.set('RateLimit-Remaining', String(result.remaining));
+  res.set('RateLimit-Reset', String(result.resetSeconds));
+}
+
+// Charge the buckets not yet charged for this request; 429 when any of them is empty
+function limiter(
+  budget: 'write' | 'read',
+  keysFor: (req: Request, budget: 'write' | 'read') => string[],
+  cost?: RateLimitCost
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!RATE_LIMIT_ENABLED) {
+      next();
+      return;
+    }
+
+    const charged = req.rateLimitKeys || new Set<string>();
+    req.rateLimitKeys = charged;
+    const keys = keysFor(req, budget).filter((key) => !charged.has(key));
+    if (keys.length === 0) {
+      next();
+      return;
+    }
+    keys.forEach((key) => charged.add(key));
+
+    const tokens = cost ? Math.max(1, cost(req)) : 1;
+    const results = await Promise.all(keys.map((key) => store.consume(key, BUDGETS[budget], tokens)));
+
+    const denied = results.filter((result) => !result.allowed);
+    const limiting = denied.length > 0
+      ? denied.reduce((a, b) => (b.retryAfterSeconds > a.retryAfterSeconds ? b : a))
+      : results.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+
+    setRateLimitHeaders(res, limiting);
+
+    if (denied.length > 0) {
+      res.set('Retry-After', String(limiting.retryAfterSeconds));
+      res.status(429).json({
+        success: false,
+        code: SETTLEMENT_ERRORS.rateLimited,
+        error: 'Too many requests',
+        retryAfter: limiting.retryAfterSeconds,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+// Token bucket rate limit keyed by client IP, protocol and user address
+// Place after requireProtocolAuth on signed routes so the protocol bucket applies
+export function rateLimit(budget: 'write' | 'read', cost?: RateLimitCost) {
+  return limiter(budget, bucketKeys, cost);
+}
+
+// Client IP bucket only, for signed routes before requireProtocolAuth: unsigned or badly signed
+// requests are limited before any credential lookup (the user bucket waits for a valid signature,
+// so nobody can drain another user's budget). A later rateLimit skips the IP bucket it already charged
+export function rateLimitByIp(budget: 'write' | 'read', cost?: RateLimitCost) {
+  return limiter(budget, (req) => [ipKey(req, budget)], cost);
+}
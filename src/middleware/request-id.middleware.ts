@@ -0,0 +1,40 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger, withLogContext } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Correlation ID (X-Request-Id), stored on settlement rows and attached to every log line
+      requestId?: string;
+    }
+  }
+}
+
+// Client-supplied IDs are accepted when short and free of control/whitespace characters
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Accept or generate a correlation ID, echo it in X-Request-Id and run the request in its log context
+// Logs one access line per request when the response finishes
+export function requestId(req: Request, res: Response, next: NextFunction): void {
+  const supplied = req.get('X-Request-Id');
+  const id = supplied && REQUEST_ID_PATTERN.test(supplied) ? supplied : randomUUID();
+  const start = process.hrtime.bigint();
+
+  req.requestId = id;
+  res.set('X-Request-Id', id);
+
+  withLogContext({ requestId: id }, () => {
+    res.on('finish', () => {
+      logger.info('HTTP request', {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        status: res.statusCode,
+        durationMs: Number(process.hrtime.bigint() - start) / 1e6,
+        ...(req.protocolUid !== undefined && { protocolUid: req.protocolUid }),
+      });
+    });
+
+    next();
+  });
+}
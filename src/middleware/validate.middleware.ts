@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import { validate, FieldError, Schema } from '../utils/schema';
+import { validationError } from '../utils/errors';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Parsed path params, query and body (defaults applied), set by validateRequest
+      validated?: {
+        params?: unknown;
+        query?: unknown;
+        body?: unknown;
+      };
+    }
+  }
+}
+
+// Schemas for the parts of a request a route accepts
+export interface RequestSchemas {
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+}
+
+// Validate params, query and body against their schemas before the handler runs
+// Errors from all three are reported together; parsed values are stored on req.validated
+export function validateRequest(schemas: RequestSchemas) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const validated: NonNullable<Request['validated']> = {};
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part];
+      if (!schema) {
+        continue;
+      }
+
+      // Path and query values are strings; JSON bodies keep their types
+      const result = validate(schema, req[part], { coerce: part !== 'body' });
+      if ('errors' in result) {
+        errors.push(...result.errors);
+      } else {
+        validated[part] = result.value;
+      }
+    }
+
+    if (errors.length > 0) {
+      const error = validationError(errors);
+      res.status(error.status).json({
+        success: false,
+        code: error.code,
+        error: error.message,
+        ...error.details,
+      });
+      return;
+    }
+
+    req.validated = validated;
+    next();
+  };
+}
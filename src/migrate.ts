@@ -0,0 +1,32 @@
+import 'dotenv/config';
+import { runMigrations, getMigrationStatus } from './services/migration.service';
+import { closePool } from './services/database.service';
+
+// Migration command
+// Usage:
+//   npm run migrate                          - Apply pending migrations
+//   npm run migrate -- --allow-destructive   - Also apply migrations containing DROP/TRUNCATE/DELETE
+//   npm run migrate -- status                - List applied and pending migrations
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  try {
+    if (args.includes('status')) {
+      const status = await getMigrationStatus();
+      for (const migration of status) {
+        const state = migration.applied ? `applied ${migration.appliedAt?.toISOString()}` : 'pending';
+        const flag = migration.destructive ? ' [destructive]' : '';
+        console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}: ${state}${flag}`);
+      }
+    } else {
+      await runMigrations({ allowDestructive: args.includes('--allow-destructive') });
+    }
+  } catch (error) {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
@@ -0,0 +1,75 @@
+import 'dotenv/config';
+import { timingSafeEqual } from 'crypto';
+import express, { Request, Response } from 'express';
+import type { Keypair, SignatureScheme } from '@mysten/sui/cryptography';
+import { parsePrivateKey } from './signers/keypair.signer';
+import { loadKeystore } from './signers/keystore.signer';
+
+// Local stand-in for a remote signing service (SIGNER_TYPE=remote), implementing the protocol
+// expected by RemoteSigner. Holds the key from SIGNER_KEYSTORE_PATH (or ADMIN_PRIVATE_KEY) so the
+// settlement backend itself never does. Meant for development and as a reference for an HSM proxy.
+const PORT = Number(process.env.REMOTE_SIGNER_PORT || 3002);
+// Loopback only unless another interface is chosen explicitly
+const HOST = process.env.REMOTE_SIGNER_HOST || '127.0.0.1';
+const TOKEN = process.env.REMOTE_SIGNER_TOKEN;
+
+// Without a token anyone who can reach the port could sign with the admin key
+if (!TOKEN) {
+  throw new Error('REMOTE_SIGNER_TOKEN is required');
+}
+
+// Load the key held by the stand-in
+function loadKeypair(): Keypair {
+  if (process.env.SIGNER_KEYSTORE_PATH) {
+    return loadKeystore(process.env.SIGNER_KEYSTORE_PATH, process.env.SIGNER_KEYSTORE_PASSPHRASE || '');
+  }
+  if (process.env.ADMIN_PRIVATE_KEY) {
+    return parsePrivateKey(process.env.ADMIN_PRIVATE_KEY, (process.env.SIGNER_KEY_SCHEME || 'ED25519') as SignatureScheme);
+  }
+  throw new Error('SIGNER_KEYSTORE_PATH or ADMIN_PRIVATE_KEY is required');
+}
+
+const keypair = loadKeypair();
+const publicKey = keypair.getPublicKey().toSuiPublicKey();
+
+// Constant-time bearer token check
+function isAuthorized(req: Request): boolean {
+  const provided = Buffer.from(req.get('Authorization') || '');
+  const expected = Buffer.from(`Bearer ${TOKEN}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+const app = express();
+app.use(express.json());
+
+// GET /public-key - Value for REMOTE_SIGNER_PUBLIC_KEY
+app.get('/public-key', (req: Request, res: Response) => {
+  res.json({ publicKey, address: keypair.toSuiAddress(), scheme: keypair.getKeyScheme() });
+});
+
+// POST /sign - Sign a 32-byte intent message digest
+app.post('/sign', async (req: Request, res: Response) => {
+  if (!isAuthorized(req)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  const { publicKey: requestedKey, digest } = req.body || {};
+  if (requestedKey !== publicKey) {
+    res.status(404).json({ error: 'Unknown public key' });
+    return;
+  }
+
+  const bytes = typeof digest === 'string' ? Buffer.from(digest, 'base64') : Buffer.alloc(0);
+  if (bytes.length !== 32) {
+    res.status(400).json({ error: 'digest must be a base64 32-byte digest' });
+    return;
+  }
+
+  const signature = await keypair.sign(new Uint8Array(bytes));
+  res.json({ signature: Buffer.from(signature).toString('base64') });
+});
+
+app.listen(PORT, HOST, () => {
+  console.log(`Remote signer stand-in listening on http://${HOST}:${PORT} for ${keypair.toSuiAddress()}`);
+});
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getOpenApiSpec, getApiDocs } from '../controllers/docs.controller';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+
+const router = Router();
+
+// GET /api/openapi.json - OpenAPI 3.1 document generated from the request schemas
+router.get('/openapi.json', rateLimit('read'), getOpenApiSpec);
+
+// GET /api/docs - Browsable API reference
+router.get('/docs', rateLimit('read'), getApiDocs);
+
+export default router;
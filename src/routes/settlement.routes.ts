@@ -1,38 +1,193 @@
 import { Router } from 'express';
 import {
   settleNftPayment,
+  settleNftPaymentBatch,
+  simulateNftPayment,
   getSettlementStatus,
   getUserSettlements,
   healthCheck,
+  liveness,
+  readiness,
   getSingleSettlement,
   getBulkSettlements,
+  getProtocols,
+  getSettlementJob,
+  getVaultBalances,
+  getSettlementAttempts,
+  getReconciliation,
+  getStatement,
+  exportSettlements,
+  getStats,
 } from '../controllers/settlement.controller';
+import { requireProtocolAuth } from '../middleware/auth.middleware';
+import { rateLimit, rateLimitByIp, RateLimitCost } from '../middleware/rate-limit.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import {
+  settleQuerySchema,
+  batchSettlementSchema,
+  allSettlementsQuerySchema,
+  userSettlementsQuerySchema,
+  exportQuerySchema,
+  statementQuerySchema,
+  statsQuerySchema,
+  attemptsQuerySchema,
+  reconciliationQuerySchema,
+  vaultQuerySchema,
+  jobParamsSchema,
+  nftParamsSchema,
+  userParamsSchema,
+  settlementIdParamsSchema,
+  BATCH_MAX_ITEMS,
+} from '../schemas/settlement.schema';
 
 const router = Router();
 
-// POST /api/settlement/settle - Settle an NFT payment
-router.post('/settle', settleNftPayment);
+// A batch takes one write token per settlement (oversized batches are rejected by validation)
+const batchCost: RateLimitCost = (req) => {
+  const settlements = req.body?.settlements;
+  return Array.isArray(settlements) ? Math.min(settlements.length, BATCH_MAX_ITEMS) : 1;
+};
+
+// Signed routes are limited per client IP before the signature is checked, then per protocol and user
+
+// POST /api/settlement/settle - Settle an NFT payment (signed with a protocol API key)
+// Query params: async=true to queue the settlement and return 202 with a job id
+// The body is validated by the handler so rejected requests are recorded as attempts
+router.post(
+  '/settle',
+  rateLimitByIp('write'),
+  requireProtocolAuth,
+  rateLimit('write'),
+  validateRequest({ query: settleQuerySchema }),
+  settleNftPayment
+);
+
+// POST /api/settlement/settle/batch - Settle many NFT payments in shared programmable transactions
+// Body: { settlements: [SettlementRequest, ...] } - per-item results, in request order
+router.post(
+  '/settle/batch',
+  rateLimitByIp('write', batchCost),
+  requireProtocolAuth,
+  rateLimit('write', batchCost),
+  validateRequest({ body: batchSettlementSchema }),
+  settleNftPaymentBatch
+);
 
-// GET /api/settlement/all - Get all settlements (with optional pagination)
-// Query params: limit, page, offset
+// POST /api/settlement/simulate - Dry-run a settlement (same body and auth as /settle, nothing is signed or stored)
+router.post('/simulate', rateLimitByIp('write'), requireProtocolAuth, rateLimit('write'), simulateNftPayment);
+
+// GET /api/settlement/jobs/:id - Get asynchronous settlement job status
+router.get('/jobs/:id', rateLimit('read'), validateRequest({ params: jobParamsSchema }), getSettlementJob);
+
+// GET /api/settlement/all - Get all settlements (paginated; signed, the API key's protocol only)
+// Query params: protocolUid, status, didVerifiedId, from, to, minAmount, maxAmount,
+// sort (id|timestamp|amount), order (asc|desc), limit (default 100, max 500), cursor, page, offset
 // Examples:
-//   /api/settlement/all - Get all settlements
+//   /api/settlement/all - Get the first 100
 //   /api/settlement/all?limit=10 - Get first 10
+//   /api/settlement/all?limit=10&cursor=<nextCursor> - Get the next 10 (stable while rows are inserted)
+//   /api/settlement/all?status=success&protocolUid=1000&sort=timestamp&order=desc - Filtered, newest first
 //   /api/settlement/all?limit=10&page=2 - Get page 2 (items 11-20)
-//   /api/settlement/all?limit=10&offset=5 - Get 10 items starting from 6th
-router.get('/all', getBulkSettlements);
+router.get(
+  '/all',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: allSettlementsQuerySchema }),
+  getBulkSettlements
+);
+
+// GET /api/settlement/statements - Billing statement for a protocol (totals + line items)
+// Signed like /settle; only the API key's protocol can be billed
+// Query params: protocolUid (default: the API key's protocol), from, to (Unix ms or ISO 8601; default: current UTC month)
+router.get(
+  '/statements',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: statementQuerySchema }),
+  getStatement
+);
+
+// GET /api/settlement/stats - Settlement analytics (counts, MIST paid, unique users, failure rate, latency)
+// Signed; the API key's protocol only
+// Query params: groupBy (day|week|month|protocol), protocolUid, from, to (default: last 30 days)
+router.get(
+  '/stats',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: statsQuerySchema }),
+  getStats
+);
+
+// GET /api/settlement/export - Stream settlements as CSV or NDJSON (signed; the API key's protocol only)
+// Query params: format (csv|ndjson), plus the filters, sort and order of /all
+router.get(
+  '/export',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: exportQuerySchema }),
+  exportSettlements
+);
+
+// GET /api/settlement/attempts - Settlement attempts (success, failed, rejected; signed, the API key's protocol only)
+// Query params: protocolUid, didVerifiedId, userAddress, status, limit (default 50, max 500), offset
+router.get(
+  '/attempts',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: attemptsQuerySchema }),
+  getSettlementAttempts
+);
+
+// GET /api/settlement/reconciliation - Chain vs database discrepancy report (signed; the API key's protocol only)
+// Query params: kind (missing_event|missing_row|backfilled|conflict), limit (default 100, max 500), offset
+router.get(
+  '/reconciliation',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ query: reconciliationQuerySchema }),
+  getReconciliation
+);
 
 // GET /api/settlement/status/:nftId - Check settlement status by DID NFT ID
-router.get('/status/:nftId', getSettlementStatus);
+router.get('/status/:nftId', rateLimit('read'), validateRequest({ params: nftParamsSchema }), getSettlementStatus);
+
+// GET /api/settlement/user/:userAddress - Get settlements for a user (newest first, paginated)
+// Signed; the API key's protocol only
+// Query params: same as /all except page/offset
+router.get(
+  '/user/:userAddress',
+  rateLimitByIp('read'),
+  requireProtocolAuth,
+  rateLimit('read'),
+  validateRequest({ params: userParamsSchema, query: userSettlementsQuerySchema }),
+  getUserSettlements
+);
 
-// GET /api/settlement/user/:userAddress - Get all settlements for a user
-router.get('/user/:userAddress', getUserSettlements);
+// GET /api/settlement/protocols - List all registered protocols
+router.get('/protocols', rateLimit('read'), getProtocols);
 
-// GET /api/settlement/health - Health check
+// GET /api/settlement/vault - Live ProtocolVault balance and remaining settlements
+// Query params: protocolUid (optional)
+router.get('/vault', rateLimit('read'), validateRequest({ query: vaultQuerySchema }), getVaultBalances);
+
+// GET /api/settlement/health - Health check (service info and readiness checks)
 router.get('/health', healthCheck);
 
+// GET /api/settlement/live - Liveness probe (process is up; no dependency checks)
+router.get('/live', liveness);
+
+// GET /api/settlement/ready - Readiness probe (database, Sui RPC and chain ID, PaymentCap owner,
+// admin gas balance, registry and vault shared objects); 503 when any check fails
+router.get('/ready', readiness);
+
 // GET /api/settlement/:id - Get single settlement by database ID
 // Must be at the end to avoid conflicts with other routes
-router.get('/:id', getSingleSettlement);
+router.get('/:id', rateLimit('read'), validateRequest({ params: settlementIdParamsSchema }), getSingleSettlement);
 
 export default router;
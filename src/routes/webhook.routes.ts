@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import {
+  createWebhook,
+  listWebhooks,
+  deleteWebhook,
+  listDeliveries,
+  replayWebhookDelivery,
+} from '../controllers/webhook.controller';
+import { requireProtocolAuth } from '../middleware/auth.middleware';
+import { rateLimit, rateLimitByIp } from '../middleware/rate-limit.middleware';
+import { validateRequest } from '../middleware/validate.middleware';
+import {
+  createWebhookSchema,
+  deliveriesQuerySchema,
+  webhookParamsSchema,
+  deliveryParamsSchema,
+} from '../schemas/webhook.schema';
+
+const router = Router();
+
+// Limit per client IP before the signature is checked, so unsigned requests are limited too
+const writeByIp = rateLimitByIp('write');
+const readByIp = rateLimitByIp('read');
+router.use((req, res, next) => (req.method === 'GET' ? readByIp : writeByIp)(req, res, next));
+
+// Every webhook route is signed with the protocol's API key and scoped to that protocol
+router.use(requireProtocolAuth);
+
+// POST /api/webhooks - Register a webhook endpoint
+// Body: { url, events: ["settlement.succeeded", "settlement.failed", "vault.low_balance"] }
+router.post('/', rateLimit('write'), validateRequest({ body: createWebhookSchema }), createWebhook);
+
+// GET /api/webhooks - List registered webhooks
+router.get('/', rateLimit('read'), listWebhooks);
+
+// GET /api/webhooks/deliveries - Delivery log
+// Query params: status, limit (default 50, max 500), offset
+router.get('/deliveries', rateLimit('read'), validateRequest({ query: deliveriesQuerySchema }), listDeliveries);
+
+// POST /api/webhooks/deliveries/:id/replay - Replay a failed delivery
+router.post(
+  '/deliveries/:id/replay',
+  rateLimit('write'),
+  validateRequest({ params: deliveryParamsSchema }),
+  replayWebhookDelivery
+);
+
+// DELETE /api/webhooks/:id - Deactivate a webhook
+router.delete('/:id', rateLimit('write'), validateRequest({ params: webhookParamsSchema }), deleteWebhook);
+
+export default router;
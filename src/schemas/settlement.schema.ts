@@ -0,0 +1,183 @@
+import {
+  array,
+  boolean,
+  enumeration,
+  integer,
+  object,
+  optional,
+  string,
+  timestamp,
+  unknownValue,
+  Infer,
+} from '../utils/schema';
+import { decodeCursor } from '../utils/cursor';
+import { STATS_GROUP_BY } from '../services/stats.service';
+import { RECONCILIATION_KINDS } from '../services/reconciliation.service';
+
+// Maximum number of settlements accepted by one batch request
+export const BATCH_MAX_ITEMS = parseInt(process.env.SETTLEMENT_BATCH_MAX_ITEMS || '100', 10);
+
+// Sui object ID or address (0x + 64 hex characters)
+function suiId(description: string) {
+  return string({
+    pattern: /^0x[a-fA-F0-9]{64}$/,
+    expected: 'Expected 0x + 64 hex characters',
+    description,
+    example: `0x${'35849ea1'.repeat(8)}`,
+  });
+}
+
+// Sui transaction digest (base58, typically 43-44 chars)
+function txDigest(description: string) {
+  return string({
+    pattern: /^[1-9A-HJ-NP-Za-km-z]{43,44}$/,
+    expected: 'Expected base58 transaction digest',
+    description,
+    example: '7rDBN3iAZc4C7C8vqXGBzXbWUbqGGsNxkVLbC2PQr6mU',
+  });
+}
+
+const protocolUid = (description: string) => integer({ min: 0, description, example: 1000 });
+
+// POST /settle, /simulate and each /settle/batch item
+export const settlementRequestSchema = object({
+  enclaveTxDigest: txDigest('Enclave verification transaction (single use)'),
+  didVerifiedId: suiId('DID NFT object ID'),
+  userAddress: suiId('zkLogin address of the verified user'),
+  protocolName: string({ minLength: 1, maxLength: 255, description: 'Registered protocol name', example: 'test' }),
+  protocolUid: optional(protocolUid("Defaults to the API key's protocol; any other value is rejected")),
+}, { description: 'NFT settlement request' });
+
+export type SettlementRequestInput = Infer<typeof settlementRequestSchema>;
+
+export const settleQuerySchema = object({
+  async: optional(boolean({ description: 'Queue the settlement and return 202 with a job id' }), false),
+});
+
+// Items are validated one by one so a malformed item only rejects itself
+export const batchSettlementSchema = object({
+  settlements: array(unknownValue({ $ref: '#/components/schemas/SettlementRequest' }), {
+    minItems: 1,
+    maxItems: BATCH_MAX_ITEMS,
+    description: 'Settlement requests, settled in request order',
+  }),
+});
+
+// Optional `from`/`to` range; `from` must not be after `to`
+function checkRange(value: { from?: number; to?: number }) {
+  return value.from !== undefined && value.to !== undefined && value.from > value.to
+    ? { field: 'from', message: 'from must not be after to' }
+    : null;
+}
+
+// Filters shared by /all, /user/:userAddress and /export
+const settlementFilterFields = {
+  protocolUid: optional(protocolUid('Only settlements of this protocol')),
+  status: optional(enumeration(['pending', 'success', 'failed'] as const)),
+  didVerifiedId: optional(suiId('Only the settlement of this DID NFT')),
+  from: optional(timestamp({ description: 'Settlement timestamp lower bound (Unix ms or ISO 8601)' })),
+  to: optional(timestamp({ description: 'Settlement timestamp upper bound (Unix ms or ISO 8601)' })),
+  minAmount: optional(string({ pattern: /^\d+$/, expected: 'Expected non-negative integer (MIST)', example: '1000000' })),
+  maxAmount: optional(string({ pattern: /^\d+$/, expected: 'Expected non-negative integer (MIST)', example: '5000000' })),
+  sort: optional(enumeration(['id', 'timestamp', 'amount'] as const)),
+  order: optional(enumeration(['asc', 'desc'] as const)),
+};
+
+const pageFields = {
+  limit: optional(integer({ min: 1, max: 500 }), 100),
+  cursor: optional(string({
+    check: (value) => (decodeCursor(value) ? null : 'Expected nextCursor from a previous page'),
+    description: 'nextCursor of the previous page (stable while rows are inserted)',
+  })),
+};
+
+// A cursor carries the sort it was issued for; sort/order may be omitted when continuing
+function checkCursor(value: { cursor?: string; sort?: string; order?: string }) {
+  if (value.cursor === undefined) {
+    return null;
+  }
+  const cursor = decodeCursor(value.cursor)!;
+  return (value.sort !== undefined && value.sort !== cursor.sort) || (value.order !== undefined && value.order !== cursor.order)
+    ? { field: 'cursor', message: 'cursor was issued for a different sort or order' }
+    : null;
+}
+
+// Line items are paged oldest first, so a cursor must come from a previous statement page
+export const statementQuerySchema = object({
+  protocolUid: optional(protocolUid("Protocol to bill; defaults to the API key's protocol, any other value is rejected")),
+  from: optional(timestamp({ description: 'Default: start of the current UTC month' })),
+  to: optional(timestamp({ description: 'Default: now' })),
+  ...pageFields,
+}, { check: (value) => checkRange(value) || checkCursor({ ...value, sort: 'timestamp', order: 'asc' }) });
+
+export const userSettlementsQuerySchema = object({
+  ...settlementFilterFields,
+  ...pageFields,
+}, { check: (value) => checkRange(value) || checkCursor(value) });
+
+export type SettlementListQueryInput = Infer<typeof userSettlementsQuerySchema>;
+
+// /all also accepts legacy page/offset pagination
+export const allSettlementsQuerySchema = object({
+  ...settlementFilterFields,
+  ...pageFields,
+  page: optional(integer({ min: 1, description: 'Legacy offset pagination (prefer cursor)' })),
+  offset: optional(integer({ min: 0, description: 'Legacy offset pagination (prefer cursor)' })),
+}, {
+  check: (value) => checkRange(value) || checkCursor(value) || (
+    value.cursor !== undefined && (value.page !== undefined || value.offset !== undefined)
+      ? { field: 'cursor', message: 'cursor cannot be combined with page or offset' }
+      : null
+  ),
+});
+
+export const exportQuerySchema = object({
+  ...settlementFilterFields,
+  format: optional(enumeration(['csv', 'ndjson'] as const), 'csv'),
+}, { check: checkRange });
+
+
+export const statsQuerySchema = object({
+  groupBy: optional(enumeration(STATS_GROUP_BY), 'day'),
+  protocolUid: optional(protocolUid('Only settlements of this protocol')),
+  from: optional(timestamp({ description: 'Default: 30 days ago' })),
+  to: optional(timestamp({ description: 'Default: now' })),
+}, { check: checkRange });
+
+export const attemptsQuerySchema = object({
+  protocolUid: optional(protocolUid("Defaults to the API key's protocol; any other value is rejected")),
+  // Rejected attempts keep malformed client values, so these filters are not format-checked
+  didVerifiedId: optional(string({ maxLength: 255 })),
+  userAddress: optional(string({ maxLength: 255 })),
+  status: optional(enumeration(['success', 'failed', 'rejected'] as const)),
+  limit: optional(integer({ min: 1, max: 500 }), 50),
+  offset: optional(integer({ min: 0 }), 0),
+});
+
+export const reconciliationQuerySchema = object({
+  kind: optional(enumeration(RECONCILIATION_KINDS, {
+    description: 'Report section; default: every recorded discrepancy (missing events are listed only on request)',
+  })),
+  limit: optional(integer({ min: 1, max: 500 }), 100),
+  offset: optional(integer({ min: 0 }), 0),
+});
+
+export const vaultQuerySchema = object({
+  protocolUid: optional(protocolUid('Default: every registered protocol')),
+});
+
+export const jobParamsSchema = object({
+  id: string({ minLength: 1, maxLength: 36, description: 'Settlement job ID' }),
+});
+
+export const nftParamsSchema = object({
+  nftId: suiId('DID NFT object ID'),
+});
+
+export const userParamsSchema = object({
+  userAddress: suiId('zkLogin address'),
+});
+
+export const settlementIdParamsSchema = object({
+  id: integer({ min: 1, description: 'Settlement database ID' }),
+});
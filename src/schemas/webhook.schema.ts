@@ -0,0 +1,34 @@
+import { array, enumeration, integer, object, optional, string } from '../utils/schema';
+import { WEBHOOK_EVENTS } from '../services/webhook.service';
+
+// Webhook URLs must be https (http is allowed in development)
+// The host is resolved and checked for non-public addresses when the webhook is registered
+function checkWebhookUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || (parsed.protocol === 'http:' && process.env.NODE_ENV === 'development')
+      ? null
+      : 'Expected an https URL';
+  } catch {
+    return 'Expected an https URL';
+  }
+}
+
+export const createWebhookSchema = object({
+  url: string({ maxLength: 2048, format: 'uri', check: checkWebhookUrl, example: 'https://protocol.example.com/suiverify' }),
+  events: array(enumeration(WEBHOOK_EVENTS), { minItems: 1, description: 'Events to deliver' }),
+});
+
+export const deliveriesQuerySchema = object({
+  status: optional(enumeration(['pending', 'delivering', 'succeeded', 'failed'] as const)),
+  limit: optional(integer({ min: 1, max: 500 }), 50),
+  offset: optional(integer({ min: 0 }), 0),
+});
+
+export const webhookParamsSchema = object({
+  id: integer({ min: 1, description: 'Webhook ID' }),
+});
+
+export const deliveryParamsSchema = object({
+  id: string({ minLength: 1, maxLength: 36, description: 'Delivery ID' }),
+});
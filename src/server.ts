@@ -1,8 +1,18 @@
 import 'dotenv/config';
 import app from './app';
-import { initDatabase, testConnection, closePool } from './services/database.service';
+import { testConnection, closePool } from './services/database.service';
+import { runMigrations } from './services/migration.service';
+import { seedProtocolRegistry } from './services/protocol.service';
+import { markShuttingDown } from './services/health.service';
+import { startSettlementWorker, stopSettlementWorker } from './workers/settlement.worker';
+import { startVaultMonitor, stopVaultMonitor } from './workers/vault.worker';
+import { startReconciliationWorker, stopReconciliationWorker } from './workers/reconciliation.worker';
+import { startWebhookWorker, stopWebhookWorker } from './workers/webhook.worker';
+import { logger } from './utils/logger';
 
 const PORT = process.env.PORT || 3001;
+// Apply pending (non-destructive) migrations on boot unless disabled
+const MIGRATE_ON_START = process.env.MIGRATE_ON_START !== 'false';
 
 // ASCII Banner
 const banner = `
@@ -22,40 +32,69 @@ const banner = `
 
 async function startServer(): Promise<void> {
   try {
-    console.log(banner);
+    // Banner only on an interactive terminal; log collectors get JSON lines
+    if (process.stdout.isTTY) {
+      console.log(banner);
+    }
 
     // Test database connection
-    console.log('Connecting to database...');
+    logger.info('Connecting to database');
     const dbConnected = await testConnection();
     if (!dbConnected) {
       throw new Error('Failed to connect to database');
     }
 
-    // Initialize database tables
-    await initDatabase();
+    // Apply schema migrations (destructive ones require `npm run migrate -- --allow-destructive`)
+    if (MIGRATE_ON_START) {
+      await runMigrations();
+    }
+    await seedProtocolRegistry();
+
+    // Start background settlement worker (processes ?async=true settlements)
+    startSettlementWorker();
+
+    // Start background vault balance monitor (alerts below minVaultAmount)
+    startVaultMonitor();
+
+    // Start chain-to-database reconciliation (indexes NftSettled events)
+    startReconciliationWorker();
+
+    // Start outbound webhook delivery (settlement and vault events to protocols)
+    startWebhookWorker();
 
     // Start Express server
     app.listen(PORT, () => {
-      console.log(`\n🚀 Server running on http://localhost:${PORT}`);
-      console.log(`📍 Health check: http://localhost:${PORT}/api/settlement/health`);
-      console.log(`📍 Settle NFT: POST http://localhost:${PORT}/api/settlement/settle`);
-      console.log('\nReady to process NFT settlements!\n');
+      logger.info('Server running', {
+        url: `http://localhost:${PORT}`,
+        health: `http://localhost:${PORT}/api/settlement/health`,
+        ready: `http://localhost:${PORT}/api/settlement/ready`,
+      });
     });
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
-  console.log('\nShutting down gracefully...');
+  logger.info('Shutting down gracefully');
+  markShuttingDown();
+  await stopSettlementWorker();
+  await stopVaultMonitor();
+  await stopReconciliationWorker();
+  await stopWebhookWorker();
   await closePool();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
-  console.log('\nShutting down gracefully...');
+  logger.info('Shutting down gracefully');
+  markShuttingDown();
+  await stopSettlementWorker();
+  await stopVaultMonitor();
+  await stopReconciliationWorker();
+  await stopWebhookWorker();
   await closePool();
   process.exit(0);
 });
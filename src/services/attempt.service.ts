@@ -0,0 +1,122 @@
+import { pool } from './database.service';
+import { settlementsTotal } from './metrics.service';
+import { logger, currentRequestId } from '../utils/logger';
+
+// Attempt outcome: `rejected` before execution, `failed` during/after execution, `success` on-chain
+export type AttemptStatus = 'success' | 'failed' | 'rejected';
+
+// Settlement attempt record - every call that tried to settle a DID NFT
+export interface SettlementAttempt {
+  id?: number;
+  // Reserved nft_settlements row (absent for rejected attempts)
+  settlement_id?: number | null;
+  did_verified_id?: string | null;
+  user_address?: string | null;
+  protocol_uid?: number | null;
+  enclave_tx_digest?: string | null;
+  status: AttemptStatus;
+  error_code?: string | null;
+  error_message?: string | null;
+  abort_code?: number | null;
+  payment_tx_digest?: string | null;
+  // Net gas in MIST (computation + storage - rebate)
+  gas_used?: string | null;
+  // X-Request-Id of the HTTP request (or of the request that queued the job)
+  request_id?: string | null;
+  created_at?: Date;
+}
+
+// Record a settlement attempt
+// Never throws: losing an audit row must not change the outcome of a settlement
+export async function recordAttempt(attempt: SettlementAttempt): Promise<void> {
+  // Rejected requests carry an unverified client-supplied protocolUid; keep it out of the labels
+  settlementsTotal.inc({
+    protocol_uid: attempt.status === 'rejected' ? 'unverified' : attempt.protocol_uid ?? 'unknown',
+    outcome: attempt.status,
+  });
+
+  try {
+    const client = await pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO settlement_attempts
+          (settlement_id, did_verified_id, user_address, protocol_uid, enclave_tx_digest, status,
+           error_code, error_message, abort_code, payment_tx_digest, gas_used, request_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          attempt.settlement_id ?? null,
+          attempt.did_verified_id ?? null,
+          attempt.user_address ?? null,
+          attempt.protocol_uid ?? null,
+          attempt.enclave_tx_digest ?? null,
+          attempt.status,
+          attempt.error_code ?? null,
+          attempt.error_message ?? null,
+          attempt.abort_code ?? null,
+          attempt.payment_tx_digest ?? null,
+          attempt.gas_used ?? null,
+          attempt.request_id ?? currentRequestId() ?? null,
+        ]
+      );
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    logger.error('Failed to record settlement attempt', { error });
+  }
+}
+
+// Get settlement attempts with optional filters, newest first
+export async function getAttempts(options: {
+  protocolUid?: number;
+  didVerifiedId?: string;
+  userAddress?: string;
+  status?: AttemptStatus;
+  limit: number;
+  offset: number;
+}): Promise<{ attempts: SettlementAttempt[]; total: number }> {
+  const client = await pool.connect();
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (options.protocolUid !== undefined) {
+      params.push(options.protocolUid);
+      conditions.push(`protocol_uid = $${params.length}`);
+    }
+
+    if (options.didVerifiedId) {
+      params.push(options.didVerifiedId);
+      conditions.push(`did_verified_id = $${params.length}`);
+    }
+
+    if (options.userAddress) {
+      params.push(options.userAddress);
+      conditions.push(`user_address = $${params.length}`);
+    }
+
+    if (options.status) {
+      params.push(options.status);
+      conditions.push(`status = $${params.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await client.query(`SELECT COUNT(*) as total FROM settlement_attempts ${where}`, params);
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    const result = await client.query(
+      `SELECT * FROM settlement_attempts ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset]
+    );
+
+    return {
+      attempts: result.rows,
+      total,
+    };
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,226 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { pool } from './database.service';
+import { getProtocolByUid } from './protocol.service';
+import { SettlementError } from '../utils/errors';
+
+// Signed requests older or newer than this are rejected; accepted signatures are remembered this long
+const REPLAY_WINDOW_SECONDS = parseInt(process.env.AUTH_REPLAY_WINDOW_SECONDS || '300', 10);
+
+// Default time a rotated-out key keeps working so protocols can deploy the new one
+const DEFAULT_ROTATION_GRACE_SECONDS = parseInt(process.env.AUTH_ROTATION_GRACE_SECONDS || '86400', 10);
+
+// Authentication error codes (returned as `code` in API responses)
+export const AUTH_ERRORS = {
+  missingCredentials: 'AUTH_REQUIRED',
+  invalidApiKey: 'INVALID_API_KEY',
+  apiKeyRevoked: 'API_KEY_REVOKED',
+  apiKeyExpired: 'API_KEY_EXPIRED',
+  invalidTimestamp: 'INVALID_TIMESTAMP',
+  invalidSignature: 'INVALID_SIGNATURE',
+  replayedRequest: 'REPLAYED_REQUEST',
+  protocolMismatch: 'PROTOCOL_MISMATCH',
+};
+
+// Protocol credential record (the secret is only returned when a key is issued)
+export interface ProtocolCredential {
+  key_id: string;
+  protocol_uid: number;
+  created_at: Date;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_used_at: Date | null;
+}
+
+// Newly issued credential - the secret is shown once and must be handed to the protocol
+export interface IssuedCredential {
+  credential: ProtocolCredential;
+  secret: string;
+}
+
+// Signed request parts, taken from the X-Api-Key / X-Timestamp / X-Signature headers
+export interface SignedRequest {
+  keyId: string;
+  timestamp: string;
+  signature: string;
+  method: string;
+  // Path including the query string (e.g. /api/settlement/settle?async=true)
+  path: string;
+  rawBody: Buffer;
+}
+
+const CREDENTIAL_COLUMNS = 'key_id, protocol_uid, created_at, expires_at, revoked_at, last_used_at';
+
+// Compute the request signature: hex HMAC-SHA256 over "<timestamp>.<METHOD>.<path>.<raw body>"
+export function computeSignature(secret: string, timestamp: string, method: string, path: string, rawBody: Buffer): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${method.toUpperCase()}.${path}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+// Issue a new API key for a registered protocol
+export async function issueCredential(protocolUid: number): Promise<IssuedCredential> {
+  const protocol = await getProtocolByUid(protocolUid);
+  if (!protocol) {
+    throw new Error(`Protocol ${protocolUid} is not registered`);
+  }
+
+  const keyId = `pk_${randomBytes(16).toString('hex')}`;
+  const secret = `sk_${randomBytes(32).toString('base64url')}`;
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO protocol_credentials (key_id, protocol_uid, secret)
+       VALUES ($1, $2, $3)
+       RETURNING ${CREDENTIAL_COLUMNS}`,
+      [keyId, protocolUid, secret]
+    );
+    return { credential: result.rows[0], secret };
+  } finally {
+    client.release();
+  }
+}
+
+// Rotate a key: issue a replacement for the same protocol and expire the old key after a grace period
+export async function rotateCredential(keyId: string, graceSeconds = DEFAULT_ROTATION_GRACE_SECONDS): Promise<IssuedCredential> {
+  const existing = await getCredential(keyId);
+  if (!existing || existing.revoked_at) {
+    throw new Error(`API key ${keyId} not found or already revoked`);
+  }
+
+  const issued = await issueCredential(existing.protocol_uid);
+
+  const client = await pool.connect();
+  try {
+    // Never extend a key that already expires sooner
+    await client.query(
+      `UPDATE protocol_credentials
+       SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), CURRENT_TIMESTAMP + make_interval(secs => $2))
+       WHERE key_id = $1`,
+      [keyId, graceSeconds]
+    );
+  } finally {
+    client.release();
+  }
+
+  return issued;
+}
+
+// Revoke a key immediately
+export async function revokeCredential(keyId: string): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE protocol_credentials SET revoked_at = CURRENT_TIMESTAMP
+       WHERE key_id = $1 AND revoked_at IS NULL`,
+      [keyId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// Get a credential by key id (without its secret)
+export async function getCredential(keyId: string): Promise<ProtocolCredential | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${CREDENTIAL_COLUMNS} FROM protocol_credentials WHERE key_id = $1`,
+      [keyId]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// List credentials, optionally for one protocol (without secrets)
+export async function listCredentials(protocolUid?: number): Promise<ProtocolCredential[]> {
+  const client = await pool.connect();
+  try {
+    const result = protocolUid !== undefined
+      ? await client.query(
+          `SELECT ${CREDENTIAL_COLUMNS} FROM protocol_credentials WHERE protocol_uid = $1 ORDER BY created_at ASC`,
+          [protocolUid]
+        )
+      : await client.query(
+          `SELECT ${CREDENTIAL_COLUMNS} FROM protocol_credentials ORDER BY protocol_uid ASC, created_at ASC`
+        );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// Authenticate a signed request and return the credential it was signed with
+// Throws SettlementError (401) for unknown, revoked or expired keys, stale timestamps,
+// bad signatures and replays
+export async function authenticateRequest(request: SignedRequest): Promise<ProtocolCredential> {
+  // Timestamp must be unix seconds within the replay window
+  const timestamp = Number(request.timestamp);
+  if (!/^\d+$/.test(request.timestamp) || Math.abs(Date.now() / 1000 - timestamp) > REPLAY_WINDOW_SECONDS) {
+    throw new SettlementError(
+      401,
+      AUTH_ERRORS.invalidTimestamp,
+      `X-Timestamp must be unix seconds within ${REPLAY_WINDOW_SECONDS}s of server time`
+    );
+  }
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT *, (expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP) AS expired
+       FROM protocol_credentials WHERE key_id = $1`,
+      [request.keyId]
+    );
+    const row = result.rows[0];
+
+    if (!row) {
+      throw new SettlementError(401, AUTH_ERRORS.invalidApiKey, 'Invalid API key');
+    }
+
+    if (row.revoked_at) {
+      throw new SettlementError(401, AUTH_ERRORS.apiKeyRevoked, 'API key has been revoked');
+    }
+
+    if (row.expired) {
+      throw new SettlementError(401, AUTH_ERRORS.apiKeyExpired, 'API key has expired');
+    }
+
+    const expected = computeSignature(row.secret, request.timestamp, request.method, request.path, request.rawBody);
+    const provided = Buffer.from(request.signature.toLowerCase(), 'utf8');
+    if (provided.length !== expected.length || !timingSafeEqual(provided, Buffer.from(expected, 'utf8'))) {
+      throw new SettlementError(401, AUTH_ERRORS.invalidSignature, 'Invalid request signature');
+    }
+
+    // Each signature is accepted once; rows outlive the replay window and are pruned afterwards
+    await client.query('DELETE FROM request_signatures WHERE expires_at < CURRENT_TIMESTAMP');
+    const stored = await client.query(
+      `INSERT INTO request_signatures (signature, key_id, expires_at)
+       VALUES ($1, $2, CURRENT_TIMESTAMP + make_interval(secs => $3))
+       ON CONFLICT (signature) DO NOTHING`,
+      [expected, row.key_id, REPLAY_WINDOW_SECONDS * 2]
+    );
+    if (stored.rowCount === 0) {
+      throw new SettlementError(401, AUTH_ERRORS.replayedRequest, 'Request signature has already been used');
+    }
+
+    await client.query(
+      'UPDATE protocol_credentials SET last_used_at = CURRENT_TIMESTAMP WHERE key_id = $1',
+      [row.key_id]
+    );
+
+    return {
+      key_id: row.key_id,
+      protocol_uid: row.protocol_uid,
+      created_at: row.created_at,
+      expires_at: row.expires_at,
+      revoked_at: row.revoked_at,
+      last_used_at: row.last_used_at,
+    };
+  } finally {
+    client.release();
+  }
+}
@@ -1,4 +1,7 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
+import { SettlementError, SETTLEMENT_ERRORS } from '../utils/errors';
+import type { SettlementMode } from '../config/sui.config';
+import { logger } from '../utils/logger';
 
 const DATABASE_URL = process.env.DATABASE_URL;
 
@@ -6,6 +9,10 @@ if (!DATABASE_URL) {
   throw new Error('DATABASE_URL environment variable is required');
 }
 
+// A pending reservation with no payment digest and no queued or running job is abandoned after this long
+// (e.g. the process died between reserving and signing) and may be claimed again
+const RESERVATION_TIMEOUT_MS = parseInt(process.env.SETTLEMENT_RESERVATION_TIMEOUT_MS || '600000', 10);
+
 // Create PostgreSQL connection pool
 const pool = new Pool({
   connectionString: DATABASE_URL,
@@ -15,87 +22,69 @@ const pool = new Pool({
 // Settlement record interface - stores all verification & payment data
 export interface SettlementRecord {
   id?: number;
-  // Enclave verification
-  enclave_tx_digest: string;
+  // Enclave verification (null on rows backfilled from an on-chain event)
+  enclave_tx_digest: string | null;
   // DID NFT
   did_verified_id: string;
   did_nft_name?: string;
+  did_nft_type?: string;
+  did_nft_metadata?: Record<string, string>;
   // Protocol info
   protocol_uid: number;
   protocol_name?: string;
   protocol_address?: string;
   // User info
   user_address: string;
-  // Payment settlement
-  payment_tx_digest: string;
+  // Payment settlement (absent while the reservation is pending)
+  payment_tx_digest?: string;
   settlement_amount?: number;
+  // Vault payout or mark-settled only (amount is 0 when no funds move)
+  settlement_mode?: SettlementMode;
+  // Client-supplied Idempotency-Key header (retries replay the original result)
+  idempotency_key?: string;
+  // X-Request-Id of the request that reserved the settlement
+  request_id?: string;
   // Metadata
   timestamp?: number;
+  // Unix ms when the settlement succeeded (null for rows inserted from an on-chain event)
+  completed_at?: number | null;
   created_at?: Date;
-  status?: string;
+  status?: SettlementStatus;
 }
 
-// Initialize database - create tables if not exist
-export async function initDatabase(): Promise<void> {
-  const client = await pool.connect();
-  try {
-    // Drop old table with outdated schema and create new one
-    await client.query(`DROP TABLE IF EXISTS nft_settlements`);
-
-    await client.query(`
-      CREATE TABLE IF NOT EXISTS nft_settlements (
-        id SERIAL PRIMARY KEY,
-        enclave_tx_digest VARCHAR(64) NOT NULL,
-        did_verified_id VARCHAR(66) NOT NULL,
-        did_nft_name VARCHAR(255),
-        protocol_uid INTEGER NOT NULL,
-        protocol_name VARCHAR(255),
-        protocol_address VARCHAR(66),
-        user_address VARCHAR(66) NOT NULL,
-        payment_tx_digest VARCHAR(64) NOT NULL UNIQUE,
-        settlement_amount BIGINT,
-        timestamp BIGINT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        status VARCHAR(20) DEFAULT 'success'
-      )
-    `);
-
-    // Create index on did_verified_id for faster lookups
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_nft_settlements_did ON nft_settlements(did_verified_id)
-    `);
-
-    // Create index on user_address
-    await client.query(`
-      CREATE INDEX IF NOT EXISTS idx_nft_settlements_user ON nft_settlements(user_address)
-    `);
-
-    console.log('Database initialized: nft_settlements table ready');
-  } finally {
-    client.release();
-  }
-}
+// Settlement lifecycle: a `pending` reservation is claimed before signing,
+// then completed as `success` or released as `failed` (which may be re-claimed)
+export type SettlementStatus = 'pending' | 'success' | 'failed';
+
+// Result of trying to claim the reservation row for a DID NFT
+export type ReservationResult =
+  | { reserved: true; settlement: SettlementRecord }
+  | { reserved: false; settlement: SettlementRecord };
 
-// Store a settlement record
+// Store a settlement record (e.g. one backfilled from an on-chain event)
 export async function storeSettlement(settlement: SettlementRecord): Promise<SettlementRecord> {
   const client = await pool.connect();
   try {
     const result = await client.query(
       `INSERT INTO nft_settlements
-        (enclave_tx_digest, did_verified_id, did_nft_name, protocol_uid, protocol_name,
-         protocol_address, user_address, payment_tx_digest, settlement_amount, timestamp, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+        (enclave_tx_digest, did_verified_id, did_nft_name, did_nft_type, did_nft_metadata, protocol_uid,
+         protocol_name, protocol_address, user_address, payment_tx_digest, settlement_amount, settlement_mode,
+         timestamp, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
        RETURNING *`,
       [
         settlement.enclave_tx_digest,
         settlement.did_verified_id,
         settlement.did_nft_name || null,
+        settlement.did_nft_type || null,
+        settlement.did_nft_metadata ? JSON.stringify(settlement.did_nft_metadata) : null,
         settlement.protocol_uid,
         settlement.protocol_name || null,
         settlement.protocol_address || null,
         settlement.user_address,
-        settlement.payment_tx_digest,
-        settlement.settlement_amount || null,
+        settlement.payment_tx_digest || null,
+        settlement.settlement_amount ?? null,
+        settlement.settlement_mode || 'vault',
         settlement.timestamp || Date.now(),
         settlement.status || 'success',
       ]
@@ -106,13 +95,172 @@ export async function storeSettlement(settlement: SettlementRecord): Promise<Set
   }
 }
 
-// Get settlement by payment transaction digest
-export async function getSettlementByDigest(txDigest: string): Promise<SettlementRecord | null> {
+// A pending reservation without a payment digest that is older than RESERVATION_TIMEOUT_MS
+export function isReservationExpired(row: SettlementRecord): boolean {
+  return row.status === 'pending' && !row.payment_tx_digest && Number(row.timestamp) <= Date.now() - RESERVATION_TIMEOUT_MS;
+}
+
+// Whether a locked reservation row was abandoned: expired, and no queued or running job will complete it
+async function isStaleReservation(client: PoolClient, row: SettlementRecord): Promise<boolean> {
+  if (!isReservationExpired(row)) {
+    return false;
+  }
+  const activeJob = await client.query(
+    `SELECT 1 FROM settlement_jobs WHERE settlement_id = $1 AND status IN ('queued', 'running') LIMIT 1`,
+    [row.id]
+  );
+  return activeJob.rows.length === 0;
+}
+
+// Claim the settlement reservation for a DID NFT inside a transaction
+// Inserts a `pending` row, or re-claims a `failed` or abandoned `pending` one; any other existing row is returned unclaimed
+export async function reserveSettlement(settlement: SettlementRecord): Promise<ReservationResult> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT * FROM nft_settlements WHERE did_verified_id = $1 FOR UPDATE',
+      [settlement.did_verified_id]
+    );
+
+    let result;
+    if (existing.rows.length === 0) {
+      // Concurrent inserts for the same NFT block on the unique constraint; the loser gets no row back
+      result = await client.query(
+        `INSERT INTO nft_settlements
+          (enclave_tx_digest, did_verified_id, did_nft_name, did_nft_type, did_nft_metadata, protocol_uid,
+           protocol_name, protocol_address, user_address, settlement_amount, settlement_mode, idempotency_key,
+           timestamp, request_id, status)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, 'pending')
+         ON CONFLICT (did_verified_id) DO NOTHING
+         RETURNING *`,
+        [
+          settlement.enclave_tx_digest,
+          settlement.did_verified_id,
+          settlement.did_nft_name || null,
+          settlement.did_nft_type || null,
+          settlement.did_nft_metadata ? JSON.stringify(settlement.did_nft_metadata) : null,
+          settlement.protocol_uid,
+          settlement.protocol_name || null,
+          settlement.protocol_address || null,
+          settlement.user_address,
+          settlement.settlement_amount ?? null,
+          settlement.settlement_mode || 'vault',
+          settlement.idempotency_key || null,
+          settlement.timestamp || Date.now(),
+          settlement.request_id || null,
+        ]
+      );
+    } else if (existing.rows[0].status === 'failed' || (await isStaleReservation(client, existing.rows[0]))) {
+      if (existing.rows[0].status === 'pending') {
+        logger.warn('Re-claiming abandoned settlement reservation', {
+          settlementId: existing.rows[0].id,
+          didVerifiedId: settlement.did_verified_id,
+        });
+      }
+      result = await client.query(
+        `UPDATE nft_settlements
+         SET enclave_tx_digest = $2, did_nft_name = $3, did_nft_type = $4, did_nft_metadata = $5,
+             protocol_uid = $6, protocol_name = $7, protocol_address = $8, user_address = $9,
+             payment_tx_digest = NULL, settlement_amount = $10, settlement_mode = $11, idempotency_key = $12,
+             timestamp = $13, request_id = $14, status = 'pending', completed_at = NULL
+         WHERE id = $1
+         RETURNING *`,
+        [
+          existing.rows[0].id,
+          settlement.enclave_tx_digest,
+          settlement.did_nft_name || null,
+          settlement.did_nft_type || null,
+          settlement.did_nft_metadata ? JSON.stringify(settlement.did_nft_metadata) : null,
+          settlement.protocol_uid,
+          settlement.protocol_name || null,
+          settlement.protocol_address || null,
+          settlement.user_address,
+          settlement.settlement_amount ?? null,
+          settlement.settlement_mode || 'vault',
+          settlement.idempotency_key || null,
+          settlement.timestamp || Date.now(),
+          settlement.request_id || null,
+        ]
+      );
+    } else {
+      await client.query('COMMIT');
+      return { reserved: false, settlement: existing.rows[0] };
+    }
+
+    if (result.rows.length === 0) {
+      // Lost the insert race - return the row the winning request committed
+      const winner = await client.query(
+        'SELECT * FROM nft_settlements WHERE did_verified_id = $1',
+        [settlement.did_verified_id]
+      );
+      await client.query('COMMIT');
+      return { reserved: false, settlement: winner.rows[0] };
+    }
+
+    await client.query('COMMIT');
+    return { reserved: true, settlement: result.rows[0] };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    // Unique violation on enclave_tx_digest or idempotency_key
+    if ((error as { code?: string }).code === '23505') {
+      throw new SettlementError(
+        409,
+        SETTLEMENT_ERRORS.reservationConflict,
+        'enclaveTxDigest or Idempotency-Key is already bound to another settlement'
+      );
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Complete a pending reservation with the on-chain payment result
+// completedAt (Unix ms) defaults to now
+export async function completeSettlement(
+  id: number,
+  paymentTxDigest: string,
+  completedAt: number = Date.now()
+): Promise<SettlementRecord> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      'SELECT * FROM nft_settlements WHERE payment_tx_digest = $1',
-      [txDigest]
+      `UPDATE nft_settlements
+       SET payment_tx_digest = $2, status = 'success', completed_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [id, paymentTxDigest, completedAt]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+// Release a pending reservation so the settlement can be retried
+export async function failSettlement(id: number, paymentTxDigest?: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE nft_settlements
+       SET payment_tx_digest = $2, status = 'failed'
+       WHERE id = $1 AND status = 'pending'`,
+      [id, paymentTxDigest || null]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Get settlement by the Idempotency-Key it was created with
+export async function getSettlementByIdempotencyKey(idempotencyKey: string): Promise<SettlementRecord | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM nft_settlements WHERE idempotency_key = $1',
+      [idempotencyKey]
     );
     return result.rows[0] || null;
   } finally {
@@ -120,6 +268,20 @@ export async function getSettlementByDigest(txDigest: string): Promise<Settlemen
   }
 }
 
+// Get the settlements paid by a transaction (several when they were settled in one batch)
+export async function getSettlementsByDigest(txDigest: string): Promise<SettlementRecord[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM nft_settlements WHERE payment_tx_digest = $1 ORDER BY id ASC',
+      [txDigest]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
 // Check if DID NFT has been settled
 export async function isNftSettled(didVerifiedId: string): Promise<boolean> {
   const client = await pool.connect();
@@ -134,29 +296,32 @@ export async function isNftSettled(didVerifiedId: string): Promise<boolean> {
   }
 }
 
-// Get settlement by DID NFT ID
-export async function getSettlementByNftId(didVerifiedId: string): Promise<SettlementRecord | null> {
+// Check if an enclave verification tx has already funded a settlement (digests are single-use)
+// Digests on released (`failed`) or expired reservations may be reused when retrying the same NFT
+export async function isEnclaveTxUsed(enclaveTxDigest: string): Promise<boolean> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      'SELECT * FROM nft_settlements WHERE did_verified_id = $1 ORDER BY created_at DESC LIMIT 1',
-      [didVerifiedId]
+      `SELECT id FROM nft_settlements
+       WHERE enclave_tx_digest = $1 AND status <> 'failed'
+         AND NOT (status = 'pending' AND payment_tx_digest IS NULL AND timestamp <= $2)`,
+      [enclaveTxDigest, Date.now() - RESERVATION_TIMEOUT_MS]
     );
-    return result.rows[0] || null;
+    return result.rows.length > 0;
   } finally {
     client.release();
   }
 }
 
-// Get all settlements for a user
-export async function getSettlementsByUser(userAddress: string): Promise<SettlementRecord[]> {
+// Get settlement by DID NFT ID
+export async function getSettlementByNftId(didVerifiedId: string): Promise<SettlementRecord | null> {
   const client = await pool.connect();
   try {
     const result = await client.query(
-      'SELECT * FROM nft_settlements WHERE user_address = $1 ORDER BY created_at DESC',
-      [userAddress]
+      'SELECT * FROM nft_settlements WHERE did_verified_id = $1 ORDER BY created_at DESC LIMIT 1',
+      [didVerifiedId]
     );
-    return result.rows;
+    return result.rows[0] || null;
   } finally {
     client.release();
   }
@@ -176,53 +341,190 @@ export async function getSettlementById(id: number): Promise<SettlementRecord |
   }
 }
 
-// Get all settlements with optional pagination
-// If no limit/offset provided, returns all records
-export async function getAllSettlements(options?: {
-  limit?: number;
+// Sortable settlement listing columns (nullable columns sort as 0)
+export type SettlementSortField = 'id' | 'timestamp' | 'amount';
+export type SortOrder = 'asc' | 'desc';
+
+const SORT_EXPRESSIONS: Record<SettlementSortField, string> = {
+  id: 'id',
+  timestamp: 'COALESCE(timestamp, 0)',
+  amount: 'COALESCE(settlement_amount, 0)',
+};
+
+// Settlement listing filters (all optional, combined with AND)
+export interface SettlementFilters {
+  userAddress?: string;
+  protocolUid?: number;
+  status?: SettlementStatus;
+  didVerifiedId?: string;
+  // Inclusive range on `timestamp` (Unix ms)
+  from?: number;
+  to?: number;
+  // Inclusive range on settlement_amount (MIST, decimal strings)
+  minAmount?: string;
+  maxAmount?: string;
+}
+
+// Keyset position after the last row of a page: its sort key and id (ties are broken by id)
+// Rows inserted while paging can't shift later pages, unlike an offset
+export interface SettlementCursor {
+  sort: SettlementSortField;
+  order: SortOrder;
+  value: string;
+  id: number;
+}
+
+// Build the WHERE conditions for settlement listing filters
+function settlementFilterConditions(filters: SettlementFilters): { conditions: string[]; params: (string | number)[] } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.userAddress) {
+    params.push(filters.userAddress);
+    conditions.push(`user_address = $${params.length}`);
+  }
+
+  if (filters.protocolUid !== undefined) {
+    params.push(filters.protocolUid);
+    conditions.push(`protocol_uid = $${params.length}`);
+  }
+
+  if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`status = $${params.length}`);
+  }
+
+  if (filters.didVerifiedId) {
+    params.push(filters.didVerifiedId);
+    conditions.push(`LOWER(did_verified_id) = LOWER($${params.length})`);
+  }
+
+  if (filters.from !== undefined) {
+    params.push(filters.from);
+    conditions.push(`timestamp >= $${params.length}`);
+  }
+
+  if (filters.to !== undefined) {
+    params.push(filters.to);
+    conditions.push(`timestamp <= $${params.length}`);
+  }
+
+  if (filters.minAmount !== undefined) {
+    params.push(filters.minAmount);
+    conditions.push(`COALESCE(settlement_amount, 0) >= $${params.length}`);
+  }
+
+  if (filters.maxAmount !== undefined) {
+    params.push(filters.maxAmount);
+    conditions.push(`COALESCE(settlement_amount, 0) <= $${params.length}`);
+  }
+
+  return { conditions, params };
+}
+
+// Fetch one page of settlements in sort order, after a keyset position or from an offset
+async function fetchSettlementPage(options: {
+  filters: SettlementFilters;
+  sort: SettlementSortField;
+  order: SortOrder;
+  limit: number;
+  after?: SettlementCursor;
   offset?: number;
-}): Promise<{ settlements: SettlementRecord[]; total: number }> {
-  const client = await pool.connect();
-  try {
-    // Get total count
-    const countResult = await client.query('SELECT COUNT(*) as total FROM nft_settlements');
-    const total = parseInt(countResult.rows[0].total, 10);
+}): Promise<{ settlements: SettlementRecord[]; next: SettlementCursor | null }> {
+  const { sort, order, limit } = options;
+  const { conditions, params } = settlementFilterConditions(options.filters);
+  const sortExpression = SORT_EXPRESSIONS[sort];
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
 
-    // Build query with optional pagination
-    let query = 'SELECT * FROM nft_settlements ORDER BY id ASC';
-    const params: number[] = [];
+  if (options.after) {
+    params.push(options.after.value, options.after.id);
+    conditions.push(
+      `(${sortExpression}, id) ${order === 'asc' ? '>' : '<'} ($${params.length - 1}::bigint, $${params.length})`
+    );
+  }
 
-    if (options?.limit !== undefined) {
-      query += ` LIMIT $${params.length + 1}`;
-      params.push(options.limit);
-    }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-    if (options?.offset !== undefined) {
-      query += ` OFFSET $${params.length + 1}`;
-      params.push(options.offset);
-    }
+  // One extra row tells whether another page follows
+  params.push(limit + 1);
+  let query = `SELECT *, ${sortExpression} AS sort_value FROM nft_settlements ${where}
+     ORDER BY ${sortExpression} ${direction}, id ${direction}
+     LIMIT $${params.length}`;
+
+  if (!options.after && options.offset) {
+    params.push(options.offset);
+    query += ` OFFSET $${params.length}`;
+  }
 
+  const client = await pool.connect();
+  try {
     const result = await client.query(query, params);
+    const rows = result.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
 
     return {
-      settlements: result.rows,
-      total,
+      settlements: rows.map(({ sort_value: _sortValue, ...settlement }) => settlement),
+      next: result.rows.length > limit ? { sort, order, value: String(last.sort_value), id: last.id } : null,
     };
   } finally {
     client.release();
   }
 }
 
+// List settlements matching the filters, one page at a time
+// Pages continue from `after` (keyset) when given, otherwise from `offset`
+export async function listSettlements(options: {
+  filters: SettlementFilters;
+  sort: SettlementSortField;
+  order: SortOrder;
+  limit: number;
+  after?: SettlementCursor;
+  offset?: number;
+}): Promise<{ settlements: SettlementRecord[]; total: number; next: SettlementCursor | null }> {
+  const { conditions, params } = settlementFilterConditions(options.filters);
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const client = await pool.connect();
+  let total: number;
+  try {
+    const countResult = await client.query(`SELECT COUNT(*) as total FROM nft_settlements ${where}`, params);
+    total = parseInt(countResult.rows[0].total, 10);
+  } finally {
+    client.release();
+  }
+
+  const page = await fetchSettlementPage(options);
+  return { ...page, total };
+}
+
+// Iterate over every settlement matching the filters, in sort order
+// Rows are read in keyset batches and no connection is held between batches,
+// so exports of any size use constant memory and don't pin the pool while the consumer is slow
+export async function* iterateSettlements(options: {
+  filters: SettlementFilters;
+  sort: SettlementSortField;
+  order: SortOrder;
+  batchSize: number;
+}): AsyncGenerator<SettlementRecord> {
+  let after: SettlementCursor | undefined;
+
+  do {
+    const page = await fetchSettlementPage({ ...options, limit: options.batchSize, after });
+    yield* page.settlements;
+    after = page.next ?? undefined;
+  } while (after);
+}
+
 // Test database connection
 export async function testConnection(): Promise<boolean> {
   try {
     const client = await pool.connect();
     await client.query('SELECT 1');
     client.release();
-    console.log('Database connection successful');
+    logger.info('Database connection successful');
     return true;
   } catch (error) {
-    console.error('Database connection failed:', error);
+    logger.error('Database connection failed', { error });
     return false;
   }
 }
@@ -230,7 +532,7 @@ export async function testConnection(): Promise<boolean> {
 // Close pool on shutdown
 export async function closePool(): Promise<void> {
   await pool.end();
-  console.log('Database pool closed');
+  logger.info('Database pool closed');
 }
 
 export { pool };
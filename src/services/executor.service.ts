@@ -0,0 +1,104 @@
+import { ParallelTransactionExecutor, Transaction } from '@mysten/sui/transactions';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { suiClient } from '../config/sui.config';
+import { adminSigner, adminAddress } from '../config/signer.config';
+import { executorTransactions, transactionDuration } from './metrics.service';
+import { registerCollector } from '../utils/metrics';
+import { TransactionSubmissionError } from '../utils/errors';
+
+// Gas pool configuration (amounts in MIST)
+// Each coin must cover the largest transaction budget, e.g. a full batch chunk
+const GAS_POOL_SIZE = parseInt(process.env.EXECUTOR_GAS_POOL_SIZE || '10', 10);
+const GAS_COIN_BALANCE = BigInt(process.env.EXECUTOR_GAS_COIN_BALANCE || '200000000');
+const MIN_GAS_COIN_BALANCE = BigInt(process.env.EXECUTOR_MIN_GAS_COIN_BALANCE || '50000000');
+
+// Executor queue and counters, reported by the health check
+export interface ExecutorStats {
+  // Transactions dry-run and waiting for the PaymentCap
+  queueDepth: number;
+  // Transactions being signed and executed
+  inFlight: number;
+  executed: number;
+  failed: number;
+  gasPoolSize: number;
+}
+
+// Created on first use so startup does not touch the admin's coins
+let executor: ParallelTransactionExecutor | null = null;
+
+// Transactions using the owned PaymentCap run one at a time, in submission order
+let capQueue: Promise<unknown> = Promise.resolve();
+
+const stats = { queueDepth: 0, inFlight: 0, executed: 0, failed: 0 };
+
+registerCollector(() => {
+  executorTransactions.set({ state: 'queued' }, stats.queueDepth);
+  executorTransactions.set({ state: 'in_flight' }, stats.inFlight);
+});
+
+// Get the shared executor: it splits the admin's SUI into a pool of gas coins and caches
+// owned object versions, updating them from each transaction's effects
+function getExecutor(): ParallelTransactionExecutor {
+  if (!executor) {
+    executor = new ParallelTransactionExecutor({
+      client: suiClient,
+      signer: adminSigner,
+      maxPoolSize: GAS_POOL_SIZE,
+      coinBatchSize: GAS_POOL_SIZE,
+      initialCoinBalance: GAS_COIN_BALANCE,
+      minimumCoinBalance: MIN_GAS_COIN_BALANCE,
+    });
+  }
+  return executor;
+}
+
+// Execute a transaction that uses the PaymentCap
+// `build` is called twice: once for a dry run (gas estimate; Move aborts are thrown here, before
+// anything is submitted, exactly as the SDK reports them) and once for the transaction actually
+// executed. The dry run happens outside the queue so the next settlement is prepared while the
+// current one executes; execution itself is serialized so concurrent settlements never race on
+// the cap's object version
+// Dry-run errors are thrown as is (nothing was submitted); errors once execution has started are
+// wrapped in a TransactionSubmissionError, since the transaction may still land
+export async function executeCapTransaction(build: () => Transaction): Promise<SuiTransactionBlockResponse> {
+  const dryRunTx = build();
+  dryRunTx.setSender(adminAddress);
+  await dryRunTx.build({ client: suiClient });
+  const gasBudget = dryRunTx.getData().gasData.budget;
+
+  stats.queueDepth++;
+  const run = capQueue.then(async () => {
+    stats.queueDepth--;
+    stats.inFlight++;
+    const stopTimer = transactionDuration.startTimer();
+    try {
+      const tx = build();
+      tx.setSender(adminAddress);
+      if (gasBudget) {
+        tx.setGasBudget(BigInt(gasBudget));
+      }
+
+      const { data } = await getExecutor().executeTransaction(tx, {
+        showEffects: true,
+        showEvents: true,
+      });
+      stats.executed++;
+      stopTimer({ outcome: data.effects?.status?.status === 'success' ? 'success' : 'failure' });
+      return data;
+    } catch (error) {
+      stats.failed++;
+      stopTimer({ outcome: 'error' });
+      throw new TransactionSubmissionError(error);
+    } finally {
+      stats.inFlight--;
+    }
+  });
+
+  capQueue = run.catch(() => undefined);
+  return run;
+}
+
+// Current executor queue depth and counters
+export function getExecutorStats(): ExecutorStats {
+  return { ...stats, gasPoolSize: GAS_POOL_SIZE };
+}
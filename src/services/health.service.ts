@@ -0,0 +1,186 @@
+import { pool } from './database.service';
+import { getAllProtocols, ProtocolRecord } from './protocol.service';
+import { suiClient, CONTRACT_CONFIG, SUI_NETWORK } from '../config/sui.config';
+import { adminAddress } from '../config/signer.config';
+
+// Each readiness check is abandoned after this long and reported as failed
+const CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '5000', 10);
+// Admin SUI balance (gas pool included) below which the service is not ready, in MIST
+const MIN_ADMIN_GAS_BALANCE = BigInt(process.env.HEALTH_MIN_GAS_BALANCE || '100000000');
+
+// Chain identifiers of the public networks (devnet and localnet change on every reset)
+const CHAIN_IDS: Record<string, string> = {
+  mainnet: '35834a8a',
+  testnet: '4c78adac',
+};
+
+// Result of one readiness check
+export interface HealthCheckResult {
+  name: string;
+  status: 'pass' | 'fail';
+  durationMs: number;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: HealthCheckResult[];
+}
+
+// A check resolves with optional details, or throws to fail
+type HealthCheck = () => Promise<Record<string, unknown> | void>;
+
+let shuttingDown = false;
+
+// Report not-ready from now on so load balancers stop routing here before the pool closes
+export function markShuttingDown(): void {
+  shuttingDown = true;
+}
+
+// Reject when `promise` has not settled within the per-check timeout (the promise itself keeps running)
+export async function withCheckTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Run one check with a timeout
+async function runCheck(name: string, check: HealthCheck): Promise<HealthCheckResult> {
+  const startedAt = process.hrtime.bigint();
+  const durationMs = () => Math.round(Number(process.hrtime.bigint() - startedAt) / 1e5) / 10;
+
+  try {
+    const details = await withCheckTimeout(check());
+    return { name, status: 'pass', durationMs: durationMs(), ...(details && { details }) };
+  } catch (error) {
+    return {
+      name,
+      status: 'fail',
+      durationMs: durationMs(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Postgres answers a query through the pool
+async function checkDatabase(): Promise<Record<string, unknown>> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT 1');
+  } finally {
+    client.release();
+  }
+  return { totalConnections: pool.totalCount, idleConnections: pool.idleCount, waiting: pool.waitingCount };
+}
+
+// The RPC node answers and serves the configured network
+async function checkSuiRpc(): Promise<Record<string, unknown>> {
+  const chainId = await suiClient.getChainIdentifier();
+  const expected = CHAIN_IDS[SUI_NETWORK];
+  if (expected && chainId !== expected) {
+    throw new Error(`RPC serves chain ${chainId}, expected ${SUI_NETWORK} (${expected})`);
+  }
+  return { network: SUI_NETWORK, chainId };
+}
+
+// The admin account still owns the PaymentCap every settlement is signed with
+async function checkPaymentCap(): Promise<Record<string, unknown>> {
+  const objectId = CONTRACT_CONFIG.paymentCap.objectId;
+  const response = await suiClient.getObject({ id: objectId, options: { showOwner: true } });
+  const owner = response.data?.owner;
+  if (!owner) {
+    throw new Error(`PaymentCap ${objectId} not found on-chain`);
+  }
+
+  const ownerAddress = typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null;
+  if (ownerAddress !== adminAddress) {
+    throw new Error(`PaymentCap ${objectId} is not owned by admin ${adminAddress}`);
+  }
+  return { objectId, owner: ownerAddress };
+}
+
+// The admin account can pay for gas
+async function checkAdminGas(): Promise<Record<string, unknown>> {
+  const balance = BigInt((await suiClient.getBalance({ owner: adminAddress })).totalBalance);
+  if (balance < MIN_ADMIN_GAS_BALANCE) {
+    throw new Error(`Admin gas balance ${balance} MIST is below ${MIN_ADMIN_GAS_BALANCE} MIST`);
+  }
+  return { address: adminAddress, balance: balance.toString(), minimum: MIN_ADMIN_GAS_BALANCE.toString() };
+}
+
+// A shared object exists and became shared at the version transactions reference it by
+async function checkSharedObject(
+  label: string,
+  objectId: string,
+  initialSharedVersion: string
+): Promise<Record<string, unknown>> {
+  const response = await suiClient.getObject({ id: objectId, options: { showOwner: true } });
+  const owner = response.data?.owner;
+  if (!owner) {
+    throw new Error(`${label} ${objectId} not found on-chain`);
+  }
+
+  const sharedVersion = typeof owner === 'object' && 'Shared' in owner ? owner.Shared.initial_shared_version : null;
+  if (sharedVersion === null) {
+    throw new Error(`${label} ${objectId} is not a shared object`);
+  }
+  if (String(sharedVersion) !== String(initialSharedVersion)) {
+    throw new Error(`${label} ${objectId} is shared at version ${sharedVersion}, configured ${initialSharedVersion}`);
+  }
+  return { objectId, initialSharedVersion: String(sharedVersion) };
+}
+
+// One check per active protocol vault (registry read from the database)
+// If the registry can't be read, that failure is reported instead
+async function checkVaults(): Promise<HealthCheckResult[]> {
+  let protocols: ProtocolRecord[] = [];
+  const lookup = await runCheck('protocolRegistry', async () => {
+    protocols = await getAllProtocols();
+  });
+  if (lookup.status === 'fail') {
+    return [lookup];
+  }
+
+  return Promise.all(protocols.map((protocol) => runCheck(
+    `vault:${protocol.protocol_uid}`,
+    () => checkSharedObject('ProtocolVault', protocol.vault_object_id, protocol.vault_initial_shared_version)
+  )));
+}
+
+// Run every readiness check concurrently; ready only when all pass
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const checks: [string, HealthCheck][] = [
+    ['database', checkDatabase],
+    ['suiRpc', checkSuiRpc],
+    ['paymentCap', checkPaymentCap],
+    ['adminGas', checkAdminGas],
+    ['paymentRegistry', () => checkSharedObject(
+      'PaymentRegistry',
+      CONTRACT_CONFIG.paymentRegistry.objectId,
+      CONTRACT_CONFIG.paymentRegistry.initialSharedVersion
+    )],
+  ];
+
+  const [results, vaultResults] = await Promise.all([
+    Promise.all(checks.map(([name, check]) => runCheck(name, check))),
+    checkVaults(),
+  ]);
+  results.push(...vaultResults);
+  if (shuttingDown) {
+    results.unshift({ name: 'shutdown', status: 'fail', durationMs: 0, error: 'Server is shutting down' });
+  }
+
+  return {
+    ready: results.every((result) => result.status === 'pass'),
+    checks: results,
+  };
+}
@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import { pool } from './database.service';
+
+// Settlement job lifecycle: queued -> running -> succeeded | failed
+// A retryable failure puts the job back to `queued` with a later run_at
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Settlement job record - one durable job per asynchronously processed settlement
+export interface SettlementJob {
+  id: string;
+  // Reserved (`pending`) nft_settlements row the job settles
+  settlement_id: number;
+  did_verified_id: string;
+  protocol_uid: number;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  last_error?: string | null;
+  payment_tx_digest?: string | null;
+  run_at: Date;
+  locked_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Running jobs whose lock is older than this are assumed abandoned (e.g. process crash)
+const JOB_LOCK_TIMEOUT_SECONDS = parseInt(process.env.SETTLEMENT_JOB_LOCK_TIMEOUT_SECONDS || '300', 10);
+
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.SETTLEMENT_JOB_MAX_ATTEMPTS || '5', 10);
+
+// Enqueue a settlement job for a reserved settlement row
+export async function enqueueSettlementJob(params: {
+  settlementId: number;
+  didVerifiedId: string;
+  protocolUid: number;
+}): Promise<SettlementJob> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO settlement_jobs (id, settlement_id, did_verified_id, protocol_uid, max_attempts)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [randomUUID(), params.settlementId, params.didVerifiedId, params.protocolUid, DEFAULT_MAX_ATTEMPTS]
+    );
+    return result.rows[0];
+  } finally {
+    client.release();
+  }
+}
+
+// Claim the next due job (queued and past run_at, or running with an expired lock)
+// SKIP LOCKED lets several workers poll the same table without blocking each other
+export async function claimNextJob(): Promise<SettlementJob | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'running', attempts = attempts + 1, locked_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM settlement_jobs
+         WHERE (status = 'queued' AND run_at <= CURRENT_TIMESTAMP)
+            OR (status = 'running' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $1))
+         ORDER BY run_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [JOB_LOCK_TIMEOUT_SECONDS]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Mark a job as succeeded with the payment digest
+export async function markJobSucceeded(id: string, paymentTxDigest: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'succeeded', payment_tx_digest = $2, last_error = NULL, locked_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, paymentTxDigest]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Put a job back in the queue after a retryable failure
+export async function markJobRetry(id: string, error: string, delayMs: number): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'queued', last_error = $2, locked_at = NULL,
+           run_at = CURRENT_TIMESTAMP + make_interval(secs => $3), updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, error, delayMs / 1000]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Mark a job as permanently failed
+export async function markJobFailed(id: string, error: string, paymentTxDigest?: string): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'failed', last_error = $2, payment_tx_digest = $3, locked_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, error, paymentTxDigest || null]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Get job by ID
+export async function getJobById(id: string): Promise<SettlementJob | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM settlement_jobs WHERE id = $1',
+      [id]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Get the most recent job for a settlement row
+export async function getJobBySettlementId(settlementId: number): Promise<SettlementJob | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM settlement_jobs WHERE settlement_id = $1 ORDER BY created_at DESC LIMIT 1',
+      [settlementId]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
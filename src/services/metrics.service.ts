@@ -0,0 +1,117 @@
+import type { PoolClient } from 'pg';
+import { pool } from './database.service';
+import { withCheckTimeout } from './health.service';
+import { suiClient } from '../config/sui.config';
+import { adminAddress } from '../config/signer.config';
+import { createCounter, createGauge, createHistogram, registerCollector } from '../utils/metrics';
+
+// The admin balance is read from chain at most this often; scrapes in between reuse the last value
+const ADMIN_GAS_REFRESH_MS = parseInt(process.env.METRICS_GAS_BALANCE_REFRESH_MS || '30000', 10);
+
+// Settlement attempts by protocol and outcome (success, failed, rejected)
+export const settlementsTotal = createCounter({
+  name: 'suiverify_settlements_total',
+  help: 'Settlement attempts by protocol and outcome',
+  labelNames: ['protocol_uid', 'outcome'],
+});
+
+// Latency of signing and executing a PaymentCap transaction (queue wait excluded)
+export const transactionDuration = createHistogram({
+  name: 'suiverify_transaction_duration_seconds',
+  help: 'Time to sign and execute a settlement transaction',
+  labelNames: ['outcome'],
+});
+
+// Transactions waiting for the PaymentCap / being executed
+export const executorTransactions = createGauge({
+  name: 'suiverify_executor_transactions',
+  help: 'Settlement transactions in the executor by state',
+  labelNames: ['state'],
+});
+
+export const dbQueryDuration = createHistogram({
+  name: 'suiverify_db_query_duration_seconds',
+  help: 'PostgreSQL query latency by statement type',
+  labelNames: ['operation'],
+});
+
+const dbPoolConnections = createGauge({
+  name: 'suiverify_db_pool_connections',
+  help: 'PostgreSQL pool connections by state',
+  labelNames: ['state'],
+});
+
+// Last balance read from chain (vault monitor and /vault reads)
+export const vaultBalance = createGauge({
+  name: 'suiverify_vault_balance_mist',
+  help: 'Live ProtocolVault balance in MIST',
+  labelNames: ['protocol_uid'],
+});
+
+const adminGasBalance = createGauge({
+  name: 'suiverify_admin_gas_balance_mist',
+  help: 'SUI balance of the admin account (gas pool included) in MIST',
+});
+
+export const httpRequestsTotal = createCounter({
+  name: 'suiverify_http_requests_total',
+  help: 'HTTP requests by method, route and status code',
+  labelNames: ['method', 'route', 'status'],
+});
+
+export const httpRequestDuration = createHistogram({
+  name: 'suiverify_http_request_duration_seconds',
+  help: 'HTTP request latency by method, route and status code',
+  labelNames: ['method', 'route', 'status'],
+});
+
+// Statement type of a query for the DB latency label (bounded set)
+const SQL_OPERATIONS = ['select', 'insert', 'update', 'delete', 'begin', 'commit', 'rollback'];
+
+function sqlOperation(text: string | undefined): string {
+  const operation = (text || '').trim().split(/\s/, 1)[0].toLowerCase();
+  return SQL_OPERATIONS.includes(operation) ? operation : 'other';
+}
+
+// Time every promise-returning query on a pooled client
+// Clients are reused by the pool, so each connection is wrapped once when it is opened
+function instrumentClient(client: PoolClient): void {
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+
+  client.query = ((...args: unknown[]) => {
+    const text = typeof args[0] === 'string' ? args[0] : (args[0] as { text?: string } | undefined)?.text;
+    const stopTimer = dbQueryDuration.startTimer({ operation: sqlOperation(text) });
+    const result = query(...args);
+    if (result instanceof Promise) {
+      return result.finally(() => stopTimer());
+    }
+    return result;
+  }) as typeof client.query;
+}
+
+pool.on('connect', instrumentClient);
+
+registerCollector(() => {
+  dbPoolConnections.set({ state: 'total' }, pool.totalCount);
+  dbPoolConnections.set({ state: 'idle' }, pool.idleCount);
+  dbPoolConnections.set({ state: 'waiting' }, pool.waitingCount);
+});
+
+let adminGasRead: Promise<void> | undefined;
+let adminGasReadAt = 0;
+
+// A slow or failing RPC node never holds a scrape past the health check timeout:
+// the gauge keeps its last value, and concurrent scrapes share one read
+registerCollector(async () => {
+  if (!adminGasRead && Date.now() - adminGasReadAt >= ADMIN_GAS_REFRESH_MS) {
+    adminGasReadAt = Date.now();
+    adminGasRead = withCheckTimeout(suiClient.getBalance({ owner: adminAddress }))
+      .then((balance) => {
+        adminGasBalance.set({}, Number(balance.totalBalance));
+      })
+      .finally(() => {
+        adminGasRead = undefined;
+      });
+  }
+  await adminGasRead;
+});
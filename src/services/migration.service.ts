@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { pool } from './database.service';
+import { logger } from '../utils/logger';
+
+// Migration files live in <project root>/migrations as NNN_description.sql
+// (resolved relative to this file so it works from both src/ and dist/)
+const MIGRATIONS_DIR = path.join(__dirname, '../../migrations');
+
+// Arbitrary key for pg_advisory_lock so concurrent instances never migrate at the same time
+const MIGRATION_LOCK_KEY = 727001;
+
+// Statements that may destroy data or weaken integrity guarantees - never applied implicitly
+const DESTRUCTIVE_PATTERNS = [
+  /\bDROP\s+(TABLE|COLUMN|SCHEMA|DATABASE)\b/i,
+  /\bTRUNCATE\b/i,
+  /\bDELETE\s+FROM\b/i,
+  /\bALTER\s+TABLE\b[^;]*\bDROP\b/i,
+];
+
+// Destructive migrations reviewed as safe to apply implicitly, pinned to the checksum of the reviewed
+// file so any later edit needs a new review. Add an entry only after reviewing the migration
+const REVIEWED_MIGRATIONS: Record<number, { checksum: string; reason: string }> = {
+  13: {
+    checksum: '038ae21d646f32512f25d1cb277586f4c9419ef29846b5921fa37ed36e19a647',
+    reason: 'Drops UNIQUE(payment_tx_digest): settlements in one batch share the payment transaction',
+  },
+  14: {
+    checksum: '5085ecfe08e07824aef3e0686d769e69ccd5db334c5b9112c05a9fcfb24817f5',
+    reason: 'Drops NOT NULL on enclave_tx_digest: rows backfilled from NftSettled events have no enclave digest',
+  },
+};
+
+// Whether a migration needs --allow-destructive: it matches a destructive pattern and was not reviewed
+export function isDestructive(version: number, sql: string, checksum: string): boolean {
+  if (!DESTRUCTIVE_PATTERNS.some((pattern) => pattern.test(sql))) {
+    return false;
+  }
+  return REVIEWED_MIGRATIONS[version]?.checksum !== checksum;
+}
+
+// Migration file loaded from disk
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+  destructive: boolean;
+}
+
+// Applied migration row (schema_migrations)
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+// Migration state for status reporting
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+  destructive: boolean;
+}
+
+// Load and checksum all migration files, ordered by version
+export function loadMigrations(): Migration[] {
+  const migrations = readdirSync(MIGRATIONS_DIR)
+    .map((file) => {
+      const match = /^(\d+)_(.+)\.sql$/.exec(file);
+      if (!match) {
+        return null;
+      }
+
+      const sql = readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+      const version = parseInt(match[1], 10);
+      const checksum = createHash('sha256').update(sql).digest('hex');
+      return {
+        version,
+        name: match[2],
+        sql,
+        checksum,
+        destructive: isDestructive(version, sql, checksum),
+      };
+    })
+    .filter((migration): migration is Migration => migration !== null)
+    .sort((a, b) => a.version - b.version);
+
+  // Versions must be unique
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i].version === migrations[i - 1].version) {
+      throw new Error(`Duplicate migration version ${migrations[i].version}`);
+    }
+  }
+
+  return migrations;
+}
+
+// Create the tracking table and return applied migrations
+async function getAppliedMigrations(): Promise<AppliedMigration[]> {
+  const client = await pool.connect();
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    const result = await client.query('SELECT * FROM schema_migrations ORDER BY version ASC');
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// Applied migrations must still match their files - editing an applied migration is an error
+function verifyChecksums(migrations: Migration[], applied: AppliedMigration[]): void {
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.version === row.version);
+    if (!migration) {
+      throw new Error(`Applied migration ${row.version}_${row.name} is missing from ${MIGRATIONS_DIR}`);
+    }
+    if (migration.checksum !== row.checksum) {
+      throw new Error(
+        `Checksum mismatch for migration ${row.version}_${row.name}: the file was modified after it was applied`
+      );
+    }
+  }
+}
+
+// Get applied/pending state of every migration
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  const applied = await getAppliedMigrations();
+  verifyChecksums(migrations, applied);
+
+  return migrations.map((migration) => {
+    const row = applied.find((a) => a.version === migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      applied: !!row,
+      appliedAt: row ? row.applied_at : null,
+      destructive: migration.destructive,
+    };
+  });
+}
+
+// Apply all pending migrations in order, each in its own transaction
+// Destructive migrations are refused unless explicitly allowed (e.g. `npm run migrate -- --allow-destructive`)
+export async function runMigrations(options?: { allowDestructive?: boolean }): Promise<number> {
+  const migrations = loadMigrations();
+
+  const lockClient = await pool.connect();
+  try {
+    await lockClient.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+
+    const applied = await getAppliedMigrations();
+    verifyChecksums(migrations, applied);
+
+    const appliedVersions = new Set(applied.map((row) => row.version));
+    const pending = migrations.filter((migration) => !appliedVersions.has(migration.version));
+
+    const destructive = pending.filter((migration) => migration.destructive);
+    if (destructive.length > 0 && !options?.allowDestructive) {
+      throw new Error(
+        `Refusing to apply destructive migration(s) implicitly: ` +
+        `${destructive.map((m) => `${m.version}_${m.name}`).join(', ')}. ` +
+        `Run "npm run migrate -- --allow-destructive" to apply them.`
+      );
+    }
+
+    for (const migration of pending) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+        logger.info('Applied migration', { version: migration.version, name: migration.name });
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(
+          `Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : error}`
+        );
+      } finally {
+        client.release();
+      }
+    }
+
+    logger.info('Database migrations up to date', { applied: pending.length, total: migrations.length });
+    return pending.length;
+  } finally {
+    await lockClient.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    lockClient.release();
+  }
+}
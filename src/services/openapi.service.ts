@@ -0,0 +1,498 @@
+import { JsonSchema, Schema } from '../utils/schema';
+import {
+  settlementRequestSchema,
+  settleQuerySchema,
+  batchSettlementSchema,
+  allSettlementsQuerySchema,
+  userSettlementsQuerySchema,
+  exportQuerySchema,
+  statementQuerySchema,
+  statsQuerySchema,
+  attemptsQuerySchema,
+  reconciliationQuerySchema,
+  vaultQuerySchema,
+  jobParamsSchema,
+  nftParamsSchema,
+  userParamsSchema,
+  settlementIdParamsSchema,
+} from '../schemas/settlement.schema';
+import {
+  createWebhookSchema,
+  deliveriesQuerySchema,
+  webhookParamsSchema,
+  deliveryParamsSchema,
+} from '../schemas/webhook.schema';
+
+// API operation, described with the same schemas its route validates against
+interface ApiOperation {
+  method: 'get' | 'post' | 'delete';
+  // OpenAPI path template (`{name}` for path params)
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  // Signed with a protocol API key
+  auth?: boolean;
+  params?: Schema<unknown>;
+  query?: Schema<unknown>;
+  body?: Schema<unknown>;
+  headers?: { name: string; description: string }[];
+  // Status code -> description; 2xx bodies use `data` as their payload schema
+  responses: Record<number, string>;
+  data?: JsonSchema;
+  // Body returned with every listed status, in place of the success/error envelopes (e.g. probes)
+  report?: JsonSchema;
+  // Non-JSON success body (e.g. exports)
+  produces?: string[];
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const idempotencyKeyHeader = {
+  name: 'Idempotency-Key',
+  description: '1-255 printable ASCII characters. A retry with the same key replays the original result',
+};
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/api/settlement/settle',
+    tag: 'Settlement',
+    summary: 'Settle an NFT payment',
+    description: 'Verifies the enclave transaction and DID NFT on-chain, reserves the settlement and executes it. ' +
+      'With `async=true` the settlement is queued and 202 is returned with a job id.',
+    auth: true,
+    query: settleQuerySchema,
+    body: settlementRequestSchema,
+    headers: [idempotencyKeyHeader],
+    responses: {
+      200: 'Settled',
+      202: 'Queued (async=true)',
+      400: 'Invalid request',
+      402: 'Vault cannot cover the settlement fee',
+      403: 'Protocol not registered or not allowed for the API key',
+      409: 'Already settled or in progress',
+      422: 'Enclave transaction not found or not valid, or Idempotency-Key reused with a different request',
+      503: 'Sui RPC unavailable (retry)',
+      504: 'Transaction submitted but its outcome is unknown; the settlement stays pending until found on-chain',
+    },
+    data: ref('Settlement'),
+  },
+  {
+    method: 'post',
+    path: '/api/settlement/settle/batch',
+    tag: 'Settlement',
+    summary: 'Settle many NFT payments in shared transactions',
+    description: 'Each item is validated, verified and reserved independently; results are returned per item, in request order.',
+    auth: true,
+    body: batchSettlementSchema,
+    responses: { 200: 'Per-item results', 400: 'Malformed batch' },
+  },
+  {
+    method: 'post',
+    path: '/api/settlement/simulate',
+    tag: 'Settlement',
+    summary: 'Dry-run a settlement',
+    description: 'Runs the checks of /settle and dry-runs the transaction; nothing is signed or stored.',
+    auth: true,
+    body: settlementRequestSchema,
+    responses: { 200: 'Predicted outcome, fee and gas', 400: 'Invalid request', 403: 'Protocol not allowed', 409: 'Already settled' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/jobs/{id}',
+    tag: 'Settlement',
+    summary: 'Get an asynchronous settlement job',
+    params: jobParamsSchema,
+    responses: { 200: 'Job status', 404: 'Job not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/status/{nftId}',
+    tag: 'Settlement',
+    summary: 'Check whether a DID NFT is settled',
+    params: nftParamsSchema,
+    responses: { 200: 'Settlement status', 400: 'Invalid NFT ID' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/all',
+    tag: 'Listing',
+    summary: 'List settlements',
+    description: "Filter, sort and page with `nextCursor` (stable while rows are inserted) or legacy page/offset. Limited to the API key's protocol.",
+    auth: true,
+    query: allSettlementsQuerySchema,
+    responses: { 200: 'Settlements page', 400: 'Invalid query', 403: 'protocolUid is not the API key\'s protocol' },
+    data: { type: 'array', items: ref('Settlement') },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/user/{userAddress}',
+    tag: 'Listing',
+    summary: "List a user's settlements (newest first)",
+    description: "Limited to the API key's protocol.",
+    auth: true,
+    params: userParamsSchema,
+    query: userSettlementsQuerySchema,
+    responses: { 200: 'Settlements page', 400: 'Invalid query', 403: 'protocolUid is not the API key\'s protocol' },
+    data: { type: 'array', items: ref('Settlement') },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/{id}',
+    tag: 'Listing',
+    summary: 'Get a settlement by database ID',
+    params: settlementIdParamsSchema,
+    responses: { 200: 'Settlement', 404: 'Settlement not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/export',
+    tag: 'Listing',
+    summary: 'Stream settlements as CSV or NDJSON',
+    description: "Limited to the API key's protocol.",
+    auth: true,
+    query: exportQuerySchema,
+    responses: { 200: 'Export file', 400: 'Invalid query', 403: 'protocolUid is not the API key\'s protocol' },
+    produces: ['text/csv', 'application/x-ndjson'],
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/statements',
+    tag: 'Reporting',
+    summary: "Protocol billing statement (totals and line items)",
+    description: "Limited to the API key's protocol. Totals cover the whole range; line items are paged with `nextCursor`.",
+    auth: true,
+    query: statementQuerySchema,
+    responses: {
+      200: 'Statement',
+      400: 'Invalid query',
+      403: 'protocolUid is not the API key\'s protocol',
+      404: 'Protocol not registered',
+    },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/stats',
+    tag: 'Reporting',
+    summary: 'Settlement analytics per day, week, month or protocol',
+    description: "Limited to the API key's protocol.",
+    auth: true,
+    query: statsQuerySchema,
+    responses: { 200: 'Totals and buckets', 400: 'Invalid query', 403: 'protocolUid is not the API key\'s protocol' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/attempts',
+    tag: 'Reporting',
+    summary: 'Settlement attempts (success, failed, rejected)',
+    description: "Limited to the API key's protocol.",
+    auth: true,
+    query: attemptsQuerySchema,
+    responses: { 200: 'Attempts page', 400: 'Invalid query', 403: 'protocolUid is not the API key\'s protocol' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/reconciliation',
+    tag: 'Reporting',
+    summary: 'Chain vs database discrepancy report',
+    description: "Limited to the API key's protocol.",
+    auth: true,
+    query: reconciliationQuerySchema,
+    responses: { 200: 'Section counts and one page of items', 400: 'Invalid query' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/protocols',
+    tag: 'Protocols',
+    summary: 'List registered protocols',
+    responses: { 200: 'Protocols' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/vault',
+    tag: 'Protocols',
+    summary: 'Live ProtocolVault balances',
+    query: vaultQuerySchema,
+    responses: { 200: 'Vault balances', 400: 'Invalid query', 404: 'Protocol not registered' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/health',
+    tag: 'Protocols',
+    summary: 'Health check',
+    description: 'Service info, executor stats and the readiness checks.',
+    responses: { 200: 'Healthy', 503: 'A readiness check failed' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/live',
+    tag: 'Protocols',
+    summary: 'Liveness probe',
+    description: 'The process is up; dependencies are not checked.',
+    responses: { 200: 'Alive' },
+  },
+  {
+    method: 'get',
+    path: '/api/settlement/ready',
+    tag: 'Protocols',
+    summary: 'Readiness probe',
+    description: 'Checks the database, Sui RPC and chain ID, PaymentCap ownership, admin gas balance, ' +
+      'and the registry and vault shared objects, each with its timing.',
+    responses: { 200: 'Ready', 503: 'A check failed' },
+    report: ref('Readiness'),
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: 'Register a webhook endpoint',
+    description: 'The signing secret is returned once. A URL whose host resolves to a loopback, private or link-local address is rejected.',
+    auth: true,
+    body: createWebhookSchema,
+    responses: { 201: 'Webhook registered', 400: 'Invalid request or non-public URL' },
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: "List the protocol's webhooks",
+    auth: true,
+    responses: { 200: 'Webhooks' },
+  },
+  {
+    method: 'delete',
+    path: '/api/webhooks/{id}',
+    tag: 'Webhooks',
+    summary: 'Deactivate a webhook',
+    auth: true,
+    params: webhookParamsSchema,
+    responses: { 200: 'Deactivated', 404: 'Webhook not found' },
+  },
+  {
+    method: 'get',
+    path: '/api/webhooks/deliveries',
+    tag: 'Webhooks',
+    summary: 'Webhook delivery log',
+    auth: true,
+    query: deliveriesQuerySchema,
+    responses: { 200: 'Deliveries page', 400: 'Invalid query' },
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks/deliveries/{id}/replay',
+    tag: 'Webhooks',
+    summary: 'Replay a failed delivery',
+    auth: true,
+    params: deliveryParamsSchema,
+    responses: { 202: 'Queued for replay', 404: 'Delivery not found', 409: 'Delivery is not failed' },
+  },
+];
+
+// Components referenced by operations
+const COMPONENTS = {
+  schemas: {
+    SettlementRequest: settlementRequestSchema.toJsonSchema(),
+    Settlement: {
+      type: 'object',
+      properties: {
+        enclaveTxDigest: { type: 'string' },
+        didVerifiedId: { type: 'string' },
+        didNftName: { type: 'string' },
+        protocolUid: { type: 'integer' },
+        protocolName: { type: 'string' },
+        protocolAddress: { type: 'string' },
+        userAddress: { type: 'string' },
+        paymentTxDigest: { type: 'string' },
+        settlementAmount: { type: 'integer', description: 'MIST (0 in mark_only mode)' },
+        settlementMode: { type: 'string', enum: ['vault', 'mark_only'] },
+        requestId: { type: 'string', description: 'X-Request-Id of the request that reserved the settlement' },
+        explorerUrl: { type: 'string' },
+      },
+    },
+    Readiness: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        status: { type: 'string', enum: ['ready', 'not_ready'] },
+        checks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', examples: ['database', 'suiRpc', 'paymentCap', 'adminGas', 'paymentRegistry', 'vault:1000'] },
+              status: { type: 'string', enum: ['pass', 'fail'] },
+              durationMs: { type: 'number' },
+              error: { type: 'string' },
+              details: { type: 'object' },
+            },
+            required: ['name', 'status', 'durationMs'],
+          },
+        },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      required: ['success', 'status', 'checks'],
+    },
+    Error: {
+      type: 'object',
+      properties: {
+        success: { const: false },
+        code: { type: 'string', description: 'Stable error code' },
+        error: { type: 'string' },
+      },
+      required: ['success', 'error'],
+    },
+    ValidationError: {
+      type: 'object',
+      properties: {
+        success: { const: false },
+        code: { const: 'VALIDATION_ERROR' },
+        error: { type: 'string', description: 'Every field error, joined' },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string', examples: ['limit'] },
+              message: { type: 'string' },
+            },
+            required: ['field', 'message'],
+          },
+        },
+      },
+      required: ['success', 'code', 'error', 'errors'],
+    },
+  },
+  securitySchemes: {
+    ApiKey: { type: 'apiKey', in: 'header', name: 'X-Api-Key', description: 'Protocol API key id (`pk_...`)' },
+    Timestamp: { type: 'apiKey', in: 'header', name: 'X-Timestamp', description: 'Unix seconds' },
+    Signature: {
+      type: 'apiKey',
+      in: 'header',
+      name: 'X-Signature',
+      description: 'Hex HMAC-SHA256 of `timestamp.METHOD.path.body` with the API key secret',
+    },
+  },
+};
+
+// Turn a params/query object schema into OpenAPI parameters
+function parameters(schema: Schema<unknown> | undefined, location: 'path' | 'query') {
+  if (!schema) {
+    return [];
+  }
+
+  const { properties = {}, required = [] } = schema.toJsonSchema() as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(properties).map(([name, { description, ...propertySchema }]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(description !== undefined && { description }),
+    schema: propertySchema,
+  }));
+}
+
+// Response object for a status code
+function response(operation: ApiOperation, status: number, description: string) {
+  if (operation.report && status in operation.responses) {
+    return { description, content: { 'application/json': { schema: operation.report } } };
+  }
+
+  if (status >= 400) {
+    return {
+      description,
+      content: { 'application/json': { schema: ref(status === 400 ? 'ValidationError' : 'Error') } },
+    };
+  }
+
+  if (operation.produces) {
+    return {
+      description,
+      content: Object.fromEntries(operation.produces.map((type) => [type, { schema: { type: 'string' } }])),
+    };
+  }
+
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { const: true },
+            ...(operation.data && { data: operation.data }),
+          },
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(operation: ApiOperation) {
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    ...(operation.auth && { security: [{ ApiKey: [], Timestamp: [], Signature: [] }] }),
+    parameters: [
+      ...parameters(operation.params, 'path'),
+      ...parameters(operation.query, 'query'),
+      ...(operation.headers || []).map((header) => ({
+        name: header.name,
+        in: 'header',
+        required: false,
+        description: header.description,
+        schema: { type: 'string' },
+      })),
+      {
+        name: 'X-Request-Id',
+        in: 'header',
+        required: false,
+        description: 'Correlation ID echoed in the response (generated when absent)',
+        schema: { type: 'string', pattern: '^[\\w.:-]{1,128}$' },
+      },
+    ],
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: operation.body === settlementRequestSchema ? ref('SettlementRequest') : operation.body.toJsonSchema(),
+          },
+        },
+      },
+    }),
+    responses: Object.fromEntries(
+      Object.entries({ ...operation.responses, 429: 'Rate limited', 500: 'Internal error' })
+        .map(([status, description]) => [status, response(operation, Number(status), description)])
+    ),
+  };
+}
+
+let document: Record<string, unknown> | null = null;
+
+// OpenAPI 3.1 document for the public API (built once)
+export function getOpenApiDocument(): Record<string, unknown> {
+  if (!document) {
+    const paths: Record<string, Record<string, unknown>> = {};
+    for (const operation of OPERATIONS) {
+      paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+    }
+
+    document = {
+      openapi: '3.1.0',
+      info: {
+        title: 'SuiVerify Settlement API',
+        version: '1.0.0',
+        description: 'Settles verified DID NFT payments on Sui for registered protocols.',
+      },
+      tags: [...new Set(OPERATIONS.map((operation) => operation.tag))].map((name) => ({ name })),
+      paths,
+      components: COMPONENTS,
+    };
+  }
+  return document;
+}
@@ -0,0 +1,73 @@
+import { pool } from './database.service';
+import { CONTRACT_CONFIG, SettlementMode } from '../config/sui.config';
+import { logger } from '../utils/logger';
+
+// Protocol record interface - one row per protocol onboarded onto the PaymentRegistry
+export interface ProtocolRecord {
+  protocol_uid: number;
+  protocol_name: string;
+  protocol_address: string;
+  // Each protocol pays settlements out of its own ProtocolVault (shared object)
+  vault_object_id: string;
+  vault_initial_shared_version: string;
+  // Selects the settlement transaction: vault payout or mark-settled only
+  settlement_mode: SettlementMode;
+  active: boolean;
+  created_at?: Date;
+}
+
+// Seed protocol registry from protocol-config.json (table created by migration 002)
+// Existing rows are left untouched so registry edits made in the database survive restarts
+export async function seedProtocolRegistry(): Promise<void> {
+  const client = await pool.connect();
+  try {
+    for (const protocol of CONTRACT_CONFIG.protocols) {
+      await client.query(
+        `INSERT INTO protocols
+          (protocol_uid, protocol_name, protocol_address, vault_object_id, vault_initial_shared_version,
+           settlement_mode)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (protocol_uid) DO NOTHING`,
+        [
+          protocol.uid,
+          protocol.name,
+          protocol.address,
+          protocol.vault.objectId,
+          protocol.vault.initialSharedVersion,
+          protocol.settlementMode,
+        ]
+      );
+    }
+
+    logger.info('Protocol registry ready', { seeded: CONTRACT_CONFIG.protocols.length });
+  } finally {
+    client.release();
+  }
+}
+
+// Get an active protocol by its on-chain UID
+export async function getProtocolByUid(protocolUid: number): Promise<ProtocolRecord | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM protocols WHERE protocol_uid = $1 AND active = TRUE',
+      [protocolUid]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Get all active protocols
+export async function getAllProtocols(): Promise<ProtocolRecord[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM protocols WHERE active = TRUE ORDER BY protocol_uid ASC'
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,116 @@
+import { pool } from './database.service';
+import { logger } from '../utils/logger';
+
+// Token bucket budget: up to `capacity` requests at once, refilled at `refillPerSecond`
+export interface RateLimitBudget {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+// Result of taking one token from a bucket
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next token (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+// Pluggable bucket store - the in-memory store is per process, the Postgres store is shared
+// A request is allowed while the bucket holds at least one token and then takes `cost` tokens;
+// a cost above the balance leaves the bucket in debt, so large requests pass but delay the next ones
+export interface RateLimitStore {
+  consume(key: string, budget: RateLimitBudget, cost?: number): Promise<RateLimitResult>;
+}
+
+// Idle buckets are dropped after this long (a full bucket carries no state)
+const BUCKET_IDLE_MS = 60 * 60 * 1000;
+
+// Build the result from the tokens left in a bucket
+function toResult(allowed: boolean, tokens: number, budget: RateLimitBudget): RateLimitResult {
+  return {
+    allowed,
+    limit: budget.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((budget.capacity - tokens) / budget.refillPerSecond),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / budget.refillPerSecond),
+  };
+}
+
+// In-memory token buckets (default; limits are per instance)
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  // Drop idle buckets so keys like client IPs don't accumulate forever
+  setInterval(() => {
+    const cutoff = Date.now() - BUCKET_IDLE_MS;
+    for (const [key, bucket] of buckets) {
+      if (bucket.updatedAt < cutoff) {
+        buckets.delete(key);
+      }
+    }
+  }, BUCKET_IDLE_MS).unref();
+
+  return {
+    async consume(key, budget, cost = 1) {
+      const now = Date.now();
+      const bucket = buckets.get(key) || { tokens: budget.capacity, updatedAt: now };
+
+      const tokens = Math.min(budget.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * budget.refillPerSecond);
+      const allowed = tokens >= 1;
+
+      bucket.tokens = allowed ? tokens - cost : tokens;
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      return toResult(allowed, bucket.tokens, budget);
+    },
+  };
+}
+
+// Postgres-backed token buckets (rate_limit_buckets, migration 007) shared by all instances
+// Refill and take happen in one upsert, so concurrent requests on the same key serialize on the row
+export function createPostgresStore(): RateLimitStore {
+  setInterval(async () => {
+    try {
+      const client = await pool.connect();
+      try {
+        await client.query(
+          'DELETE FROM rate_limit_buckets WHERE updated_at < CURRENT_TIMESTAMP - make_interval(secs => $1)',
+          [BUCKET_IDLE_MS / 1000]
+        );
+      } finally {
+        client.release();
+      }
+    } catch (error) {
+      logger.error('Failed to prune rate limit buckets', { error });
+    }
+  }, BUCKET_IDLE_MS).unref();
+
+  return {
+    async consume(key, budget, cost = 1) {
+      const client = await pool.connect();
+      try {
+        const result = await client.query(
+          `INSERT INTO rate_limit_buckets AS b (key, tokens, allowed, updated_at)
+           VALUES ($1, $2 - $4::double precision, TRUE, CURRENT_TIMESTAMP)
+           ON CONFLICT (key) DO UPDATE
+           SET allowed = LEAST($2, b.tokens + EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - b.updated_at) * $3) >= 1,
+               tokens = LEAST($2, b.tokens + EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - b.updated_at) * $3)
+                 - CASE WHEN LEAST($2, b.tokens + EXTRACT(EPOCH FROM CURRENT_TIMESTAMP - b.updated_at) * $3) >= 1
+                     THEN $4::double precision ELSE 0 END,
+               updated_at = CURRENT_TIMESTAMP
+           RETURNING tokens, allowed`,
+          [key, budget.capacity, budget.refillPerSecond, cost]
+        );
+        const row = result.rows[0];
+        return toResult(row.allowed, Number(row.tokens), budget);
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
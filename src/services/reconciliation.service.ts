@@ -0,0 +1,400 @@
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { suiClient, CONTRACT_CONFIG } from '../config/sui.config';
+import { pool, completeSettlement, storeSettlement, getSettlementById, SettlementRecord } from './database.service';
+import { getProtocolByUid } from './protocol.service';
+import { enqueueWebhookEvent, settlementEventData } from './webhook.service';
+import { logger } from '../utils/logger';
+
+const INDEXER_NAME = 'payment_events';
+const PAGE_SIZE = 50;
+
+// Grace period before a settled row without an indexed event is flagged (indexing lag)
+const MISSING_EVENT_GRACE_MS = parseInt(process.env.RECONCILIATION_GRACE_MS || '300000', 10);
+
+// Runs share the indexer cursor, so the worker's runs and on-demand confirmations take turns
+let lastRun: Promise<unknown> = Promise.resolve();
+
+// Discrepancy kinds recorded by the reconciliation worker
+export type DiscrepancyKind = 'backfilled' | 'missing_row' | 'conflict';
+
+// Report sections: recorded discrepancies plus settled rows without an event (computed live)
+export const RECONCILIATION_KINDS = ['missing_event', 'missing_row', 'backfilled', 'conflict'] as const;
+export type ReconciliationKind = typeof RECONCILIATION_KINDS[number];
+
+// Recorded discrepancy between chain and database
+export interface SettlementDiscrepancy {
+  id: number;
+  kind: DiscrepancyKind;
+  did_verified_id: string;
+  payment_tx_digest: string;
+  protocol_uid: number | null;
+  details: Record<string, unknown> | null;
+  detected_at: Date;
+}
+
+// Decoded NftSettled event
+interface NftSettledEvent {
+  txDigest: string;
+  eventSeq: string;
+  didVerifiedId: string;
+  protocolUid: number | null;
+  amount: string | null;
+  timestampMs: string | null;
+  nftName: string | null;
+  parsedJson: Record<string, unknown>;
+}
+
+// Result of one reconciliation run
+export interface ReconciliationRun {
+  eventsIndexed: number;
+  backfilled: number;
+  missingRows: number;
+  conflicts: number;
+}
+
+// Decode an NftSettled event (field names follow payment.move)
+function decodeNftSettled(event: SuiEvent): NftSettledEvent | null {
+  const fields = (event.parsedJson || {}) as Record<string, unknown>;
+  const nftId = fields.nft_id;
+  if (typeof nftId !== 'string') {
+    return null;
+  }
+
+  const protocolUid = fields.protocol_uid;
+  const amount = fields.amount ?? fields.fee;
+
+  return {
+    txDigest: event.id.txDigest,
+    eventSeq: event.id.eventSeq,
+    didVerifiedId: normalizeSuiAddress(nftId),
+    protocolUid: protocolUid !== undefined ? Number(protocolUid) : null,
+    amount: amount !== undefined ? String(amount) : null,
+    timestampMs: event.timestampMs || null,
+    nftName: typeof fields.nft_name === 'string' ? fields.nft_name : null,
+    parsedJson: fields,
+  };
+}
+
+// Get the stored indexer cursor
+async function getCursor(): Promise<EventId | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT tx_digest, event_seq FROM indexer_cursors WHERE name = $1',
+      [INDEXER_NAME]
+    );
+    const row = result.rows[0];
+    return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+  } finally {
+    client.release();
+  }
+}
+
+// Persist the indexer cursor
+async function saveCursor(cursor: EventId): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO indexer_cursors (name, tx_digest, event_seq)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE
+       SET tx_digest = EXCLUDED.tx_digest, event_seq = EXCLUDED.event_seq, updated_at = CURRENT_TIMESTAMP`,
+      [INDEXER_NAME, cursor.txDigest, cursor.eventSeq]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Store an indexed event (idempotent)
+async function storeEvent(event: NftSettledEvent): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO nft_settled_events
+        (tx_digest, event_seq, did_verified_id, protocol_uid, amount, timestamp_ms, parsed_json)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (tx_digest, event_seq) DO NOTHING`,
+      [
+        event.txDigest,
+        event.eventSeq,
+        event.didVerifiedId,
+        event.protocolUid,
+        event.amount,
+        event.timestampMs,
+        JSON.stringify(event.parsedJson),
+      ]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Record a discrepancy (idempotent per kind/NFT/digest)
+async function recordDiscrepancy(
+  kind: DiscrepancyKind,
+  event: NftSettledEvent,
+  details?: Record<string, unknown>
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `INSERT INTO settlement_discrepancies (kind, did_verified_id, payment_tx_digest, protocol_uid, details)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (kind, did_verified_id, payment_tx_digest) DO NOTHING`,
+      [kind, event.didVerifiedId, event.txDigest, event.protocolUid, details ? JSON.stringify(details) : null]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Find the settlement row for an NFT (ids are compared normalized)
+async function findSettlementForNft(didVerifiedId: string): Promise<SettlementRecord | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM nft_settlements WHERE LOWER(did_verified_id) = LOWER($1)',
+      [didVerifiedId]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Current owner of a DID NFT - the user it was verified for (settlement doesn't transfer it)
+async function getNftOwner(didVerifiedId: string): Promise<string | null> {
+  const response = await suiClient.getObject({ id: didVerifiedId, options: { showOwner: true } });
+  const owner = response.data?.owner;
+  return owner && typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null;
+}
+
+// Insert the settlement row for an on-chain settlement the database has no record of
+// The enclave digest is not on-chain and stays null; the user is the NFT's owner
+// Returns null when the row can't be rebuilt (unknown protocol or NFT owner)
+async function backfillSettlementRow(event: NftSettledEvent): Promise<SettlementRecord | null> {
+  const protocol = event.protocolUid !== null ? await getProtocolByUid(event.protocolUid) : null;
+  const userAddress = await getNftOwner(event.didVerifiedId);
+  if (!protocol || !userAddress) {
+    return null;
+  }
+
+  const amount = Number(event.amount || 0);
+  return storeSettlement({
+    enclave_tx_digest: null,
+    did_verified_id: event.didVerifiedId,
+    did_nft_name: event.nftName || undefined,
+    did_nft_type: CONTRACT_CONFIG.didNft.type,
+    protocol_uid: protocol.protocol_uid,
+    protocol_name: protocol.protocol_name,
+    protocol_address: protocol.protocol_address,
+    user_address: userAddress,
+    payment_tx_digest: event.txDigest,
+    settlement_amount: amount,
+    settlement_mode: amount > 0 ? 'vault' : 'mark_only',
+    timestamp: event.timestampMs ? Number(event.timestampMs) : undefined,
+    status: 'success',
+  });
+}
+
+// Reconcile one on-chain settlement against the database
+// A reservation left pending/failed (e.g. process died after the tx) is completed from the event,
+// and an event with no row at all gets its row inserted from the event; when that row can't be
+// rebuilt (protocol not registered, NFT no longer owned by an address) the event is flagged instead
+async function reconcileEvent(event: NftSettledEvent, run: ReconciliationRun): Promise<void> {
+  let settlement = await findSettlementForNft(event.didVerifiedId);
+
+  if (!settlement) {
+    let inserted: SettlementRecord | null = null;
+    try {
+      inserted = await backfillSettlementRow(event);
+    } catch (error) {
+      // A reservation for the NFT was inserted meanwhile - reconcile against it below
+      if ((error as { code?: string }).code !== '23505') {
+        throw error;
+      }
+    }
+
+    if (inserted) {
+      await enqueueWebhookEvent(inserted.protocol_uid, 'settlement.succeeded', settlementEventData(inserted));
+      await recordDiscrepancy('backfilled', event, { previousStatus: null });
+      run.backfilled++;
+      logger.info('Reconciliation inserted settlement', { settlementId: inserted.id, digest: event.txDigest });
+      return;
+    }
+
+    settlement = await findSettlementForNft(event.didVerifiedId);
+    if (!settlement) {
+      await recordDiscrepancy('missing_row', event);
+      run.missingRows++;
+      return;
+    }
+  }
+
+  if (settlement.status === 'success') {
+    if (settlement.payment_tx_digest !== event.txDigest) {
+      await recordDiscrepancy('conflict', event, { databaseDigest: settlement.payment_tx_digest });
+      run.conflicts++;
+    }
+    return;
+  }
+
+  const completed = await completeSettlement(
+    settlement.id!,
+    event.txDigest,
+    event.timestampMs ? Number(event.timestampMs) : undefined
+  );
+  await enqueueWebhookEvent(completed.protocol_uid, 'settlement.succeeded', settlementEventData(completed));
+  await recordDiscrepancy('backfilled', event, { previousStatus: settlement.status });
+  run.backfilled++;
+  logger.info('Reconciliation backfilled settlement', { settlementId: settlement.id, digest: event.txDigest });
+}
+
+// Page through payment module events from the stored cursor and reconcile NftSettled events
+export function runReconciliation(): Promise<ReconciliationRun> {
+  const run = lastRun.then(indexNewEvents);
+  lastRun = run.catch(() => undefined);
+  return run;
+}
+
+// Catch up with the chain and return the settlement if its NftSettled event completed it
+// Used when a settlement transaction's outcome is unknown: if it landed, the event completes the pending row
+export async function findSettledOnChain(settlementId: number): Promise<SettlementRecord | null> {
+  await runReconciliation();
+  const settlement = await getSettlementById(settlementId);
+  return settlement?.status === 'success' ? settlement : null;
+}
+
+// One reconciliation run (see runReconciliation)
+async function indexNewEvents(): Promise<ReconciliationRun> {
+  const run: ReconciliationRun = { eventsIndexed: 0, backfilled: 0, missingRows: 0, conflicts: 0 };
+  const eventType = `${normalizeSuiAddress(CONTRACT_CONFIG.packageId)}::payment::NftSettled`;
+
+  let cursor = await getCursor();
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const page = await suiClient.queryEvents({
+      query: { MoveModule: { package: CONTRACT_CONFIG.packageId, module: 'payment' } },
+      cursor,
+      limit: PAGE_SIZE,
+      order: 'ascending',
+    });
+
+    for (const rawEvent of page.data) {
+      if (rawEvent.type !== eventType) {
+        continue;
+      }
+
+      const event = decodeNftSettled(rawEvent);
+      if (!event) {
+        logger.warn('Reconciliation could not decode NftSettled event', { digest: rawEvent.id.txDigest });
+        continue;
+      }
+
+      await storeEvent(event);
+      await reconcileEvent(event, run);
+      run.eventsIndexed++;
+    }
+
+    // Save progress after each page so a restart resumes where it left off
+    if (page.nextCursor) {
+      cursor = page.nextCursor;
+      await saveCursor(cursor);
+    }
+    hasNextPage = page.hasNextPage;
+  }
+
+  return run;
+}
+
+// Build one page of the discrepancy report
+// Settled rows without a matching event are computed live, ignoring rows newer than the
+// last indexed event (minus a grace period) since the indexer may not have reached them yet.
+// Without a kind the page lists every recorded discrepancy (missing events only with kind=missing_event).
+// With a protocolUid, counts and items cover that protocol only
+export async function getReconciliationReport(options: {
+  protocolUid?: number;
+  kind?: ReconciliationKind;
+  limit: number;
+  offset: number;
+}): Promise<{
+  cursor: EventId | null;
+  lastEventTimestampMs: string | null;
+  counts: Record<ReconciliationKind, number>;
+  total: number;
+  items: (SettlementRecord | SettlementDiscrepancy)[];
+}> {
+  const cursor = await getCursor();
+
+  const client = await pool.connect();
+  try {
+    const latest = await client.query('SELECT MAX(timestamp_ms) as latest FROM nft_settled_events');
+    const lastEventTimestampMs: string | null = latest.rows[0].latest;
+
+    const protocolUid = options.protocolUid ?? null;
+    const missingEventsWhere = `s.status = 'success'
+         AND s.timestamp < $1
+         AND ($2::integer IS NULL OR s.protocol_uid = $2)
+         AND NOT EXISTS (SELECT 1 FROM nft_settled_events e WHERE e.tx_digest = s.payment_tx_digest)`;
+    const missingEventsCutoff = Number(lastEventTimestampMs || 0) - MISSING_EVENT_GRACE_MS;
+
+    const missingEventsCount = await client.query(
+      `SELECT COUNT(*) AS total FROM nft_settlements s WHERE ${missingEventsWhere}`,
+      [missingEventsCutoff, protocolUid]
+    );
+    const discrepancyCounts = await client.query(
+      `SELECT kind, COUNT(*) AS total FROM settlement_discrepancies
+       WHERE ($1::integer IS NULL OR protocol_uid = $1)
+       GROUP BY kind`,
+      [protocolUid]
+    );
+
+    const counts: Record<ReconciliationKind, number> = {
+      missing_event: parseInt(missingEventsCount.rows[0].total, 10),
+      missing_row: 0,
+      backfilled: 0,
+      conflict: 0,
+    };
+    for (const row of discrepancyCounts.rows) {
+      if (row.kind in counts) {
+        counts[row.kind as ReconciliationKind] = parseInt(row.total, 10);
+      }
+    }
+
+    let items;
+    let total;
+    if (options.kind === 'missing_event') {
+      items = await client.query(
+        `SELECT s.* FROM nft_settlements s
+         WHERE ${missingEventsWhere}
+         ORDER BY s.id ASC
+         LIMIT $3 OFFSET $4`,
+        [missingEventsCutoff, protocolUid, options.limit, options.offset]
+      );
+      total = counts.missing_event;
+    } else {
+      items = await client.query(
+        `SELECT * FROM settlement_discrepancies
+         WHERE ($1::varchar IS NULL OR kind = $1)
+           AND ($2::integer IS NULL OR protocol_uid = $2)
+         ORDER BY detected_at DESC, id DESC
+         LIMIT $3 OFFSET $4`,
+        [options.kind ?? null, protocolUid, options.limit, options.offset]
+      );
+      total = options.kind ? counts[options.kind] : counts.missing_row + counts.backfilled + counts.conflict;
+    }
+
+    return {
+      cursor,
+      lastEventTimestampMs,
+      counts,
+      total,
+      items: items.rows,
+    };
+  } finally {
+    client.release();
+  }
+}
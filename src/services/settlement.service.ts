@@ -0,0 +1,779 @@
+import { Transaction } from '@mysten/sui/transactions';
+import type { GasCostSummary } from '@mysten/sui/client';
+import { suiClient, CONTRACT_CONFIG, CONTRACT_FUNCTIONS, SettlementMode } from '../config/sui.config';
+import { adminAddress } from '../config/signer.config';
+import {
+  isEnclaveTxUsed,
+  reserveSettlement,
+  completeSettlement,
+  failSettlement,
+  getSettlementByNftId,
+  isReservationExpired,
+  SettlementRecord,
+} from './database.service';
+import { getProtocolByUid, ProtocolRecord } from './protocol.service';
+import { getVaultBalance } from './vault.service';
+import { recordAttempt } from './attempt.service';
+import { executeCapTransaction } from './executor.service';
+import { enqueueWebhookEvent, settlementEventData } from './webhook.service';
+import { findSettledOnChain } from './reconciliation.service';
+import {
+  verifyEnclaveTransaction,
+  verifyDidNft,
+  VerifiedDidNft,
+  VERIFICATION_ERRORS,
+} from './verification.service';
+import { SettlementError, SETTLEMENT_ERRORS, TransactionSubmissionError } from '../utils/errors';
+import { moveAbortToError, parseMoveAbort, ALREADY_SETTLED_ON_CHAIN } from '../utils/move-abort';
+import { logger, currentRequestId } from '../utils/logger';
+
+// Settlements per programmable transaction block in a batch (one moveCall each)
+const BATCH_CHUNK_SIZE = parseInt(process.env.SETTLEMENT_BATCH_CHUNK_SIZE || '50', 10);
+
+// Settlement request interface - all data from frontend
+export interface SettlementRequest {
+  // Enclave verification tx digest (from ZK verification)
+  enclaveTxDigest: string;
+  // DID NFT that was verified (name and type are read from chain, not from the client)
+  didVerifiedId: string;
+  // User who completed verification (zkLogin address)
+  userAddress: string;
+  // Protocol info (passed from frontend)
+  protocolName: string;
+  protocolUid: number;
+}
+
+// Result of the registry and on-chain checks for a settlement request
+export interface VerifiedSettlement {
+  protocol: ProtocolRecord;
+  didNft: VerifiedDidNft;
+}
+
+// Predicted outcome of a settlement, from a dry run of the identical transaction (amounts in MIST)
+export interface SettlementSimulation {
+  willSucceed: boolean;
+  // Decoded abort or execution failure when the dry run fails
+  error: SettlementError | null;
+  gasEstimate: {
+    computationCost: bigint;
+    storageCost: bigint;
+    storageRebate: bigint;
+    totalGas: bigint;
+  } | null;
+  settlementMode: SettlementMode;
+  // 0 in mark_only mode
+  settlementFee: bigint;
+  vaultBalance: bigint;
+}
+
+// Conflict error for a DID NFT whose settlement row is already settled or still in flight
+function settlementConflict(settlement: SettlementRecord): SettlementError {
+  if (settlement.status === 'pending') {
+    return new SettlementError(
+      409,
+      SETTLEMENT_ERRORS.inProgress,
+      'DID NFT settlement is already in progress'
+    );
+  }
+
+  return new SettlementError(
+    409,
+    SETTLEMENT_ERRORS.alreadySettled,
+    'DID NFT has already been settled',
+    { data: settlement }
+  );
+}
+
+// Resolve the protocol and verify the request against the database and chain
+// Throws SettlementError for unknown protocols, duplicates and on-chain mismatches
+export async function verifySettlementRequest(request: SettlementRequest): Promise<VerifiedSettlement> {
+  const { enclaveTxDigest, didVerifiedId, userAddress, protocolName, protocolUid } = request;
+
+  // Security check: Resolve protocol from the registry and validate the passed name
+  const protocol = await getProtocolByUid(protocolUid);
+  if (!protocol) {
+    throw new SettlementError(
+      403,
+      SETTLEMENT_ERRORS.protocolNotRegistered,
+      `Invalid protocol UID. Protocol ${protocolUid} is not registered`
+    );
+  }
+
+  if (protocolName !== protocol.protocol_name) {
+    throw new SettlementError(
+      403,
+      SETTLEMENT_ERRORS.protocolNameMismatch,
+      `Invalid protocol name. Expected "${protocol.protocol_name}", got "${protocolName}"`
+    );
+  }
+
+  // Check if DID NFT is already settled (or being settled; an expired reservation is re-checked when claiming)
+  const existingSettlement = await getSettlementByNftId(didVerifiedId);
+  if (existingSettlement && existingSettlement.status !== 'failed' && !isReservationExpired(existingSettlement)) {
+    throw settlementConflict(existingSettlement);
+  }
+
+  // Enclave verification digests are single-use: one verification funds one settlement
+  const enclaveTxUsed = await isEnclaveTxUsed(enclaveTxDigest);
+  if (enclaveTxUsed) {
+    throw new SettlementError(
+      409,
+      VERIFICATION_ERRORS.txAlreadyUsed,
+      'enclaveTxDigest has already been used for a settlement'
+    );
+  }
+
+  // Verify the enclave transaction on-chain
+  await verifyEnclaveTransaction({ enclaveTxDigest, didVerifiedId, userAddress });
+
+  // Verify DID NFT type and ownership on-chain and read its real display name
+  const didNft = await verifyDidNft({ didVerifiedId, userAddress });
+
+  return { protocol, didNft };
+}
+
+// Claim the settlement atomically - concurrent requests for the same NFT cannot both reach the chain
+export async function reserveVerifiedSettlement(
+  request: SettlementRequest,
+  verified: VerifiedSettlement,
+  idempotencyKey?: string
+): Promise<SettlementRecord> {
+  const { protocol, didNft } = verified;
+
+  const reservation = await reserveSettlement({
+    // Enclave verification
+    enclave_tx_digest: request.enclaveTxDigest,
+    // DID NFT
+    did_verified_id: request.didVerifiedId,
+    did_nft_name: didNft.name,
+    did_nft_type: didNft.type,
+    did_nft_metadata: didNft.display,
+    // Protocol info
+    protocol_uid: protocol.protocol_uid,
+    protocol_name: protocol.protocol_name,
+    protocol_address: protocol.protocol_address,
+    // User info
+    user_address: request.userAddress,
+    // Payment settlement (the protocol's mode at reservation time decides the transaction)
+    settlement_amount: Number(settlementAmountFor(protocol.settlement_mode)),
+    settlement_mode: protocol.settlement_mode,
+    idempotency_key: idempotencyKey,
+    // Metadata
+    request_id: currentRequestId(),
+    timestamp: Date.now(),
+  });
+
+  if (!reservation.reserved) {
+    throw settlementConflict(reservation.settlement);
+  }
+
+  return reservation.settlement;
+}
+
+// Build the settlement transaction for a DID NFT
+export function buildSettlementTransaction(
+  protocol: ProtocolRecord,
+  mode: SettlementMode,
+  didVerifiedId: string,
+  didNftName: string
+): Transaction {
+  const tx = new Transaction();
+  addSettlementCall(tx, protocol, mode, didVerifiedId, didNftName);
+  return tx;
+}
+
+// Fee charged for a settlement in the given mode, in MIST (nothing moves when only marking)
+export function settlementAmountFor(mode: SettlementMode): bigint {
+  return mode === 'vault' ? BigInt(CONTRACT_CONFIG.constants.settlementFee) : BigInt(0);
+}
+
+// Mode recorded on a reserved settlement (rows reserved before modes existed were vault-funded)
+function settlementModeOf(settlement: SettlementRecord): SettlementMode {
+  return settlement.settlement_mode || 'vault';
+}
+
+// Add the settlement moveCall for a DID NFT to a transaction (one command per settlement)
+function addSettlementCall(
+  tx: Transaction,
+  protocol: ProtocolRecord,
+  mode: SettlementMode,
+  didVerifiedId: string,
+  didNftName: string
+): void {
+  // Arg: &mut PaymentRegistry (shared object)
+  const registry = tx.sharedObjectRef({
+    objectId: CONTRACT_CONFIG.paymentRegistry.objectId,
+    initialSharedVersion: CONTRACT_CONFIG.paymentRegistry.initialSharedVersion,
+    mutable: true,
+  });
+  // Arg: &PaymentCap (owned object)
+  const cap = tx.object(CONTRACT_CONFIG.paymentCap.objectId);
+  // Args: u64 (protocol_uid), ID (nft_id, passed as address), String (nft_name)
+  const settlementArgs = [
+    tx.pure.u64(protocol.protocol_uid),
+    tx.pure.address(didVerifiedId),
+    tx.pure.string(didNftName),
+  ];
+  // Arg: &Clock (shared object, immutable)
+  const clock = tx.sharedObjectRef({
+    objectId: CONTRACT_CONFIG.clock.objectId,
+    initialSharedVersion: '1',
+    mutable: false,
+  });
+
+  if (mode === 'mark_only') {
+    // settle_nft_payment: marks the NFT settled, no fund transfer
+    tx.moveCall({
+      target: `${CONTRACT_CONFIG.packageId}::payment::${CONTRACT_FUNCTIONS.settleNftPayment}`,
+      arguments: [registry, cap, ...settlementArgs, clock],
+    });
+    return;
+  }
+
+  // settle_nft_payment_with_vault: transfers the settlement fee from the protocol vault to the treasury
+  tx.moveCall({
+    target: `${CONTRACT_CONFIG.packageId}::payment::${CONTRACT_FUNCTIONS.settleNftPaymentWithVault}`,
+    arguments: [
+      registry,
+      cap,
+      // &mut ProtocolVault (shared object)
+      tx.sharedObjectRef({
+        objectId: protocol.vault_object_id,
+        initialSharedVersion: protocol.vault_initial_shared_version,
+        mutable: true,
+      }),
+      ...settlementArgs,
+      clock,
+    ],
+  });
+}
+
+// Result of executing a settlement, filled in as it becomes known (a failed tx still consumes gas)
+interface ExecutionOutcome {
+  digest?: string;
+  gasUsed?: string;
+  // Completed from its NftSettled event after the submission outcome was unknown
+  confirmedOnChain?: boolean;
+}
+
+// Net gas charged for a transaction (computation + storage - rebate), in MIST
+function netGasUsed(gasUsed: GasCostSummary): bigint {
+  return BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+}
+
+// Sign and execute the settlement transaction for a reserved (`pending`) settlement row
+// On-chain failures and Move aborts release the reservation and throw a mapped SettlementError.
+// When the transaction may have landed but its outcome is unknown, or the NFT turns out to be
+// settled already (an earlier attempt may have landed), the chain is checked; if the
+// settlement isn't found there the row stays pending (see isAwaitingConfirmation).
+// Other thrown RPC errors happen before submission and are left to the caller, which decides
+// whether to release or retry. Every execution is recorded in settlement_attempts, whatever its outcome
+export async function executeSettlement(settlement: SettlementRecord): Promise<SettlementRecord> {
+  const outcome: ExecutionOutcome = {};
+  const attempt = {
+    settlement_id: settlement.id,
+    did_verified_id: settlement.did_verified_id,
+    user_address: settlement.user_address,
+    protocol_uid: settlement.protocol_uid,
+    enclave_tx_digest: settlement.enclave_tx_digest,
+    request_id: settlement.request_id,
+  };
+
+  try {
+    const completed = await submitSettlement(settlement, outcome);
+    await recordAttempt({
+      ...attempt,
+      status: 'success',
+      payment_tx_digest: outcome.digest,
+      gas_used: outcome.gasUsed,
+    });
+    // Reconciliation already notified the protocol of a settlement it completed
+    if (!outcome.confirmedOnChain) {
+      await enqueueWebhookEvent(completed.protocol_uid, 'settlement.succeeded', settlementEventData(completed));
+    }
+    return completed;
+  } catch (error) {
+    const abort = error instanceof SettlementError
+      ? (error.details?.abort as { abortCode?: number } | undefined)
+      : undefined;
+    await recordAttempt({
+      ...attempt,
+      status: 'failed',
+      error_code: error instanceof SettlementError ? error.code : SETTLEMENT_ERRORS.rpcError,
+      error_message: error instanceof Error ? error.message : String(error),
+      abort_code: abort?.abortCode,
+      payment_tx_digest: outcome.digest,
+      gas_used: outcome.gasUsed,
+    });
+    // SettlementErrors are final (the reservation was released) unless the outcome awaits confirmation;
+    // transient RPC errors may still be retried
+    if (error instanceof SettlementError && !isAwaitingConfirmation(error)) {
+      await notifySettlementFailed({ ...settlement, payment_tx_digest: outcome.digest }, error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+// Notify the protocol that a settlement failed for good
+export async function notifySettlementFailed(settlement: SettlementRecord, code: string, message: string): Promise<void> {
+  await enqueueWebhookEvent(
+    settlement.protocol_uid,
+    'settlement.failed',
+    settlementEventData(settlement, { code, message })
+  );
+}
+
+// Whether a settlement error left the reservation pending until the chain confirms its outcome
+export function isAwaitingConfirmation(error: unknown): boolean {
+  return error instanceof SettlementError && error.details?.settlementStatus === 'pending';
+}
+
+// Look for a settlement on-chain after its transaction's outcome became unknown
+// Returns the row completed from its NftSettled event, or null (lookup failures are logged)
+export async function confirmSettlement(settlement: SettlementRecord): Promise<SettlementRecord | null> {
+  try {
+    return await findSettledOnChain(settlement.id!);
+  } catch (error) {
+    logger.warn('Could not look the settlement up on-chain', { settlementId: settlement.id, error });
+    return null;
+  }
+}
+
+// Error for a settlement whose transaction may have landed: the reservation stays pending and
+// reconciliation completes it once the transaction's NftSettled event is indexed
+function unconfirmedSettlementError(settlement: SettlementRecord, reason: string): SettlementError {
+  return new SettlementError(
+    504,
+    SETTLEMENT_ERRORS.settlementUnconfirmed,
+    `Settlement transaction outcome is unknown (${reason}); it is completed once found on-chain`,
+    { settlementId: settlement.id, settlementStatus: 'pending' }
+  );
+}
+
+// The same error, marked as leaving the reservation pending (see isAwaitingConfirmation)
+function awaitingConfirmation(error: SettlementError): SettlementError {
+  return new SettlementError(error.status, error.code, error.message, { ...error.details, settlementStatus: 'pending' });
+}
+
+// Complete a settlement whose transaction may have landed from the chain, or throw `pendingError`
+// leaving the reservation pending
+async function resolveFromChain(
+  settlement: SettlementRecord,
+  outcome: ExecutionOutcome,
+  pendingError: SettlementError
+): Promise<SettlementRecord> {
+  const confirmed = await confirmSettlement(settlement);
+  if (!confirmed) {
+    throw pendingError;
+  }
+  outcome.digest = confirmed.payment_tx_digest;
+  outcome.confirmedOnChain = true;
+  return confirmed;
+}
+
+// Pre-flight, sign, execute and complete a reserved settlement
+async function submitSettlement(settlement: SettlementRecord, outcome: ExecutionOutcome): Promise<SettlementRecord> {
+  const protocol = await getProtocolByUid(settlement.protocol_uid);
+  if (!protocol) {
+    await failSettlement(settlement.id!);
+    throw new SettlementError(
+      403,
+      SETTLEMENT_ERRORS.protocolNotRegistered,
+      `Invalid protocol UID. Protocol ${settlement.protocol_uid} is not registered`
+    );
+  }
+
+  // Pre-flight: refuse cleanly when the live vault balance cannot cover the fee
+  const mode = settlementModeOf(settlement);
+  if (mode === 'vault') {
+    const settlementFee = settlementAmountFor(mode);
+    const vaultBalance = await getVaultBalance(protocol.vault_object_id);
+    if (vaultBalance < settlementFee) {
+      await failSettlement(settlement.id!);
+      throw new SettlementError(
+        402,
+        SETTLEMENT_ERRORS.vaultInsufficientFunds,
+        `Protocol vault balance (${vaultBalance} MIST) is below the settlement fee (${settlementFee} MIST)`,
+        { vaultBalance: vaultBalance.toString() }
+      );
+    }
+  }
+
+  const log = logger.child({ settlementId: settlement.id, protocolUid: protocol.protocol_uid });
+  log.info('Executing settlement transaction', {
+    protocolName: protocol.protocol_name,
+    mode,
+    enclaveTxDigest: settlement.enclave_tx_digest,
+    didVerifiedId: settlement.did_verified_id,
+    didNftName: settlement.did_nft_name,
+    userAddress: settlement.user_address,
+  });
+
+  // Execute the transaction
+  // Aborts caught by the dry run are thrown before submission; map them like on-chain failures
+  let result;
+  try {
+    result = await executeCapTransaction(() =>
+      buildSettlementTransaction(protocol, mode, settlement.did_verified_id, settlement.did_nft_name || 'Unknown NFT')
+    );
+  } catch (error) {
+    if (error instanceof TransactionSubmissionError) {
+      log.error('Settlement transaction outcome unknown', { error: error.message });
+      return resolveFromChain(settlement, outcome, unconfirmedSettlementError(settlement, error.message));
+    }
+
+    const abortError = error instanceof Error ? moveAbortToError(error.message) : null;
+    if (abortError) {
+      log.error('Settlement transaction aborted in dry run', { error: (error as Error).message });
+      // An earlier attempt may have landed: complete the row from its event instead of failing it
+      if (abortError.code === ALREADY_SETTLED_ON_CHAIN) {
+        return resolveFromChain(settlement, outcome, awaitingConfirmation(abortError));
+      }
+      await failSettlement(settlement.id!);
+      throw abortError;
+    }
+    throw error;
+  }
+
+  outcome.digest = result.digest;
+  if (result.effects?.gasUsed) {
+    outcome.gasUsed = netGasUsed(result.effects.gasUsed).toString();
+  }
+
+  // Check transaction status
+  const status = result.effects?.status?.status;
+  if (status !== 'success') {
+    const errorMessage = result.effects?.status?.error || 'Unknown error';
+    log.error('Settlement transaction failed', { digest: result.digest, error: errorMessage });
+    const abortError = moveAbortToError(errorMessage, { digest: result.digest });
+    if (abortError?.code === ALREADY_SETTLED_ON_CHAIN) {
+      return resolveFromChain(settlement, outcome, awaitingConfirmation(abortError));
+    }
+    await failSettlement(settlement.id!, result.digest);
+    throw abortError || new SettlementError(
+      500,
+      SETTLEMENT_ERRORS.transactionFailed,
+      `Transaction failed: ${errorMessage}`,
+      { digest: result.digest }
+    );
+  }
+
+  // Complete the reservation with the payment digest
+  const completed = await completeSettlement(settlement.id!, result.digest);
+  log.info('Settlement complete', { digest: result.digest });
+
+  return completed;
+}
+
+// Outcome of one settlement in a batch
+export interface BatchSettlementOutcome {
+  settlement: SettlementRecord;
+  // Completed record on success
+  completed: SettlementRecord | null;
+  error: SettlementError | null;
+}
+
+// Reserved settlement with its resolved protocol
+interface BatchItem {
+  settlement: SettlementRecord;
+  protocol: ProtocolRecord;
+}
+
+// Settle many reserved (`pending`) settlement rows, packing them into programmable transaction blocks
+// of up to SETTLEMENT_BATCH_CHUNK_SIZE moveCalls; rows settled together share the payment digest.
+// Unlike executeSettlement this never throws for a single item: every row is completed, released or
+// (when its transaction's outcome is unknown) left pending, and its outcome returned, in input order.
+// If the pre-flight throws, every reservation is released before the error is rethrown
+export async function executeSettlementBatch(settlements: SettlementRecord[]): Promise<BatchSettlementOutcome[]> {
+  const outcomes = new Map<number, BatchSettlementOutcome>();
+
+  let items: BatchItem[];
+  try {
+    items = await preflightBatch(settlements, outcomes);
+  } catch (error) {
+    // Nothing was submitted yet
+    for (const settlement of settlements) {
+      if (!outcomes.has(settlement.id!)) {
+        await failSettlement(settlement.id!);
+      }
+    }
+    throw error;
+  }
+
+  for (let i = 0; i < items.length; i += BATCH_CHUNK_SIZE) {
+    await submitBatchChunk(items.slice(i, i + BATCH_CHUNK_SIZE), outcomes);
+  }
+
+  return settlements.map((settlement) => outcomes.get(settlement.id!)!);
+}
+
+// Resolve each batch settlement's protocol and pre-flight each vault for the number of vault-funded
+// settlements it has to pay; rejected settlements are failed, the others returned for submission
+async function preflightBatch(
+  settlements: SettlementRecord[],
+  outcomes: Map<number, BatchSettlementOutcome>
+): Promise<BatchItem[]> {
+  const settlementFee = settlementAmountFor('vault');
+
+  const protocols = new Map<number, ProtocolRecord | null>();
+  const vaultCapacity = new Map<number, bigint>();
+  const items: BatchItem[] = [];
+
+  for (const settlement of settlements) {
+    if (!protocols.has(settlement.protocol_uid)) {
+      protocols.set(settlement.protocol_uid, await getProtocolByUid(settlement.protocol_uid));
+    }
+
+    const protocol = protocols.get(settlement.protocol_uid);
+    if (!protocol) {
+      await failBatchItem(outcomes, settlement, new SettlementError(
+        403,
+        SETTLEMENT_ERRORS.protocolNotRegistered,
+        `Invalid protocol UID. Protocol ${settlement.protocol_uid} is not registered`
+      ));
+      continue;
+    }
+
+    // A zero fee never draws on the vault, so capacity is unlimited
+    if (settlementModeOf(settlement) === 'vault' && settlementFee > BigInt(0)) {
+      if (!vaultCapacity.has(protocol.protocol_uid)) {
+        vaultCapacity.set(protocol.protocol_uid, (await getVaultBalance(protocol.vault_object_id)) / settlementFee);
+      }
+
+      const capacity = vaultCapacity.get(protocol.protocol_uid)!;
+      if (capacity < BigInt(1)) {
+        await failBatchItem(outcomes, settlement, new SettlementError(
+          402,
+          SETTLEMENT_ERRORS.vaultInsufficientFunds,
+          `Protocol vault cannot fund another settlement fee (${settlementFee} MIST) in this batch`
+        ));
+        continue;
+      }
+      vaultCapacity.set(protocol.protocol_uid, capacity - BigInt(1));
+    }
+
+    items.push({ settlement, protocol });
+  }
+
+  return items;
+}
+
+// Sign and execute one chunk of a batch
+// An abort caught by the SDK's dry run drops the offending settlement and retries the rest
+// (nothing was submitted); an on-chain failure fails the whole chunk, since a PTB is atomic.
+// When the outcome is unknown, or a settlement aborts as already settled, it is looked up on-chain
+// and left pending if not found
+async function submitBatchChunk(chunk: BatchItem[], outcomes: Map<number, BatchSettlementOutcome>): Promise<void> {
+  let items = chunk;
+
+  while (items.length > 0) {
+    const calls = items;
+    const build = () => {
+      const tx = new Transaction();
+      for (const { settlement, protocol } of calls) {
+        addSettlementCall(
+          tx,
+          protocol,
+          settlementModeOf(settlement),
+          settlement.did_verified_id,
+          settlement.did_nft_name || 'Unknown NFT'
+        );
+      }
+      return tx;
+    };
+
+    logger.info('Executing batch settlement transaction', { settlements: items.length });
+    let result;
+    try {
+      result = await executeCapTransaction(build);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof TransactionSubmissionError) {
+        logger.error('Batch settlement transaction outcome unknown', { error: message });
+        for (const { settlement } of items) {
+          await resolveBatchItemFromChain(outcomes, settlement, unconfirmedSettlementError(settlement, message));
+        }
+        return;
+      }
+
+      const abortError = moveAbortToError(message);
+      const command = parseMoveAbort(message)?.command;
+
+      if (abortError && command !== null && command !== undefined && items[command]) {
+        logger.error('Batch settlement aborted in dry run', { settlementId: items[command].settlement.id, error: message });
+        if (abortError.code === ALREADY_SETTLED_ON_CHAIN) {
+          await resolveBatchItemFromChain(outcomes, items[command].settlement, awaitingConfirmation(abortError));
+        } else {
+          await failBatchItem(outcomes, items[command].settlement, abortError);
+        }
+        items = items.filter((_, index) => index !== command);
+        continue;
+      }
+
+      logger.error('Batch settlement transaction failed', { error });
+      for (const { settlement } of items) {
+        await failBatchItem(outcomes, settlement, abortError || new SettlementError(500, SETTLEMENT_ERRORS.rpcError, message));
+      }
+      return;
+    }
+
+    // Gas is paid once per transaction; each attempt records its share
+    const gasShare = result.effects?.gasUsed
+      ? (netGasUsed(result.effects.gasUsed) / BigInt(items.length)).toString()
+      : undefined;
+
+    const status = result.effects?.status?.status;
+    if (status !== 'success') {
+      const errorMessage = result.effects?.status?.error || 'Unknown error';
+      logger.error('Batch settlement transaction failed', { digest: result.digest, error: errorMessage });
+      const command = parseMoveAbort(errorMessage)?.command;
+
+      for (const [index, { settlement }] of items.entries()) {
+        const abortError = index === command ? moveAbortToError(errorMessage, { digest: result.digest }) : null;
+        if (abortError?.code === ALREADY_SETTLED_ON_CHAIN) {
+          await resolveBatchItemFromChain(outcomes, settlement, awaitingConfirmation(abortError));
+          continue;
+        }
+        const error = abortError || new SettlementError(
+          500,
+          SETTLEMENT_ERRORS.batchTransactionFailed,
+          `Batch transaction failed: ${errorMessage}`,
+          { digest: result.digest }
+        );
+        await failBatchItem(outcomes, settlement, error, result.digest, gasShare);
+      }
+      return;
+    }
+
+    for (const { settlement } of items) {
+      const completed = await completeSettlement(settlement.id!, result.digest);
+      await recordAttempt({
+        settlement_id: settlement.id,
+        did_verified_id: settlement.did_verified_id,
+        user_address: settlement.user_address,
+        protocol_uid: settlement.protocol_uid,
+        enclave_tx_digest: settlement.enclave_tx_digest,
+        request_id: settlement.request_id,
+        status: 'success',
+        payment_tx_digest: result.digest,
+        gas_used: gasShare,
+      });
+      await enqueueWebhookEvent(completed.protocol_uid, 'settlement.succeeded', settlementEventData(completed));
+      outcomes.set(settlement.id!, { settlement, completed, error: null });
+    }
+    logger.info('Batch settlement complete', { digest: result.digest, settlements: items.length });
+    return;
+  }
+}
+
+// Complete a batch settlement whose transaction may have landed from the chain, or record the failed
+// attempt with `pendingError` and leave the reservation pending
+async function resolveBatchItemFromChain(
+  outcomes: Map<number, BatchSettlementOutcome>,
+  settlement: SettlementRecord,
+  pendingError: SettlementError
+): Promise<void> {
+  const confirmed = await confirmSettlement(settlement);
+  const abort = pendingError.details?.abort as { abortCode?: number } | undefined;
+  await recordAttempt({
+    settlement_id: settlement.id,
+    did_verified_id: settlement.did_verified_id,
+    user_address: settlement.user_address,
+    protocol_uid: settlement.protocol_uid,
+    enclave_tx_digest: settlement.enclave_tx_digest,
+    request_id: settlement.request_id,
+    ...(confirmed
+      ? { status: 'success', payment_tx_digest: confirmed.payment_tx_digest }
+      : { status: 'failed', error_code: pendingError.code, error_message: pendingError.message, abort_code: abort?.abortCode }),
+  });
+  outcomes.set(settlement.id!, { settlement, completed: confirmed, error: confirmed ? null : pendingError });
+}
+
+// Release a batch settlement, record the failed attempt and notify the protocol
+async function failBatchItem(
+  outcomes: Map<number, BatchSettlementOutcome>,
+  settlement: SettlementRecord,
+  error: SettlementError,
+  digest?: string,
+  gasUsed?: string
+): Promise<void> {
+  await failSettlement(settlement.id!, digest);
+  const abort = error.details?.abort as { abortCode?: number } | undefined;
+  await recordAttempt({
+    settlement_id: settlement.id,
+    did_verified_id: settlement.did_verified_id,
+    user_address: settlement.user_address,
+    protocol_uid: settlement.protocol_uid,
+    enclave_tx_digest: settlement.enclave_tx_digest,
+    request_id: settlement.request_id,
+    status: 'failed',
+    error_code: error.code,
+    error_message: error.message,
+    abort_code: abort?.abortCode,
+    payment_tx_digest: digest,
+    gas_used: gasUsed,
+  });
+  await notifySettlementFailed({ ...settlement, payment_tx_digest: digest }, error.code, error.message);
+  outcomes.set(settlement.id!, { settlement, completed: null, error });
+}
+
+// Dry-run the settlement transaction for a verified request without signing or touching the database
+export async function simulateSettlement(
+  request: SettlementRequest,
+  verified: VerifiedSettlement
+): Promise<SettlementSimulation> {
+  const { protocol, didNft } = verified;
+  const mode = protocol.settlement_mode;
+  const settlementFee = settlementAmountFor(mode);
+  const vaultBalance = await getVaultBalance(protocol.vault_object_id);
+
+  const tx = buildSettlementTransaction(protocol, mode, request.didVerifiedId, didNft.name);
+  tx.setSender(adminAddress);
+
+  // Building resolves objects and gas; aborts surface here when the SDK estimates the budget
+  let txBytes: Uint8Array;
+  try {
+    txBytes = await tx.build({ client: suiClient });
+  } catch (error) {
+    const abortError = error instanceof Error ? moveAbortToError(error.message) : null;
+    if (abortError) {
+      return {
+        willSucceed: false,
+        error: abortError,
+        gasEstimate: null,
+        settlementMode: mode,
+        settlementFee,
+        vaultBalance,
+      };
+    }
+    throw error;
+  }
+
+  const dryRun = await suiClient.dryRunTransactionBlock({ transactionBlock: txBytes });
+  const { status, gasUsed } = dryRun.effects;
+
+  const gasEstimate = {
+    computationCost: BigInt(gasUsed.computationCost),
+    storageCost: BigInt(gasUsed.storageCost),
+    storageRebate: BigInt(gasUsed.storageRebate),
+    totalGas: netGasUsed(gasUsed),
+  };
+
+  if (status.status !== 'success') {
+    const errorMessage = status.error || 'Unknown error';
+    return {
+      willSucceed: false,
+      error: moveAbortToError(errorMessage) || new SettlementError(
+        500,
+        SETTLEMENT_ERRORS.transactionFailed,
+        `Transaction failed: ${errorMessage}`
+      ),
+      gasEstimate,
+      settlementMode: mode,
+      settlementFee,
+      vaultBalance,
+    };
+  }
+
+  return { willSucceed: true, error: null, gasEstimate, settlementMode: mode, settlementFee, vaultBalance };
+}
@@ -0,0 +1,130 @@
+import { pool, SettlementCursor } from './database.service';
+import { CONTRACT_CONFIG, SettlementMode } from '../config/sui.config';
+
+// Statement line item: one completed settlement (amounts in MIST as strings)
+export interface StatementLineItem {
+  settlementId: number;
+  didVerifiedId: string;
+  didNftName: string | null;
+  userAddress: string;
+  paymentTxDigest: string | null;
+  settlementMode: SettlementMode;
+  amountMist: string;
+  timestamp: number | null;
+}
+
+// Billing statement for one protocol over a timestamp range (bounds inclusive, Unix ms)
+export interface ProtocolStatement {
+  protocolUid: number;
+  protocolName: string;
+  from: number;
+  to: number;
+  totals: {
+    settlements: number;
+    // Settlements paid out of the vault / only marked settled
+    vaultSettlements: number;
+    markOnlySettlements: number;
+    amountMist: string;
+    amountSui: string;
+  };
+  // One page of line items, oldest first; `next` continues after its last item
+  lineItems: StatementLineItem[];
+  next: SettlementCursor | null;
+}
+
+// Columns a line item is built from
+const LINE_ITEM_COLUMNS = `id, did_verified_id, did_nft_name, user_address, payment_tx_digest,
+  settlement_mode, settlement_amount, timestamp`;
+
+// Format a MIST amount as a decimal SUI string (constants.mistPerSui, no float rounding)
+export function formatSui(mist: bigint): string {
+  const mistPerSui = BigInt(CONTRACT_CONFIG.constants.mistPerSui);
+  const decimals = String(CONTRACT_CONFIG.constants.mistPerSui).length - 1;
+  const whole = mist / mistPerSui;
+  const fraction = (mist % mistPerSui).toString().padStart(decimals, '0');
+  return `${whole}.${fraction}`;
+}
+
+// Build a protocol's billing statement from its successful settlements in the range
+// Totals cover the whole range; line items are read one keyset page (timestamp, id) at a time
+// Returns null when the protocol has never been registered
+export async function getProtocolStatement(options: {
+  protocolUid: number;
+  from: number;
+  to: number;
+  limit: number;
+  after?: SettlementCursor;
+}): Promise<ProtocolStatement | null> {
+  const { protocolUid, from, to, limit, after } = options;
+  const client = await pool.connect();
+  try {
+    // Inactive protocols are still billable for past periods
+    const protocol = await client.query(
+      'SELECT protocol_name FROM protocols WHERE protocol_uid = $1',
+      [protocolUid]
+    );
+    if (protocol.rows.length === 0) {
+      return null;
+    }
+
+    const totals = await client.query(
+      `SELECT COUNT(*) as settlements,
+              COUNT(*) FILTER (WHERE settlement_mode = 'vault') as vault_settlements,
+              COUNT(*) FILTER (WHERE settlement_mode = 'mark_only') as mark_only_settlements,
+              COALESCE(SUM(settlement_amount), 0) as amount
+       FROM nft_settlements
+       WHERE protocol_uid = $1 AND status = 'success' AND timestamp >= $2 AND timestamp <= $3`,
+      [protocolUid, from, to]
+    );
+
+    const params: (string | number)[] = [protocolUid, from, to];
+    let afterCondition = '';
+    if (after) {
+      params.push(after.value, after.id);
+      afterCondition = `AND (timestamp, id) > ($${params.length - 1}::bigint, $${params.length})`;
+    }
+
+    // One extra row tells whether another page follows
+    params.push(limit + 1);
+    const lineItems = await client.query(
+      `SELECT ${LINE_ITEM_COLUMNS} FROM nft_settlements
+       WHERE protocol_uid = $1 AND status = 'success' AND timestamp >= $2 AND timestamp <= $3 ${afterCondition}
+       ORDER BY timestamp ASC, id ASC
+       LIMIT $${params.length}`,
+      params
+    );
+    const rows = lineItems.rows.slice(0, limit);
+    const last = rows[rows.length - 1];
+
+    const amountMist = BigInt(totals.rows[0].amount);
+
+    return {
+      protocolUid,
+      protocolName: protocol.rows[0].protocol_name,
+      from,
+      to,
+      totals: {
+        settlements: parseInt(totals.rows[0].settlements, 10),
+        vaultSettlements: parseInt(totals.rows[0].vault_settlements, 10),
+        markOnlySettlements: parseInt(totals.rows[0].mark_only_settlements, 10),
+        amountMist: amountMist.toString(),
+        amountSui: formatSui(amountMist),
+      },
+      lineItems: rows.map((settlement) => ({
+        settlementId: settlement.id,
+        didVerifiedId: settlement.did_verified_id,
+        didNftName: settlement.did_nft_name || null,
+        userAddress: settlement.user_address,
+        paymentTxDigest: settlement.payment_tx_digest || null,
+        settlementMode: settlement.settlement_mode || 'vault',
+        amountMist: String(settlement.settlement_amount ?? 0),
+        timestamp: settlement.timestamp !== undefined && settlement.timestamp !== null ? Number(settlement.timestamp) : null,
+      })),
+      next: lineItems.rows.length > limit
+        ? { sort: 'timestamp', order: 'asc', value: String(last.timestamp), id: last.id }
+        : null,
+    };
+  } finally {
+    client.release();
+  }
+}
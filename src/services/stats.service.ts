@@ -0,0 +1,154 @@
+import { pool } from './database.service';
+import { formatSui } from './statement.service';
+
+// Stats grouping: time buckets (UTC, per protocol) or protocol totals
+export type StatsGroupBy = 'day' | 'week' | 'month' | 'protocol';
+
+export const STATS_GROUP_BY: StatsGroupBy[] = ['day', 'week', 'month', 'protocol'];
+
+// Aggregates over a set of settlement rows and execution attempts (amounts in MIST as strings)
+export interface SettlementAggregates {
+  settlements: number;
+  succeeded: number;
+  failed: number;
+  pending: number;
+  // Execution attempts (settlement_attempts, rejections excluded): every retry counts
+  attemptsSucceeded: number;
+  attemptsFailed: number;
+  // attemptsFailed / (attemptsSucceeded + attemptsFailed), null when nothing was executed
+  failureRate: number | null;
+  amountMist: string;
+  amountSui: string;
+  uniqueUsers: number;
+  // Average time from reservation (`timestamp`) to completion (`completed_at`) of successful settlements
+  avgLatencyMs: number | null;
+}
+
+// One bucket: a period start (UTC, absent for protocol grouping) and protocol
+export interface StatsBucket extends SettlementAggregates {
+  periodStart: string | null;
+  protocolUid: number;
+  protocolName: string | null;
+}
+
+// Aggregate columns over nft_settlements shared by the bucket and total queries
+// Rows inserted from on-chain events have no completed_at and are left out of the latency
+const AGGREGATE_COLUMNS = `
+  COUNT(*) AS settlements,
+  COUNT(*) FILTER (WHERE status = 'success') AS succeeded,
+  COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+  COUNT(*) FILTER (WHERE status = 'pending') AS pending,
+  COALESCE(SUM(settlement_amount) FILTER (WHERE status = 'success'), 0) AS amount,
+  COUNT(DISTINCT user_address) AS unique_users,
+  AVG(completed_at - timestamp) FILTER (WHERE status = 'success' AND completed_at IS NOT NULL) AS avg_latency_ms`;
+
+// Aggregate columns over settlement_attempts
+const ATTEMPT_COLUMNS = `
+  COUNT(*) FILTER (WHERE status = 'success') AS attempts_succeeded,
+  COUNT(*) FILTER (WHERE status = 'failed') AS attempts_failed`;
+
+// settlement_attempts.created_at is stored without a time zone in the session's zone, so it is converted
+// to Unix ms (and range bounds back to session time) before comparing with the ms range
+const ATTEMPT_TIME_MS = "(EXTRACT(EPOCH FROM created_at AT TIME ZONE current_setting('TimeZone')) * 1000)";
+const sessionTime = (param: string) => `(to_timestamp(${param} / 1000.0) AT TIME ZONE current_setting('TimeZone'))`;
+
+// Map aggregate rows (settlements, and attempts when any fell in the bucket) to the public shape
+function toAggregates(row: Record<string, string | null>, attempts?: Record<string, string | null>): SettlementAggregates {
+  const attemptsSucceeded = attempts ? parseInt(attempts.attempts_succeeded!, 10) : 0;
+  const attemptsFailed = attempts ? parseInt(attempts.attempts_failed!, 10) : 0;
+  const amountMist = BigInt(row.amount!);
+
+  return {
+    settlements: parseInt(row.settlements!, 10),
+    succeeded: parseInt(row.succeeded!, 10),
+    failed: parseInt(row.failed!, 10),
+    pending: parseInt(row.pending!, 10),
+    attemptsSucceeded,
+    attemptsFailed,
+    failureRate: attemptsSucceeded + attemptsFailed > 0 ? attemptsFailed / (attemptsSucceeded + attemptsFailed) : null,
+    amountMist: amountMist.toString(),
+    amountSui: formatSui(amountMist),
+    uniqueUsers: parseInt(row.unique_users!, 10),
+    avgLatencyMs: row.avg_latency_ms !== null ? Math.round(Number(row.avg_latency_ms)) : null,
+  };
+}
+
+// Settlement aggregates of a bucket with no settlement rows (only attempts)
+const EMPTY_ROW: Record<string, string | null> = {
+  settlements: '0',
+  succeeded: '0',
+  failed: '0',
+  pending: '0',
+  amount: '0',
+  unique_users: '0',
+  avg_latency_ms: null,
+};
+
+// Compute settlement aggregates over a timestamp range (inclusive, Unix ms), grouped as requested
+// Settlement rows are selected by `timestamp` (indexes from migration 011) and attempts by `created_at`
+// (index from migration 015)
+export async function getSettlementStats(options: {
+  groupBy: StatsGroupBy;
+  from: number;
+  to: number;
+  protocolUid?: number;
+}): Promise<{ totals: SettlementAggregates; buckets: StatsBucket[] }> {
+  const params: number[] = [options.from, options.to];
+  let where = 'WHERE timestamp >= $1 AND timestamp <= $2';
+  let attemptWhere = `WHERE status IN ('success', 'failed')
+    AND created_at >= ${sessionTime('$1')} AND created_at <= ${sessionTime('$2')}`;
+  if (options.protocolUid !== undefined) {
+    params.push(options.protocolUid);
+    where += ` AND protocol_uid = $${params.length}`;
+    attemptWhere += ` AND protocol_uid = $${params.length}`;
+  }
+
+  // Week buckets start on Monday (ISO); callers validate groupBy against STATS_GROUP_BY before it reaches SQL
+  const period = (timeMs: string) => options.groupBy === 'protocol'
+    ? 'NULL::bigint'
+    : `(EXTRACT(EPOCH FROM date_trunc('${options.groupBy}', to_timestamp(${timeMs} / 1000.0) AT TIME ZONE 'UTC')) * 1000)::bigint`;
+  const groupBy = options.groupBy === 'protocol' ? 'protocol_uid' : 'period_start, protocol_uid';
+
+  const client = await pool.connect();
+  try {
+    const totals = await client.query(`SELECT ${AGGREGATE_COLUMNS} FROM nft_settlements ${where}`, params);
+    const attemptTotals = await client.query(`SELECT ${ATTEMPT_COLUMNS} FROM settlement_attempts ${attemptWhere}`, params);
+
+    const buckets = await client.query(
+      `SELECT ${period('timestamp')} AS period_start, protocol_uid, MAX(protocol_name) AS protocol_name, ${AGGREGATE_COLUMNS}
+       FROM nft_settlements ${where}
+       GROUP BY ${groupBy}`,
+      params
+    );
+    const attemptBuckets = await client.query(
+      `SELECT ${period(ATTEMPT_TIME_MS)} AS period_start, protocol_uid, ${ATTEMPT_COLUMNS}
+       FROM settlement_attempts ${attemptWhere}
+       GROUP BY ${groupBy}`,
+      params
+    );
+
+    // Attempts and settlement rows fall in the same bucket by period and protocol
+    const bucketKey = (row: { period_start: string | null; protocol_uid: number }) => `${row.period_start}:${row.protocol_uid}`;
+    const attemptsByBucket = new Map(attemptBuckets.rows.map((row) => [bucketKey(row), row]));
+    const rows = [...buckets.rows];
+    const settlementKeys = new Set(rows.map(bucketKey));
+    for (const row of attemptBuckets.rows) {
+      if (!settlementKeys.has(bucketKey(row))) {
+        rows.push({ ...EMPTY_ROW, period_start: row.period_start, protocol_uid: row.protocol_uid, protocol_name: null });
+      }
+    }
+    rows.sort((a, b) => Number(a.period_start ?? 0) - Number(b.period_start ?? 0) || a.protocol_uid - b.protocol_uid);
+
+    return {
+      totals: toAggregates(totals.rows[0], attemptTotals.rows[0]),
+      buckets: rows.map((row) => ({
+        periodStart: row.period_start !== null ? new Date(Number(row.period_start)).toISOString() : null,
+        protocolUid: row.protocol_uid,
+        protocolName: row.protocol_name,
+        ...toAggregates(row, attemptsByBucket.get(bucketKey(row))),
+      })),
+    };
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,60 @@
+import { suiClient, CONTRACT_CONFIG } from '../config/sui.config';
+import { ProtocolRecord } from './protocol.service';
+import { vaultBalance } from './metrics.service';
+
+// Live ProtocolVault state for a registered protocol (amounts in MIST)
+export interface VaultStatus {
+  protocolUid: number;
+  protocolName: string;
+  vaultObjectId: string;
+  balance: bigint;
+  settlementFee: bigint;
+  minVaultAmount: bigint;
+  // How many more settlements the current balance can pay for
+  remainingSettlements: number;
+  belowMinimum: boolean;
+}
+
+// Read the live balance of a ProtocolVault object
+// `Balance<SUI>` fields are rendered either as a plain u64 string or as { fields: { value } }
+export async function getVaultBalance(vaultObjectId: string): Promise<bigint> {
+  const response = await suiClient.getObject({
+    id: vaultObjectId,
+    options: { showContent: true },
+  });
+
+  const content = response.data?.content;
+  if (!content || content.dataType !== 'moveObject') {
+    throw new Error(`ProtocolVault ${vaultObjectId} not found on-chain`);
+  }
+
+  const balance = (content.fields as Record<string, unknown>).balance;
+  if (typeof balance === 'string' || typeof balance === 'number') {
+    return BigInt(balance);
+  }
+
+  const value = (balance as { fields?: { value?: string } } | undefined)?.fields?.value;
+  if (value === undefined) {
+    throw new Error(`ProtocolVault ${vaultObjectId} has no readable balance field`);
+  }
+  return BigInt(value);
+}
+
+// Get live vault status for a protocol
+export async function getVaultStatus(protocol: ProtocolRecord): Promise<VaultStatus> {
+  const balance = await getVaultBalance(protocol.vault_object_id);
+  const settlementFee = BigInt(CONTRACT_CONFIG.constants.settlementFee);
+  const minVaultAmount = BigInt(CONTRACT_CONFIG.constants.minVaultAmount);
+  vaultBalance.set({ protocol_uid: protocol.protocol_uid }, Number(balance));
+
+  return {
+    protocolUid: protocol.protocol_uid,
+    protocolName: protocol.protocol_name,
+    vaultObjectId: protocol.vault_object_id,
+    balance,
+    settlementFee,
+    minVaultAmount,
+    remainingSettlements: settlementFee > 0n ? Number(balance / settlementFee) : 0,
+    belowMinimum: balance < minVaultAmount,
+  };
+}
@@ -0,0 +1,180 @@
+import { normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { suiClient, CONTRACT_CONFIG } from '../config/sui.config';
+import { JsonRpcError } from '@mysten/sui/client';
+import { SettlementError, SETTLEMENT_ERRORS, isRetryableRpcError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+// Enclave verification error codes (returned as `code` in API responses)
+export const VERIFICATION_ERRORS = {
+  txNotFound: 'ENCLAVE_TX_NOT_FOUND',
+  txFailed: 'ENCLAVE_TX_FAILED',
+  packageMismatch: 'ENCLAVE_PACKAGE_MISMATCH',
+  eventMismatch: 'ENCLAVE_EVENT_MISMATCH',
+  txAlreadyUsed: 'ENCLAVE_TX_ALREADY_USED',
+  didNotFound: 'DID_NFT_NOT_FOUND',
+  didTypeMismatch: 'DID_NFT_TYPE_MISMATCH',
+  didNotOwned: 'DID_NFT_NOT_OWNED',
+};
+
+// DID NFT metadata read from chain (stored on the settlement record)
+export interface VerifiedDidNft {
+  objectId: string;
+  type: string;
+  name: string;
+  display: Record<string, string>;
+}
+
+// Collect every string value from a parsed Move event, normalizing anything that looks like an ID/address
+function collectEventValues(value: unknown, values: Set<string>): void {
+  if (typeof value === 'string') {
+    values.add(/^0x[a-fA-F0-9]{1,64}$/.test(value) ? normalizeSuiAddress(value) : value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectEventValues(item, values));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectEventValues(item, values));
+  }
+}
+
+// The RPC node answered that it has no such transaction (as opposed to failing to answer)
+function isTransactionNotFound(error: unknown): boolean {
+  return error instanceof JsonRpcError && /could not find the referenced transaction|not found/i.test(error.message);
+}
+
+// Verify the enclave verification transaction on-chain before any payout
+// Throws SettlementError if the transaction is missing, failed, emitted by another
+// package, or does not reference the DID NFT and user from the settlement request
+export async function verifyEnclaveTransaction(params: {
+  enclaveTxDigest: string;
+  didVerifiedId: string;
+  userAddress: string;
+}): Promise<void> {
+  const { enclaveTxDigest, didVerifiedId, userAddress } = params;
+
+  let txBlock;
+  try {
+    txBlock = await suiClient.getTransactionBlock({
+      digest: enclaveTxDigest,
+      options: {
+        showEffects: true,
+        showEvents: true,
+      },
+    });
+  } catch (error) {
+    if (isTransactionNotFound(error)) {
+      throw new SettlementError(
+        422,
+        VERIFICATION_ERRORS.txNotFound,
+        `Enclave transaction ${enclaveTxDigest} was not found on-chain`
+      );
+    }
+
+    // Any other failure says nothing about the transaction - don't blame the client for it
+    logger.error('Failed to fetch enclave transaction', { error });
+    if (isRetryableRpcError(error)) {
+      throw new SettlementError(
+        503,
+        SETTLEMENT_ERRORS.rpcError,
+        `Sui RPC unavailable while fetching enclave transaction ${enclaveTxDigest}`
+      );
+    }
+    throw error;
+  }
+
+  if (txBlock.effects?.status?.status !== 'success') {
+    throw new SettlementError(
+      422,
+      VERIFICATION_ERRORS.txFailed,
+      `Enclave transaction ${enclaveTxDigest} did not succeed on-chain`
+    );
+  }
+
+  const expectedPackageId = normalizeSuiAddress(CONTRACT_CONFIG.enclave.packageId);
+  const enclaveEvents = (txBlock.events || []).filter(
+    (event) => normalizeSuiAddress(event.packageId) === expectedPackageId
+  );
+
+  if (enclaveEvents.length === 0) {
+    throw new SettlementError(
+      422,
+      VERIFICATION_ERRORS.packageMismatch,
+      `Enclave transaction ${enclaveTxDigest} was not emitted by the verification package`
+    );
+  }
+
+  // At least one verification event must reference both the DID NFT and the user
+  const expectedNftId = normalizeSuiAddress(didVerifiedId);
+  const expectedUser = normalizeSuiAddress(userAddress);
+  const matchingEvent = enclaveEvents.find((event) => {
+    const values = new Set<string>();
+    collectEventValues(event.parsedJson, values);
+    return values.has(expectedNftId) && values.has(expectedUser);
+  });
+
+  if (!matchingEvent) {
+    throw new SettlementError(
+      422,
+      VERIFICATION_ERRORS.eventMismatch,
+      `Enclave transaction ${enclaveTxDigest} does not reference didVerifiedId and userAddress from the request`
+    );
+  }
+}
+
+// Load the DID NFT and verify its Move type and owner before settlement
+// The display name comes from chain; the client-supplied didNftName is never trusted
+export async function verifyDidNft(params: {
+  didVerifiedId: string;
+  userAddress: string;
+}): Promise<VerifiedDidNft> {
+  const { didVerifiedId, userAddress } = params;
+
+  const response = await suiClient.getObject({
+    id: didVerifiedId,
+    options: {
+      showType: true,
+      showOwner: true,
+      showDisplay: true,
+      showContent: true,
+    },
+  });
+
+  const object = response.data;
+  if (!object) {
+    throw new SettlementError(
+      404,
+      VERIFICATION_ERRORS.didNotFound,
+      `DID NFT ${didVerifiedId} was not found on-chain`
+    );
+  }
+
+  if (!object.type || normalizeStructTag(object.type) !== normalizeStructTag(CONTRACT_CONFIG.didNft.type)) {
+    throw new SettlementError(
+      422,
+      VERIFICATION_ERRORS.didTypeMismatch,
+      `Object ${didVerifiedId} is not a DID NFT (type ${object.type || 'unknown'})`
+    );
+  }
+
+  const owner = object.owner;
+  const ownerAddress = owner && typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : null;
+  if (!ownerAddress || normalizeSuiAddress(ownerAddress) !== normalizeSuiAddress(userAddress)) {
+    throw new SettlementError(
+      403,
+      VERIFICATION_ERRORS.didNotOwned,
+      `DID NFT ${didVerifiedId} is not owned by ${userAddress}`
+    );
+  }
+
+  // Prefer the Display standard name, fall back to a `name` field on the object itself
+  const display = object.display?.data || {};
+  const fields = object.content?.dataType === 'moveObject'
+    ? (object.content.fields as Record<string, unknown>)
+    : {};
+  const name = display.name || (typeof fields.name === 'string' ? fields.name : 'Unknown NFT');
+
+  return {
+    objectId: object.objectId,
+    type: object.type,
+    name,
+    display,
+  };
+}
@@ -0,0 +1,331 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import dns from 'dns';
+import { BlockList } from 'net';
+import { pool, SettlementRecord } from './database.service';
+import { logger } from '../utils/logger';
+
+// Events protocols can subscribe to
+export const WEBHOOK_EVENTS = ['settlement.succeeded', 'settlement.failed', 'vault.low_balance'] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Delivery lifecycle: pending -> delivering -> succeeded | failed
+// A failed attempt puts the delivery back to `pending` with a later next_attempt_at
+export type DeliveryStatus = 'pending' | 'delivering' | 'succeeded' | 'failed';
+
+// Registered webhook endpoint (the secret is only returned on registration)
+export interface ProtocolWebhook {
+  id: number;
+  protocol_uid: number;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_at: Date;
+}
+
+// Delivery log record
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: number;
+  protocol_uid: number;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: DeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date;
+  locked_at?: Date | null;
+  last_status_code?: number | null;
+  last_error?: string | null;
+  delivered_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Delivery claimed by the worker, joined with its endpoint
+export interface ClaimedDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+  webhook_active: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+
+// Deliveries stuck in `delivering` longer than this are assumed abandoned (e.g. process crash)
+const DELIVERY_LOCK_TIMEOUT_SECONDS = 300;
+
+const WEBHOOK_COLUMNS = 'id, protocol_uid, url, events, active, created_at';
+
+// Addresses webhooks may not target: this host, private networks and link-local (cloud metadata)
+// ranges, plus reserved and multicast ones. IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Resolve a webhook URL's host and check every address it resolves to is public
+// Returns why the URL is refused, or null. Private addresses are allowed when NODE_ENV=development
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (process.env.NODE_ENV === 'development') {
+    return null;
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Cannot resolve ${host}`;
+  }
+
+  const blocked = addresses.find(({ address, family }) => NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+  return blocked ? `${host} resolves to a non-public address (${blocked.address})` : null;
+}
+
+// Sign a delivery body: hex HMAC-SHA256 over "<timestamp>.<body>" (sent as X-SuiVerify-Signature)
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Build the webhook payload for a settlement event from its record
+export function settlementEventData(settlement: SettlementRecord, error?: { code: string; message: string }) {
+  return {
+    settlementId: settlement.id,
+    enclaveTxDigest: settlement.enclave_tx_digest,
+    didVerifiedId: settlement.did_verified_id,
+    didNftName: settlement.did_nft_name,
+    protocolUid: settlement.protocol_uid,
+    protocolName: settlement.protocol_name,
+    userAddress: settlement.user_address,
+    paymentTxDigest: settlement.payment_tx_digest || null,
+    settlementAmount: String(settlement.settlement_amount),
+    settlementMode: settlement.settlement_mode,
+    status: error ? 'failed' : settlement.status,
+    ...(error && { error }),
+  };
+}
+
+// Register a webhook endpoint for a protocol
+export async function registerWebhook(params: {
+  protocolUid: number;
+  url: string;
+  events: WebhookEvent[];
+}): Promise<{ webhook: ProtocolWebhook; secret: string }> {
+  const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `INSERT INTO protocol_webhooks (protocol_uid, url, events, secret)
+       VALUES ($1, $2, $3, $4)
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [params.protocolUid, params.url, params.events, secret]
+    );
+    return { webhook: result.rows[0], secret };
+  } finally {
+    client.release();
+  }
+}
+
+// List a protocol's active webhooks
+export async function getWebhooks(protocolUid: number): Promise<ProtocolWebhook[]> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM protocol_webhooks
+       WHERE protocol_uid = $1 AND active = TRUE
+       ORDER BY id ASC`,
+      [protocolUid]
+    );
+    return result.rows;
+  } finally {
+    client.release();
+  }
+}
+
+// Deactivate a protocol's webhook (its delivery log is kept)
+export async function deactivateWebhook(protocolUid: number, id: number): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'UPDATE protocol_webhooks SET active = FALSE WHERE id = $1 AND protocol_uid = $2 AND active = TRUE',
+      [id, protocolUid]
+    );
+    return (result.rowCount ?? 0) > 0;
+  } finally {
+    client.release();
+  }
+}
+
+// Queue an event for every active webhook of the protocol subscribed to it
+// Never throws: a lost notification must not change the outcome of a settlement
+export async function enqueueWebhookEvent(
+  protocolUid: number,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const client = await pool.connect();
+    try {
+      const webhooks = await client.query(
+        `SELECT id FROM protocol_webhooks
+         WHERE protocol_uid = $1 AND active = TRUE AND $2 = ANY(events)`,
+        [protocolUid, event]
+      );
+
+      for (const webhook of webhooks.rows) {
+        const id = randomUUID();
+        const payload = { id, event, createdAt: new Date().toISOString(), data };
+        await client.query(
+          `INSERT INTO webhook_deliveries (id, webhook_id, protocol_uid, event, payload, max_attempts)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [id, webhook.id, protocolUid, event, JSON.stringify(payload), DEFAULT_MAX_ATTEMPTS]
+        );
+      }
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    logger.error('Failed to queue webhook event', { event, protocolUid, error });
+  }
+}
+
+// Claim the next due delivery (pending and past next_attempt_at, or delivering with an expired lock)
+export async function claimNextDelivery(): Promise<ClaimedDelivery | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE webhook_deliveries d
+       SET status = 'delivering', attempts = attempts + 1, locked_at = CURRENT_TIMESTAMP,
+           updated_at = CURRENT_TIMESTAMP
+       FROM protocol_webhooks w
+       WHERE w.id = d.webhook_id AND d.id = (
+         SELECT id FROM webhook_deliveries
+         WHERE (status = 'pending' AND next_attempt_at <= CURRENT_TIMESTAMP)
+            OR (status = 'delivering' AND locked_at < CURRENT_TIMESTAMP - make_interval(secs => $1))
+         ORDER BY next_attempt_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING d.*, w.url, w.secret, w.active AS webhook_active`,
+      [DELIVERY_LOCK_TIMEOUT_SECONDS]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Mark a delivery as succeeded
+export async function markDeliverySucceeded(id: string, statusCode: number): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE webhook_deliveries
+       SET status = 'succeeded', last_status_code = $2, last_error = NULL, locked_at = NULL,
+           delivered_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, statusCode]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Record a failed attempt: retry after delayMs, or mark failed when delayMs is null
+export async function markDeliveryFailed(
+  id: string,
+  error: string,
+  statusCode: number | null,
+  delayMs: number | null
+): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query(
+      `UPDATE webhook_deliveries
+       SET status = CASE WHEN $4::float8 IS NULL THEN 'failed' ELSE 'pending' END,
+           last_error = $2, last_status_code = $3, locked_at = NULL,
+           next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => COALESCE($4::float8, 0)),
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [id, error, statusCode, delayMs === null ? null : delayMs / 1000]
+    );
+  } finally {
+    client.release();
+  }
+}
+
+// Get a protocol's deliveries, newest first
+export async function getDeliveries(options: {
+  protocolUid: number;
+  status?: DeliveryStatus;
+  limit: number;
+  offset: number;
+}): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const client = await pool.connect();
+  try {
+    const params: (string | number)[] = [options.protocolUid];
+    let where = 'WHERE protocol_uid = $1';
+
+    if (options.status) {
+      params.push(options.status);
+      where += ` AND status = $${params.length}`;
+    }
+
+    const countResult = await client.query(`SELECT COUNT(*) as total FROM webhook_deliveries ${where}`, params);
+    const total = parseInt(countResult.rows[0].total, 10);
+
+    const result = await client.query(
+      `SELECT * FROM webhook_deliveries ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, options.limit, options.offset]
+    );
+
+    return {
+      deliveries: result.rows,
+      total,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+// Get one of a protocol's deliveries
+export async function getDelivery(protocolUid: number, id: string): Promise<WebhookDelivery | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      'SELECT * FROM webhook_deliveries WHERE id = $1 AND protocol_uid = $2',
+      [id, protocolUid]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
+
+// Replay a failed delivery: reset its attempts and queue it for immediate delivery
+// Returns null when the delivery is not in `failed` state
+export async function replayDelivery(protocolUid: number, id: string): Promise<WebhookDelivery | null> {
+  const client = await pool.connect();
+  try {
+    const result = await client.query(
+      `UPDATE webhook_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = CURRENT_TIMESTAMP, locked_at = NULL,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND protocol_uid = $2 AND status = 'failed'
+       RETURNING *`,
+      [id, protocolUid]
+    );
+    return result.rows[0] || null;
+  } finally {
+    client.release();
+  }
+}
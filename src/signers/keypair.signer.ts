@@ -0,0 +1,40 @@
+import type { Keypair, SignatureScheme } from '@mysten/sui/cryptography';
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui/keypairs/secp256r1';
+
+// Key schemes supported for the admin signer
+export const SUPPORTED_KEY_SCHEMES: SignatureScheme[] = ['ED25519', 'Secp256k1', 'Secp256r1'];
+
+// Build a keypair from a 32-byte secret key for the given scheme
+export function keypairFromSecretKey(secretKey: Uint8Array, scheme: SignatureScheme): Keypair {
+  switch (scheme) {
+    case 'ED25519':
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case 'Secp256k1':
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case 'Secp256r1':
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported key scheme ${scheme}. Expected one of: ${SUPPORTED_KEY_SCHEMES.join(', ')}`);
+  }
+}
+
+// Parse a private key string into a keypair
+// suiprivkey... strings carry their own scheme; raw hex (0x...) or base64 keys use `scheme`
+export function parsePrivateKey(privateKey: string, scheme: SignatureScheme = 'ED25519'): Keypair {
+  // Handle suiprivkey format
+  if (privateKey.startsWith('suiprivkey')) {
+    const parsed = decodeSuiPrivateKey(privateKey);
+    return keypairFromSecretKey(parsed.secretKey, parsed.scheme);
+  }
+
+  // Handle hex format
+  if (privateKey.startsWith('0x')) {
+    return keypairFromSecretKey(Buffer.from(privateKey.slice(2), 'hex'), scheme);
+  }
+
+  // Handle base64 format
+  return keypairFromSecretKey(Buffer.from(privateKey, 'base64'), scheme);
+}
@@ -0,0 +1,71 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import type { Keypair } from '@mysten/sui/cryptography';
+import { parsePrivateKey } from './keypair.signer';
+
+// Encrypted keystore file: the suiprivkey string sealed with AES-256-GCM under a scrypt-derived key
+export interface KeystoreFile {
+  version: 1;
+  address: string;
+  kdf: 'scrypt';
+  // scrypt cost parameters (N, r, p)
+  kdfParams: { n: number; r: number; p: number };
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const KDF_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+
+// Derive the AES key from the passphrase
+function deriveKey(passphrase: string, salt: Buffer, params: KeystoreFile['kdfParams']): Buffer {
+  return scryptSync(passphrase, salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: 128 * params.n * params.r * 2 });
+}
+
+// Encrypt a keypair into a keystore file
+export function encryptKeystore(keypair: Keypair, passphrase: string): KeystoreFile {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt, KDF_PARAMS), iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.getSecretKey(), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    address: keypair.toSuiAddress(),
+    kdf: 'scrypt',
+    kdfParams: KDF_PARAMS,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  };
+}
+
+// Load and decrypt a keystore file (a wrong passphrase fails the GCM tag check)
+export function loadKeystore(path: string, passphrase: string): Keypair {
+  const keystore = JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile;
+  if (keystore.version !== 1 || keystore.kdf !== 'scrypt') {
+    throw new Error(`Unsupported keystore format in ${path}`);
+  }
+
+  const key = deriveKey(passphrase, Buffer.from(keystore.salt, 'base64'), keystore.kdfParams);
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(keystore.tag, 'base64'));
+
+  let privateKey: string;
+  try {
+    privateKey = Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, 'base64')),
+      decipher.final(),
+    ]).toString('utf8');
+  } catch {
+    throw new Error(`Failed to decrypt keystore ${path}: wrong passphrase or corrupted file`);
+  }
+
+  const keypair = parsePrivateKey(privateKey);
+  if (keypair.toSuiAddress() !== keystore.address) {
+    throw new Error(`Keystore ${path} address does not match its key`);
+  }
+  return keypair;
+}
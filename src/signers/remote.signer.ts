@@ -0,0 +1,60 @@
+import { Signer, PublicKey, SignatureScheme, SIGNATURE_FLAG_TO_SCHEME } from '@mysten/sui/cryptography';
+import { publicKeyFromSuiBytes } from '@mysten/sui/verify';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Signer backed by a remote signing service (HSM proxy, KMS bridge or a local stand-in)
+// Protocol: POST <url>/sign { publicKey, digest } -> { signature }, with base64 values; the
+// digest is the 32-byte intent message hash and the signature is the raw scheme signature.
+// The public key is configured locally and every returned signature is verified against it,
+// so a misbehaving service cannot make the backend submit for a different account
+export class RemoteSigner extends Signer {
+  private readonly url: string;
+  private readonly token?: string;
+  private readonly publicKey: PublicKey;
+
+  constructor(options: { url: string; publicKey: string; token?: string }) {
+    super();
+    this.url = options.url.replace(/\/+$/, '');
+    this.token = options.token;
+    this.publicKey = publicKeyFromSuiBytes(options.publicKey);
+  }
+
+  async sign(bytes: Uint8Array): Promise<Uint8Array<ArrayBuffer>> {
+    const response = await fetch(`${this.url}/sign`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token && { Authorization: `Bearer ${this.token}` }),
+      },
+      body: JSON.stringify({
+        publicKey: this.publicKey.toSuiPublicKey(),
+        digest: Buffer.from(bytes).toString('base64'),
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Remote signer responded ${response.status}`);
+    }
+
+    const { signature } = (await response.json()) as { signature?: string };
+    if (typeof signature !== 'string') {
+      throw new Error('Remote signer returned no signature');
+    }
+
+    const signatureBytes = new Uint8Array(Buffer.from(signature, 'base64'));
+    if (!(await this.publicKey.verify(bytes, signatureBytes))) {
+      throw new Error('Remote signer returned a signature that does not verify against the configured public key');
+    }
+    return signatureBytes;
+  }
+
+  getKeyScheme(): SignatureScheme {
+    return SIGNATURE_FLAG_TO_SCHEME[this.publicKey.flag() as keyof typeof SIGNATURE_FLAG_TO_SCHEME];
+  }
+
+  getPublicKey(): PublicKey {
+    return this.publicKey;
+  }
+}
@@ -0,0 +1,20 @@
+// Escape one CSV field (RFC 4180)
+// Text starting with a formula character is prefixed with ' so spreadsheets don't evaluate it
+// (NFT names come from chain and are attacker-controlled)
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Format one CSV line (CRLF-terminated)
+export function csvRow(values: unknown[]): string {
+  return `${values.map(csvField).join(',')}\r\n`;
+}
@@ -0,0 +1,25 @@
+import type { SettlementCursor } from '../services/database.service';
+
+// Encode a listing cursor as an opaque base64url token
+export function encodeCursor(cursor: SettlementCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decode a listing cursor token, or null when it is malformed
+export function decodeCursor(token: string): SettlementCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (
+      !['id', 'timestamp', 'amount'].includes(cursor?.sort) ||
+      !['asc', 'desc'].includes(cursor.order) ||
+      typeof cursor.value !== 'string' ||
+      !/^-?\d+$/.test(cursor.value) ||
+      !Number.isInteger(cursor.id)
+    ) {
+      return null;
+    }
+    return { sort: cursor.sort, order: cursor.order, value: cursor.value, id: cursor.id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,99 @@
+import { JsonRpcError, SuiHTTPStatusError } from '@mysten/sui/client';
+import type { FieldError } from './schema';
+
+// Settlement error - carries the HTTP status and a stable machine-readable code
+// so controllers can surface service-level rejections without string-matching
+export class SettlementError extends Error {
+  readonly status: number;
+  readonly code: string;
+  // Extra fields merged into the error response body (e.g. the existing record or tx digest)
+  readonly details?: Record<string, unknown>;
+
+  constructor(status: number, code: string, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'SettlementError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Executing a transaction failed after it may have been submitted (e.g. the RPC timed out waiting
+// for effects): it can still land, so the chain must be checked before it is released or retried
+export class TransactionSubmissionError extends Error {
+  readonly cause: unknown;
+
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'TransactionSubmissionError';
+    this.cause = cause;
+  }
+}
+
+// Settlement lifecycle error codes (returned as `code` in API responses)
+export const SETTLEMENT_ERRORS = {
+  protocolNotRegistered: 'PROTOCOL_NOT_REGISTERED',
+  protocolNameMismatch: 'PROTOCOL_NAME_MISMATCH',
+  alreadySettled: 'ALREADY_SETTLED',
+  inProgress: 'SETTLEMENT_IN_PROGRESS',
+  reservationConflict: 'SETTLEMENT_CONFLICT',
+  idempotencyKeyMismatch: 'IDEMPOTENCY_KEY_MISMATCH',
+  invalidIdempotencyKey: 'INVALID_IDEMPOTENCY_KEY',
+  vaultInsufficientFunds: 'VAULT_INSUFFICIENT_FUNDS',
+  transactionFailed: 'TRANSACTION_FAILED',
+  batchTransactionFailed: 'BATCH_TRANSACTION_FAILED',
+  moveAbort: 'MOVE_ABORT',
+  rpcError: 'RPC_ERROR',
+  settlementUnconfirmed: 'SETTLEMENT_UNCONFIRMED',
+  validationError: 'VALIDATION_ERROR',
+  rateLimited: 'RATE_LIMITED',
+};
+
+// Request validation failure: 400 with every field error in `errors`
+export function validationError(errors: FieldError[]): SettlementError {
+  return new SettlementError(
+    400,
+    SETTLEMENT_ERRORS.validationError,
+    errors.map((error) => error.message).join('; '),
+    { errors }
+  );
+}
+
+// Network-level error codes worth retrying
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// Transient validator/RPC conditions (object locks and version races on owned objects)
+const RETRYABLE_RPC_MESSAGES = [
+  /not available for consumption/i,
+  /locked by (a )?(different|another) transaction/i,
+  /equivocat/i,
+  /too many requests/i,
+  /timed? ?out/i,
+];
+
+// Classify a thrown Sui RPC error as transient (safe to retry with backoff) or permanent
+// A transaction that may have been submitted is not retryable: its outcome has to be checked on-chain first
+export function isRetryableRpcError(error: unknown): boolean {
+  if (error instanceof SettlementError || error instanceof TransactionSubmissionError) {
+    return false;
+  }
+
+  if (error instanceof SuiHTTPStatusError) {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  if (error instanceof JsonRpcError) {
+    return RETRYABLE_RPC_MESSAGES.some((pattern) => pattern.test(error.message));
+  }
+
+  if (error instanceof Error) {
+    const cause = (error as { cause?: { code?: string } }).cause;
+    if (cause?.code && RETRYABLE_NETWORK_CODES.includes(cause.code)) {
+      return true;
+    }
+    // fetch() rejects with a bare TypeError on connection failures
+    return error.name === 'TypeError' && /fetch failed/i.test(error.message);
+  }
+
+  return false;
+}
@@ -0,0 +1,179 @@
+import { logger } from './logger';
+
+// Minimal Prometheus metric registry (text exposition format 0.0.4)
+// Metrics are module-level singletons; label values are kept per series in insertion order
+
+type Labels = Record<string, string | number>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+// Refreshes gauges whose value is read at scrape time (pool usage, balances)
+type Collector = () => Promise<void> | void;
+
+const metrics: Metric[] = [];
+const collectors: Collector[] = [];
+
+// Default latency buckets in seconds (RPC calls and DB queries)
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Escape a label value (backslash, double quote, newline)
+function escapeLabel(value: string | number): string {
+  return String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+// Render a label set as {a="1",b="2"} (empty string when there are none)
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+// Stable series key for a label set
+function seriesKey(labelNames: string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((name) => String(labels[name] ?? '')));
+}
+
+// Keep only the declared labels, in declaration order
+function pickLabels(labelNames: string[], labels: Labels): Labels {
+  const picked: Labels = {};
+  for (const name of labelNames) {
+    picked[name] = labels[name] ?? '';
+  }
+  return picked;
+}
+
+// Counter: monotonically increasing total
+export function createCounter(options: { name: string; help: string; labelNames?: string[] }) {
+  const labelNames = options.labelNames || [];
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  metrics.push({
+    name: options.name,
+    help: options.help,
+    type: 'counter',
+    render: () => [...series.values()].map(({ labels, value }) => `${options.name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    inc(labels: Labels = {}, value = 1): void {
+      const key = seriesKey(labelNames, labels);
+      const entry = series.get(key) || { labels: pickLabels(labelNames, labels), value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+// Gauge: value that goes up and down, set directly or from a collector
+export function createGauge(options: { name: string; help: string; labelNames?: string[] }) {
+  const labelNames = options.labelNames || [];
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  metrics.push({
+    name: options.name,
+    help: options.help,
+    type: 'gauge',
+    render: () => [...series.values()].map(({ labels, value }) => `${options.name}${formatLabels(labels)} ${value}`),
+  });
+
+  const inc = (labels: Labels = {}, value = 1): void => {
+    const key = seriesKey(labelNames, labels);
+    const entry = series.get(key) || { labels: pickLabels(labelNames, labels), value: 0 };
+    entry.value += value;
+    series.set(key, entry);
+  };
+
+  return {
+    set(labels: Labels, value: number): void {
+      series.set(seriesKey(labelNames, labels), { labels: pickLabels(labelNames, labels), value });
+    },
+    inc,
+    dec(labels: Labels = {}, value = 1): void {
+      inc(labels, -value);
+    },
+  };
+}
+
+// Histogram: observations counted into cumulative buckets, with sum and count
+export function createHistogram(options: { name: string; help: string; labelNames?: string[]; buckets?: number[] }) {
+  const labelNames = options.labelNames || [];
+  const buckets = [...(options.buckets || DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  metrics.push({
+    name: options.name,
+    help: options.help,
+    type: 'histogram',
+    render: () => {
+      const lines: string[] = [];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((bound, index) => {
+          lines.push(`${options.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`);
+        });
+        lines.push(`${options.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${options.name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${options.name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines;
+    },
+  });
+
+  const observe = (labels: Labels, value: number): void => {
+    const key = seriesKey(labelNames, labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { labels: pickLabels(labelNames, labels), counts: buckets.map(() => 0), sum: 0, count: 0 };
+      series.set(key, entry);
+    }
+    for (const [index, bound] of buckets.entries()) {
+      if (value <= bound) {
+        entry.counts[index]++;
+      }
+    }
+    entry.sum += value;
+    entry.count++;
+  };
+
+  return {
+    observe,
+    // Start a timer; calling the returned function records the elapsed seconds
+    startTimer(labels: Labels = {}): (extraLabels?: Labels) => void {
+      const start = process.hrtime.bigint();
+      return (extraLabels: Labels = {}) => {
+        observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - start) / 1e9);
+      };
+    },
+  };
+}
+
+// Register a collector run before every scrape
+export function registerCollector(collector: Collector): void {
+  collectors.push(collector);
+}
+
+// Run collectors and render every metric in the Prometheus text format
+// A failing collector is logged and its gauges keep their last value
+export async function renderMetrics(): Promise<string> {
+  await Promise.all(collectors.map(async (collector) => {
+    try {
+      await collector();
+    } catch (error) {
+      logger.error('Metrics collector failed', { error });
+    }
+  }));
+
+  const lines: string[] = [];
+  for (const metric of metrics) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,76 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { CONTRACT_CONFIG } from '../config/sui.config';
+import { SettlementError, SETTLEMENT_ERRORS } from './errors';
+
+// Move abort extracted from a Sui execution error
+export interface MoveAbort {
+  packageId: string;
+  module: string;
+  function: string | null;
+  abortCode: number;
+  // Index of the PTB command that aborted, when reported
+  command: number | null;
+}
+
+// Code of the EAlreadySettled abort: the NFT is settled on-chain, possibly by an earlier attempt
+export const ALREADY_SETTLED_ON_CHAIN = 'ALREADY_SETTLED_ON_CHAIN';
+
+// payment.move abort codes and their API mapping
+const PAYMENT_ABORTS: Record<number, { status: number; code: string; message: string }> = {
+  1: { status: 403, code: 'UNAUTHORIZED_CAP', message: 'PaymentCap is not authorized for this registry (EUnauthorized)' },
+  2: { status: 402, code: 'VAULT_INSUFFICIENT_FUNDS', message: 'Protocol vault has insufficient funds (EInsufficientFunds)' },
+  3: { status: 409, code: ALREADY_SETTLED_ON_CHAIN, message: 'DID NFT has already been settled on-chain (EAlreadySettled)' },
+  4: { status: 403, code: 'PROTOCOL_NOT_REGISTERED_ON_CHAIN', message: 'Protocol is not registered on-chain (EInvalidProtocol)' },
+};
+
+// Parse a MoveAbort from an execution status error or a thrown dry-run error, e.g.
+// MoveAbort(MoveLocation { module: ModuleId { address: ac87..., name: Identifier("payment") },
+//   function: 3, instruction: 12, function_name: Some("settle_nft_payment_with_vault") }, 3) in command 0
+export function parseMoveAbort(message: string): MoveAbort | null {
+  const abort = /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (0x)?([0-9a-fA-F]+), name: Identifier\("(\w+)"\) \},(.*?)\},\s*(\d+)\)/.exec(message);
+  if (!abort) {
+    return null;
+  }
+
+  const functionName = /function_name: Some\("(\w+)"\)/.exec(abort[4]);
+  const command = /in command (\d+)/.exec(message.slice(abort.index));
+
+  return {
+    packageId: normalizeSuiAddress(abort[2]),
+    module: abort[3],
+    function: functionName ? functionName[1] : null,
+    abortCode: parseInt(abort[5], 10),
+    command: command ? parseInt(command[1], 10) : null,
+  };
+}
+
+// Map a Sui execution error to a SettlementError with a stable code and status
+// Aborts outside payment.move (or unknown codes) become 500 MOVE_ABORT; non-abort errors return null
+export function moveAbortToError(message: string, details?: Record<string, unknown>): SettlementError | null {
+  const abort = parseMoveAbort(message);
+  if (!abort) {
+    return null;
+  }
+
+  const isPaymentModule = abort.packageId === normalizeSuiAddress(CONTRACT_CONFIG.packageId) && abort.module === 'payment';
+  const mapped = isPaymentModule ? PAYMENT_ABORTS[abort.abortCode] : undefined;
+  const abortDetails = {
+    ...details,
+    abort: {
+      module: abort.module,
+      function: abort.function,
+      abortCode: abort.abortCode,
+    },
+  };
+
+  if (!mapped) {
+    return new SettlementError(
+      500,
+      SETTLEMENT_ERRORS.moveAbort,
+      `Transaction aborted in ${abort.module}::${abort.function || 'unknown'} with code ${abort.abortCode}`,
+      abortDetails
+    );
+  }
+
+  return new SettlementError(mapped.status, mapped.code, mapped.message, abortDetails);
+}
@@ -0,0 +1,345 @@
+// Declarative request schemas: one definition validates a request (reporting every field error at once)
+// and produces the JSON Schema published in the OpenAPI document
+
+// One invalid field (`field` is a path such as `settlements[2].userAddress`)
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// JSON Schema object (OpenAPI 3.1 dialect)
+export type JsonSchema = Record<string, unknown>;
+
+interface ParseContext {
+  errors: FieldError[];
+  // Path and query values arrive as strings: integers and booleans are parsed from them
+  coerce: boolean;
+}
+
+export interface Schema<T> {
+  readonly optional: boolean;
+  // Parse a present (non-null) value; records an error and returns undefined when it is invalid
+  parse(value: unknown, field: string, context: ParseContext): T | undefined;
+  toJsonSchema(): JsonSchema;
+}
+
+// Schema of a field that may be omitted; with a default the parsed field is always present
+export interface OptionalSchema<T, HasDefault extends boolean = boolean> extends Schema<T> {
+  readonly optional: true;
+  readonly hasDefault: HasDefault;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown, false> ? K : never }[keyof S];
+
+type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+// Documentation shared by every schema
+interface SchemaDocs {
+  description?: string;
+  example?: unknown;
+}
+
+function docs(options: SchemaDocs): JsonSchema {
+  return {
+    ...(options.description && { description: options.description }),
+    ...(options.example !== undefined && { examples: [options.example] }),
+  };
+}
+
+function invalid(context: ParseContext, field: string, expected: string): undefined {
+  context.errors.push({ field, message: `Invalid ${field}. ${expected}` });
+  return undefined;
+}
+
+// String, optionally constrained by a pattern, length or a custom check (returns an error message or null)
+// `expected` describes the accepted format in error messages
+export function string(options: SchemaDocs & {
+  pattern?: RegExp;
+  minLength?: number;
+  maxLength?: number;
+  format?: string;
+  expected?: string;
+  check?: (value: string) => string | null;
+} = {}): Schema<string> {
+  const expected = options.expected || 'Expected string';
+
+  return {
+    optional: false,
+    parse(value, field, context) {
+      if (typeof value !== 'string') {
+        return invalid(context, field, 'Expected string');
+      }
+      if (
+        (options.minLength !== undefined && value.length < options.minLength) ||
+        (options.maxLength !== undefined && value.length > options.maxLength) ||
+        (options.pattern && !options.pattern.test(value))
+      ) {
+        return invalid(context, field, expected);
+      }
+      const checkError = options.check?.(value);
+      if (checkError) {
+        return invalid(context, field, checkError);
+      }
+      return value;
+    },
+    toJsonSchema: () => ({
+      type: 'string',
+      ...(options.pattern && { pattern: options.pattern.source }),
+      ...(options.minLength !== undefined && { minLength: options.minLength }),
+      ...(options.maxLength !== undefined && { maxLength: options.maxLength }),
+      ...(options.format && { format: options.format }),
+      ...docs(options),
+    }),
+  };
+}
+
+// Describe an integer range for error messages
+function integerRange(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) {
+    return `Expected integer between ${min} and ${max}`;
+  }
+  if (min === 0) {
+    return 'Expected non-negative integer';
+  }
+  if (min === 1) {
+    return 'Expected positive integer';
+  }
+  if (min !== undefined) {
+    return `Expected integer >= ${min}`;
+  }
+  if (max !== undefined) {
+    return `Expected integer <= ${max}`;
+  }
+  return 'Expected integer';
+}
+
+// Safe integer (parsed from decimal strings in path and query params)
+export function integer(options: SchemaDocs & { min?: number; max?: number } = {}): Schema<number> {
+  const expected = integerRange(options.min, options.max);
+
+  return {
+    optional: false,
+    parse(value, field, context) {
+      const number = context.coerce && typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : value;
+      if (
+        typeof number !== 'number' ||
+        !Number.isSafeInteger(number) ||
+        (options.min !== undefined && number < options.min) ||
+        (options.max !== undefined && number > options.max)
+      ) {
+        return invalid(context, field, expected);
+      }
+      return number;
+    },
+    toJsonSchema: () => ({
+      type: 'integer',
+      ...(options.min !== undefined && { minimum: options.min }),
+      ...(options.max !== undefined && { maximum: options.max }),
+      ...docs(options),
+    }),
+  };
+}
+
+// Boolean (`true`/`false` strings in path and query params)
+export function boolean(options: SchemaDocs = {}): Schema<boolean> {
+  return {
+    optional: false,
+    parse(value, field, context) {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (context.coerce && (value === 'true' || value === 'false')) {
+        return value === 'true';
+      }
+      return invalid(context, field, 'Expected true or false');
+    },
+    toJsonSchema: () => ({ type: 'boolean', ...docs(options) }),
+  };
+}
+
+// One of a fixed set of strings
+export function enumeration<T extends string>(values: readonly T[], options: SchemaDocs = {}): Schema<T> {
+  return {
+    optional: false,
+    parse(value, field, context) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        return invalid(context, field, `Expected ${values.join(', ')}`);
+      }
+      return value as T;
+    },
+    toJsonSchema: () => ({ type: 'string', enum: [...values], ...docs(options) }),
+  };
+}
+
+// Point in time given as Unix milliseconds or an ISO 8601 date, parsed to Unix milliseconds
+export function timestamp(options: SchemaDocs = {}): Schema<number> {
+  return {
+    optional: false,
+    parse(value, field, context) {
+      const parsed = typeof value === 'number'
+        ? value
+        : typeof value === 'string'
+          ? (/^\d+$/.test(value) ? Number(value) : Date.parse(value))
+          : NaN;
+      if (!Number.isFinite(parsed)) {
+        return invalid(context, field, 'Expected Unix milliseconds or ISO 8601 date');
+      }
+      return parsed;
+    },
+    toJsonSchema: () => ({
+      type: 'string',
+      description: options.description || 'Unix milliseconds or ISO 8601 date',
+      examples: [options.example ?? '2025-01-01T00:00:00Z'],
+    }),
+  };
+}
+
+// Any value, documented with the given JSON Schema (validated by the handler itself)
+export function unknownValue(jsonSchema: JsonSchema = {}): Schema<unknown> {
+  return {
+    optional: false,
+    parse: (value) => value,
+    toJsonSchema: () => jsonSchema,
+  };
+}
+
+// Array of items
+export function array<T>(
+  items: Schema<T>,
+  options: SchemaDocs & { minItems?: number; maxItems?: number } = {}
+): Schema<T[]> {
+  return {
+    optional: false,
+    parse(value, field, context) {
+      if (!Array.isArray(value)) {
+        return invalid(context, field, 'Expected array');
+      }
+      if (options.minItems !== undefined && value.length < options.minItems) {
+        return invalid(context, field, `Expected at least ${options.minItems} item(s)`);
+      }
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        return invalid(context, field, `Expected at most ${options.maxItems} item(s)`);
+      }
+
+      const errorCount = context.errors.length;
+      const parsed = value.map((item, index) => items.parse(item, `${field}[${index}]`, context));
+      return context.errors.length === errorCount ? (parsed as T[]) : undefined;
+    },
+    toJsonSchema: () => ({
+      type: 'array',
+      items: items.toJsonSchema(),
+      ...(options.minItems !== undefined && { minItems: options.minItems }),
+      ...(options.maxItems !== undefined && { maxItems: options.maxItems }),
+      ...docs(options),
+    }),
+  };
+}
+
+// Object with known fields; unknown fields are dropped
+// `check` validates combinations of fields once every field is valid
+export function object<S extends Shape>(
+  shape: S,
+  options: SchemaDocs & { check?: (value: ObjectOutput<S>) => FieldError | null } = {}
+): Schema<ObjectOutput<S>> {
+  return {
+    optional: false,
+    parse(value, field, context) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return invalid(context, field || 'body', 'Expected object');
+      }
+
+      const errorCount = context.errors.length;
+      const result: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const keyField = field ? `${field}.${key}` : key;
+        const fieldValue = (value as Record<string, unknown>)[key];
+
+        if (fieldValue === undefined || fieldValue === null) {
+          if (schema.optional) {
+            const defaultValue = schema.parse(undefined, keyField, context);
+            if (defaultValue !== undefined) {
+              result[key] = defaultValue;
+            }
+          } else {
+            context.errors.push({ field: keyField, message: `${keyField} is required` });
+          }
+          continue;
+        }
+
+        const parsed = schema.parse(fieldValue, keyField, context);
+        if (parsed !== undefined) {
+          result[key] = parsed;
+        }
+      }
+
+      if (context.errors.length !== errorCount) {
+        return undefined;
+      }
+
+      const output = result as ObjectOutput<S>;
+      const checkError = options.check?.(output);
+      if (checkError) {
+        context.errors.push({ ...checkError, field: field ? `${field}.${checkError.field}` : checkError.field });
+        return undefined;
+      }
+      return output;
+    },
+    toJsonSchema: () => {
+      const required = Object.keys(shape).filter((key) => !shape[key].optional);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.toJsonSchema()])),
+        ...(required.length > 0 && { required }),
+        ...docs(options),
+      };
+    },
+  };
+}
+
+// Field that may be omitted (or null); the default, if any, is used in its place
+export function optional<T>(schema: Schema<T>): OptionalSchema<T | undefined, false>;
+export function optional<T>(schema: Schema<T>, defaultValue: T): OptionalSchema<T, true>;
+export function optional<T>(schema: Schema<T>, defaultValue?: T): OptionalSchema<T | undefined> {
+  return {
+    optional: true,
+    hasDefault: defaultValue !== undefined,
+    parse: (value, field, context) => (value === undefined || value === null
+      ? defaultValue
+      : schema.parse(value, field, context)),
+    toJsonSchema: () => ({
+      ...schema.toJsonSchema(),
+      ...(defaultValue !== undefined && { default: defaultValue }),
+    }),
+  };
+}
+
+// Validate a value against a schema
+// Returns the parsed value (defaults applied, unknown fields dropped), or every field error
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown,
+  options: { coerce?: boolean } = {}
+): { value: T } | { errors: FieldError[] } {
+  const context: ParseContext = { errors: [], coerce: options.coerce ?? false };
+
+  if (value === undefined || value === null) {
+    if (schema.optional) {
+      return { value: schema.parse(undefined, '', context) as T };
+    }
+    value = {};
+  }
+
+  const parsed = schema.parse(value, '', context);
+  if (context.errors.length > 0 || parsed === undefined) {
+    return { errors: context.errors };
+  }
+  return { value: parsed };
+}
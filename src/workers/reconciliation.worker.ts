@@ -0,0 +1,51 @@
+import { runReconciliation } from '../services/reconciliation.service';
+import { logger } from '../utils/logger';
+
+// Worker configuration
+const RECONCILIATION_INTERVAL_MS = parseInt(process.env.RECONCILIATION_INTERVAL_MS || '60000', 10);
+
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// Run one reconciliation pass over new NftSettled events
+async function reconcile(): Promise<void> {
+  try {
+    const run = await runReconciliation();
+    if (run.eventsIndexed > 0) {
+      logger.info('Reconciliation pass complete', { ...run });
+    }
+  } catch (error) {
+    logger.error('Reconciliation worker error', { error });
+  }
+}
+
+// Start the chain-to-database reconciliation worker
+export function startReconciliationWorker(): void {
+  if (timer) {
+    return;
+  }
+
+  const run = () => {
+    if (!currentRun) {
+      currentRun = reconcile().finally(() => {
+        currentRun = null;
+      });
+    }
+  };
+
+  timer = setInterval(run, RECONCILIATION_INTERVAL_MS);
+  run();
+
+  logger.info('Reconciliation worker started', { intervalMs: RECONCILIATION_INTERVAL_MS });
+}
+
+// Stop the worker and wait for an in-flight pass to finish
+export async function stopReconciliationWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentRun) {
+    await currentRun;
+  }
+}
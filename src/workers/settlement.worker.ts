@@ -0,0 +1,149 @@
+import { getSettlementById, failSettlement, SettlementRecord } from '../services/database.service';
+import {
+  executeSettlement,
+  notifySettlementFailed,
+  confirmSettlement,
+  isAwaitingConfirmation,
+} from '../services/settlement.service';
+import {
+  claimNextJob,
+  markJobSucceeded,
+  markJobRetry,
+  markJobFailed,
+  SettlementJob,
+} from '../services/job.service';
+import { SettlementError, SETTLEMENT_ERRORS, isRetryableRpcError } from '../utils/errors';
+import { logger, withLogContext } from '../utils/logger';
+
+// Worker configuration
+const POLL_INTERVAL_MS = parseInt(process.env.SETTLEMENT_WORKER_INTERVAL_MS || '1000', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.SETTLEMENT_RETRY_BASE_DELAY_MS || '2000', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env.SETTLEMENT_RETRY_MAX_DELAY_MS || '60000', 10);
+
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// Exponential backoff: base * 2^(attempt - 1), capped
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Execute a single claimed job
+async function processJob(job: SettlementJob): Promise<void> {
+  const settlement = await getSettlementById(job.settlement_id);
+
+  // Log lines and attempts carry the ID of the request that queued the settlement
+  await withLogContext({ requestId: settlement?.request_id, jobId: job.id }, () => runJob(job, settlement));
+}
+
+// Settle the job's reservation, then succeed, retry or fail the job
+async function runJob(job: SettlementJob, settlement: SettlementRecord | null): Promise<void> {
+  if (!settlement) {
+    await markJobFailed(job.id, `Settlement ${job.settlement_id} not found`);
+    return;
+  }
+
+  // A previous run may have died after updating the settlement but before updating the job
+  if (settlement.status === 'success') {
+    await markJobSucceeded(job.id, settlement.payment_tx_digest!);
+    return;
+  }
+
+  if (settlement.status === 'failed') {
+    await markJobFailed(job.id, 'Settlement reservation was released', settlement.payment_tx_digest);
+    return;
+  }
+
+  // A previous attempt may have landed even though it reported an error: look it up before signing again
+  if (job.attempts > 1) {
+    const confirmed = await confirmSettlement(settlement);
+    if (confirmed) {
+      logger.info('Settlement job confirmed on-chain', { digest: confirmed.payment_tx_digest });
+      await markJobSucceeded(job.id, confirmed.payment_tx_digest!);
+      return;
+    }
+  }
+
+  logger.info('Processing settlement job', { attempt: job.attempts, maxAttempts: job.max_attempts });
+
+  try {
+    const completed = await executeSettlement(settlement);
+    await markJobSucceeded(job.id, completed.payment_tx_digest!);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    // The transaction may have landed: check again later; once attempts run out the reservation
+    // stays pending for the reconciliation worker
+    if (isAwaitingConfirmation(error)) {
+      if (job.attempts < job.max_attempts) {
+        const delay = retryDelay(job.attempts);
+        logger.warn('Settlement job outcome unconfirmed, checking again', { retryInMs: delay, error: message });
+        await markJobRetry(job.id, message, delay);
+      } else {
+        await markJobFailed(job.id, message);
+      }
+      return;
+    }
+
+    // On-chain failures already released the reservation in executeSettlement
+    if (error instanceof SettlementError) {
+      await markJobFailed(job.id, message, error.details?.digest as string | undefined);
+      return;
+    }
+
+    if (isRetryableRpcError(error) && job.attempts < job.max_attempts) {
+      const delay = retryDelay(job.attempts);
+      logger.warn('Settlement job failed, retrying', { retryInMs: delay, error: message });
+      await markJobRetry(job.id, message, delay);
+      return;
+    }
+
+    logger.error('Settlement job failed permanently', { error });
+    await failSettlement(settlement.id!);
+    await markJobFailed(job.id, message);
+    await notifySettlementFailed(settlement, SETTLEMENT_ERRORS.rpcError, message);
+  }
+}
+
+// Drain all due jobs one at a time (settlements share the admin PaymentCap)
+async function runOnce(): Promise<void> {
+  try {
+    while (timer) {
+      const job = await claimNextJob();
+      if (!job) {
+        break;
+      }
+      await processJob(job);
+    }
+  } catch (error) {
+    logger.error('Settlement worker error', { error });
+  }
+}
+
+// Start polling the settlement job queue
+export function startSettlementWorker(): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(() => {
+    if (!currentRun) {
+      currentRun = runOnce().finally(() => {
+        currentRun = null;
+      });
+    }
+  }, POLL_INTERVAL_MS);
+
+  logger.info('Settlement worker started', { intervalMs: POLL_INTERVAL_MS });
+}
+
+// Stop polling and wait for the in-flight job to finish
+export async function stopSettlementWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentRun) {
+    await currentRun;
+  }
+}
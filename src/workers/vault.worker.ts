@@ -0,0 +1,124 @@
+import { getAllProtocols } from '../services/protocol.service';
+import { getVaultStatus, VaultStatus } from '../services/vault.service';
+import { enqueueWebhookEvent } from '../services/webhook.service';
+import { logger } from '../utils/logger';
+
+// Monitor configuration
+const MONITOR_INTERVAL_MS = parseInt(process.env.VAULT_MONITOR_INTERVAL_MS || '60000', 10);
+const ALERT_WEBHOOK_URL = process.env.VAULT_ALERT_WEBHOOK_URL;
+// A hung alert endpoint must not stall the monitor or shutdown
+const ALERT_TIMEOUT_MS = parseInt(process.env.VAULT_ALERT_TIMEOUT_MS || '10000', 10);
+
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// Protocols currently below the minimum - alert once per drop, again only after recovering
+const lowVaults = new Set<number>();
+
+// Fire a low-balance alert (log, the protocol's own webhooks and the optional operator webhook)
+async function sendLowBalanceAlert(vault: VaultStatus): Promise<void> {
+  logger.warn('Vault low balance', {
+    protocolUid: vault.protocolUid,
+    protocolName: vault.protocolName,
+    balance: vault.balance,
+    minVaultAmount: vault.minVaultAmount,
+    remainingSettlements: vault.remainingSettlements,
+  });
+
+  await enqueueWebhookEvent(vault.protocolUid, 'vault.low_balance', {
+    protocolUid: vault.protocolUid,
+    protocolName: vault.protocolName,
+    vaultObjectId: vault.vaultObjectId,
+    balance: vault.balance.toString(),
+    minVaultAmount: vault.minVaultAmount.toString(),
+    remainingSettlements: vault.remainingSettlements,
+  });
+
+  if (!ALERT_WEBHOOK_URL) {
+    return;
+  }
+
+  try {
+    const response = await fetch(ALERT_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(ALERT_TIMEOUT_MS),
+      body: JSON.stringify({
+        event: 'vault.low_balance',
+        protocolUid: vault.protocolUid,
+        protocolName: vault.protocolName,
+        vaultObjectId: vault.vaultObjectId,
+        balance: vault.balance.toString(),
+        minVaultAmount: vault.minVaultAmount.toString(),
+        remainingSettlements: vault.remainingSettlements,
+        timestamp: new Date().toISOString(),
+      }),
+    });
+    if (!response.ok) {
+      logger.error('Vault alert webhook responded with an error', { status: response.status });
+    }
+  } catch (error) {
+    logger.error('Vault alert webhook failed', { error });
+  }
+}
+
+// Check every registered protocol's vault once
+async function checkVaults(): Promise<void> {
+  try {
+    const protocols = await getAllProtocols();
+
+    for (const protocol of protocols) {
+      // Mark-only protocols never draw on their vault
+      if (protocol.settlement_mode !== 'vault') {
+        continue;
+      }
+
+      try {
+        const vault = await getVaultStatus(protocol);
+
+        if (vault.belowMinimum && !lowVaults.has(vault.protocolUid)) {
+          lowVaults.add(vault.protocolUid);
+          await sendLowBalanceAlert(vault);
+        } else if (!vault.belowMinimum && lowVaults.has(vault.protocolUid)) {
+          lowVaults.delete(vault.protocolUid);
+          logger.info('Vault back above minimum', { protocolUid: vault.protocolUid, protocolName: vault.protocolName });
+        }
+      } catch (error) {
+        logger.error('Failed to check vault', { protocolUid: protocol.protocol_uid, error });
+      }
+    }
+  } catch (error) {
+    logger.error('Vault monitor error', { error });
+  }
+}
+
+// Start the background vault balance monitor
+export function startVaultMonitor(): void {
+  if (timer) {
+    return;
+  }
+
+  const run = () => {
+    if (!currentRun) {
+      currentRun = checkVaults().finally(() => {
+        currentRun = null;
+      });
+    }
+  };
+
+  timer = setInterval(run, MONITOR_INTERVAL_MS);
+  run();
+
+  logger.info('Vault monitor started', { intervalMs: MONITOR_INTERVAL_MS });
+}
+
+// Stop the monitor and wait for an in-flight check to finish
+export async function stopVaultMonitor(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentRun) {
+    await currentRun;
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  checkWebhookTarget,
+  claimNextDelivery,
+  markDeliverySucceeded,
+  markDeliveryFailed,
+  signWebhookPayload,
+  ClaimedDelivery,
+} from '../services/webhook.service';
+import { logger } from '../utils/logger';
+
+// Worker configuration
+const POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '1000', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '5000', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000', 10);
+const REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// Exponential backoff: base * 2^(attempt - 1), capped
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// POST a claimed delivery to its endpoint
+async function deliver(delivery: ClaimedDelivery): Promise<void> {
+  if (!delivery.webhook_active) {
+    await markDeliveryFailed(delivery.id, 'Webhook was deactivated', null, null);
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  let statusCode: number | null = null;
+  let error: string;
+
+  try {
+    // Checked on every attempt: the host may resolve elsewhere than when the webhook was registered
+    const refused = await checkWebhookTarget(delivery.url);
+    if (refused) {
+      throw new Error(refused);
+    }
+
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-SuiVerify-Event': delivery.event,
+        'X-SuiVerify-Delivery': delivery.id,
+        'X-SuiVerify-Timestamp': timestamp,
+        'X-SuiVerify-Signature': signWebhookPayload(delivery.secret, timestamp, body),
+      },
+      body,
+      // A redirect could point at an address the target check refused; 3xx counts as a failure
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (response.ok) {
+      await markDeliverySucceeded(delivery.id, response.status);
+      return;
+    }
+
+    statusCode = response.status;
+    error = `Endpoint responded ${response.status}`;
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+  }
+
+  if (delivery.attempts < delivery.max_attempts) {
+    const delay = retryDelay(delivery.attempts);
+    logger.warn('Webhook delivery failed, retrying', { deliveryId: delivery.id, retryInMs: delay, error });
+    await markDeliveryFailed(delivery.id, error, statusCode, delay);
+    return;
+  }
+
+  logger.error('Webhook delivery failed permanently', { deliveryId: delivery.id, attempts: delivery.attempts, error });
+  await markDeliveryFailed(delivery.id, error, statusCode, null);
+}
+
+// Drain all due deliveries one at a time
+async function runOnce(): Promise<void> {
+  try {
+    while (timer) {
+      const delivery = await claimNextDelivery();
+      if (!delivery) {
+        break;
+      }
+      await deliver(delivery);
+    }
+  } catch (error) {
+    logger.error('Webhook worker error', { error });
+  }
+}
+
+// Start polling the webhook delivery log
+export function startWebhookWorker(): void {
+  if (timer) {
+    return;
+  }
+
+  timer = setInterval(() => {
+    if (!currentRun) {
+      currentRun = runOnce().finally(() => {
+        currentRun = null;
+      });
+    }
+  }, POLL_INTERVAL_MS);
+
+  logger.info('Webhook worker started', { intervalMs: POLL_INTERVAL_MS });
+}
+
+// Stop polling and wait for the in-flight delivery to finish
+export async function stopWebhookWorker(): Promise<void> {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (currentRun) {
+    await currentRun;
+  }
+}
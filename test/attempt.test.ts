@@ -0,0 +1,65 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestDatabase } from './helpers/database';
+import { getAttempts, recordAttempt } from '../src/services/attempt.service';
+import { pool } from '../src/services/database.service';
+import { logger, withLogContext } from '../src/utils/logger';
+
+const NFT_A = `0x${'a'.repeat(64)}`;
+const NFT_B = `0x${'b'.repeat(64)}`;
+const USER = `0x${'ab'.repeat(32)}`;
+
+describe('settlement attempts', () => {
+  before(async () => {
+    await createTestDatabase();
+    await recordAttempt({ did_verified_id: NFT_A, user_address: USER, status: 'rejected', error_code: 'DID_NFT_NOT_OWNED' });
+    await recordAttempt({ did_verified_id: NFT_A, user_address: USER, protocol_uid: 1000, status: 'failed', abort_code: 3 });
+    await recordAttempt({
+      settlement_id: 1,
+      did_verified_id: NFT_B,
+      user_address: USER,
+      protocol_uid: 1000,
+      status: 'success',
+      payment_tx_digest: 'AttemptDigest',
+      gas_used: '1997880',
+      request_id: 'explicit-request',
+    });
+  });
+
+  it('lists attempts newest first with the total', async () => {
+    const { attempts, total } = await getAttempts({ limit: 2, offset: 0 });
+
+    assert.equal(total, 3);
+    assert.deepEqual(attempts.map((attempt) => attempt.status), ['success', 'failed']);
+    assert.equal(attempts[0].gas_used, '1997880');
+    assert.equal(attempts[0].request_id, 'explicit-request');
+  });
+
+  it('filters by DID NFT, protocol and status', async () => {
+    assert.equal((await getAttempts({ didVerifiedId: NFT_A, limit: 10, offset: 0 })).total, 2);
+    assert.equal((await getAttempts({ protocolUid: 1000, limit: 10, offset: 0 })).total, 2);
+
+    const { attempts } = await getAttempts({ didVerifiedId: NFT_A, status: 'rejected', limit: 10, offset: 0 });
+    assert.deepEqual(attempts.map((attempt) => attempt.error_code), ['DID_NFT_NOT_OWNED']);
+  });
+
+  it('stamps the request id of the current log context', async () => {
+    await withLogContext({ requestId: 'context-request' }, () =>
+      recordAttempt({ did_verified_id: `0x${'c'.repeat(64)}`, status: 'rejected' })
+    );
+
+    const { attempts } = await getAttempts({ didVerifiedId: `0x${'c'.repeat(64)}`, limit: 1, offset: 0 });
+    assert.equal(attempts[0].request_id, 'context-request');
+  });
+
+  it('logs instead of throwing when the attempt cannot be stored', async (t) => {
+    t.mock.method(pool, 'connect', async () => {
+      throw new Error('connection refused');
+    });
+    const error = t.mock.method(logger, 'error', () => {});
+
+    await recordAttempt({ status: 'rejected' });
+
+    assert.equal(error.mock.calls[0].arguments[0], 'Failed to record settlement attempt');
+  });
+});
@@ -0,0 +1,108 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createTestDatabase } from './helpers/database';
+import {
+  authenticateRequest,
+  computeSignature,
+  issueCredential,
+  revokeCredential,
+  rotateCredential,
+  SignedRequest,
+} from '../src/services/credential.service';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL_UID = CONTRACT_CONFIG.protocols[0].uid;
+
+// Request signed the way a protocol backend signs it
+function signedRequest(keyId: string, secret: string, overrides: Partial<SignedRequest> = {}): SignedRequest {
+  const request = {
+    keyId,
+    timestamp: Math.floor(Date.now() / 1000).toString(),
+    method: 'POST',
+    path: '/api/settlement/settle?async=true',
+    rawBody: Buffer.from(JSON.stringify({ didVerifiedId: `0x${'1'.repeat(64)}`, nonce: Math.random() })),
+    ...overrides,
+  };
+  const signature = computeSignature(secret, request.timestamp, request.method, request.path, request.rawBody);
+  return { ...request, signature };
+}
+
+// Code of the SettlementError an authentication attempt is rejected with
+async function rejectionCode(request: SignedRequest): Promise<string> {
+  const error = await authenticateRequest(request).then(() => null, (error) => error);
+  assert.ok(error, 'request was accepted');
+  assert.equal(error.status, 401);
+  return error.code;
+}
+
+describe('computeSignature', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<METHOD>.<path>.<body>"', () => {
+    const body = Buffer.from('{"a":1}');
+    const expected = createHmac('sha256', 'secret').update('1700000000.POST./api/settlement/settle.{"a":1}').digest('hex');
+
+    assert.equal(computeSignature('secret', '1700000000', 'post', '/api/settlement/settle', body), expected);
+  });
+});
+
+describe('authenticateRequest', () => {
+  let keyId: string;
+  let secret: string;
+
+  before(async () => {
+    await createTestDatabase();
+    const issued = await issueCredential(PROTOCOL_UID);
+    keyId = issued.credential.key_id;
+    secret = issued.secret;
+  });
+
+  it("accepts a correctly signed request and returns the key's protocol", async () => {
+    const credential = await authenticateRequest(signedRequest(keyId, secret));
+
+    assert.equal(credential.key_id, keyId);
+    assert.equal(credential.protocol_uid, PROTOCOL_UID);
+  });
+
+  it('accepts an upper-case hex signature', async () => {
+    const request = signedRequest(keyId, secret);
+    await authenticateRequest({ ...request, signature: request.signature.toUpperCase() });
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    assert.equal(await rejectionCode(signedRequest(keyId, 'sk_wrong')), 'INVALID_SIGNATURE');
+  });
+
+  it('rejects a request altered after signing', async () => {
+    const request = signedRequest(keyId, secret);
+
+    assert.equal(await rejectionCode({ ...request, rawBody: Buffer.from('{}') }), 'INVALID_SIGNATURE');
+    assert.equal(await rejectionCode({ ...request, path: '/api/settlement/settle' }), 'INVALID_SIGNATURE');
+    assert.equal(await rejectionCode({ ...request, method: 'PUT' }), 'INVALID_SIGNATURE');
+  });
+
+  it('accepts each signature only once', async () => {
+    const request = signedRequest(keyId, secret);
+    await authenticateRequest(request);
+
+    assert.equal(await rejectionCode(request), 'REPLAYED_REQUEST');
+  });
+
+  it('rejects timestamps outside the replay window', async () => {
+    const stale = Math.floor(Date.now() / 1000 - 3600).toString();
+
+    assert.equal(await rejectionCode(signedRequest(keyId, secret, { timestamp: stale })), 'INVALID_TIMESTAMP');
+    assert.equal(await rejectionCode(signedRequest(keyId, secret, { timestamp: 'soon' })), 'INVALID_TIMESTAMP');
+  });
+
+  it('rejects unknown, rotated-out and revoked keys', async () => {
+    assert.equal(await rejectionCode(signedRequest('pk_unknown', secret)), 'INVALID_API_KEY');
+
+    const rotated = await issueCredential(PROTOCOL_UID);
+    await rotateCredential(rotated.credential.key_id, 0);
+    assert.equal(await rejectionCode(signedRequest(rotated.credential.key_id, rotated.secret)), 'API_KEY_EXPIRED');
+
+    const revoked = await issueCredential(PROTOCOL_UID);
+    await revokeCredential(revoked.credential.key_id);
+    assert.equal(await rejectionCode(signedRequest(revoked.credential.key_id, revoked.secret)), 'API_KEY_REVOKED');
+  });
+});
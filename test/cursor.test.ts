@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor } from '../src/utils/cursor';
+import type { SettlementCursor } from '../src/services/database.service';
+
+// Token for an arbitrary JSON value, encoded the way encodeCursor does
+function tokenFor(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('settlement cursors', () => {
+  it('round-trip through an opaque url-safe token', () => {
+    const cursor: SettlementCursor = { sort: 'amount', order: 'desc', value: '-5000000', id: 42 };
+    const token = encodeCursor(cursor);
+
+    assert.match(token, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(decodeCursor(token), cursor);
+  });
+
+  it('drop unknown fields when decoding', () => {
+    assert.deepEqual(
+      decodeCursor(tokenFor({ sort: 'id', order: 'asc', value: '7', id: 7, extra: true })),
+      { sort: 'id', order: 'asc', value: '7', id: 7 }
+    );
+  });
+
+  it('decode malformed tokens as null', () => {
+    const valid = { sort: 'timestamp', order: 'asc', value: '1700000000000', id: 1 };
+
+    for (const token of [
+      'not a token',
+      tokenFor('cursor'),
+      tokenFor(null),
+      tokenFor({ ...valid, sort: 'status' }),
+      tokenFor({ ...valid, order: 'up' }),
+      tokenFor({ ...valid, value: 1700000000000 }),
+      tokenFor({ ...valid, value: '1.5' }),
+      tokenFor({ ...valid, id: '1' }),
+    ]) {
+      assert.equal(decodeCursor(token), null, token);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParallelTransactionExecutor, Transaction } from '@mysten/sui/transactions';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { executeCapTransaction, getExecutorStats } from '../src/services/executor.service';
+import { TransactionSubmissionError } from '../src/utils/errors';
+
+type Execution = { resolve: (data: SuiTransactionBlockResponse) => void; reject: (error: Error) => void };
+
+// Transactions build offline; executions wait until the test settles them, in the order they started
+function mockExecutor(t: TestContext, build: () => Promise<Uint8Array> = async () => new Uint8Array()): Execution[] {
+  const executions: Execution[] = [];
+  t.mock.method(Transaction.prototype, 'build', build);
+  t.mock.method(ParallelTransactionExecutor.prototype, 'executeTransaction', () =>
+    new Promise((resolve, reject) => {
+      executions.push({ resolve: (data) => resolve({ digest: data.digest, effects: '', data }), reject });
+    })
+  );
+  return executions;
+}
+
+// Executed transaction that succeeded on-chain
+function succeeded(digest: string): SuiTransactionBlockResponse {
+  return { digest, effects: { status: { status: 'success' } } } as SuiTransactionBlockResponse;
+}
+
+// Let queued promise callbacks run
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('executeCapTransaction', () => {
+  it('executes PaymentCap transactions one at a time, in submission order', async (t) => {
+    const executions = mockExecutor(t);
+    const before = getExecutorStats();
+
+    const first = executeCapTransaction(() => new Transaction());
+    const second = executeCapTransaction(() => new Transaction());
+    await settle();
+
+    assert.equal(executions.length, 1);
+    assert.deepEqual(getExecutorStats(), { ...before, queueDepth: 1, inFlight: 1 });
+
+    executions[0].resolve(succeeded('FirstDigest'));
+    assert.equal((await first).digest, 'FirstDigest');
+    await settle();
+    assert.equal(executions.length, 2);
+
+    executions[1].resolve(succeeded('SecondDigest'));
+    assert.equal((await second).digest, 'SecondDigest');
+    assert.deepEqual(getExecutorStats(), { ...before, executed: before.executed + 2 });
+  });
+
+  it('throws dry-run errors as is, without queueing', async (t) => {
+    const executions = mockExecutor(t, async () => {
+      throw new Error('MoveAbort in command 0');
+    });
+
+    await assert.rejects(executeCapTransaction(() => new Transaction()), (error: Error) => {
+      assert.ok(!(error instanceof TransactionSubmissionError));
+      assert.equal(error.message, 'MoveAbort in command 0');
+      return true;
+    });
+    assert.equal(executions.length, 0);
+  });
+
+  it('wraps execution errors and keeps the queue going', async (t) => {
+    const executions = mockExecutor(t);
+    const before = getExecutorStats();
+
+    const failing = executeCapTransaction(() => new Transaction());
+    const next = executeCapTransaction(() => new Transaction());
+    await settle();
+    executions[0].reject(new Error('Request timed out'));
+
+    await assert.rejects(failing, { name: 'TransactionSubmissionError', message: 'Request timed out' });
+    await settle();
+    executions[1].resolve(succeeded('NextDigest'));
+    assert.equal((await next).digest, 'NextDigest');
+    assert.equal(getExecutorStats().failed, before.failed + 1);
+  });
+});
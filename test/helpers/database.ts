@@ -0,0 +1,36 @@
+import { mock } from 'node:test';
+import { PGlite, Results } from '@electric-sql/pglite';
+import { pool } from '../../src/services/database.service';
+import { runMigrations } from '../../src/services/migration.service';
+import { seedProtocolRegistry } from '../../src/services/protocol.service';
+
+// PGlite result in the shape node-postgres returns
+function toPgResult(result: Results) {
+  return {
+    rows: result.rows,
+    rowCount: result.rows.length > 0 ? result.rows.length : (result.affectedRows ?? 0),
+  };
+}
+
+// In-memory Postgres (PGlite) behind the service pool, with every migration applied and the
+// protocol registry seeded. int8 and numeric come back as strings, as with node-postgres
+export async function createTestDatabase(): Promise<PGlite> {
+  const db = new PGlite({ parsers: { 20: (value: string) => value, 1700: (value: string) => value } });
+
+  const client = {
+    // Queries without parameters may hold several statements (migrations), like pg's simple query protocol
+    async query(text: string, params?: unknown[]) {
+      if (params === undefined) {
+        const results = await db.exec(text);
+        return toPgResult(results[results.length - 1]);
+      }
+      return toPgResult(await db.query(text, params));
+    },
+    release() {},
+  };
+  mock.method(pool, 'connect', async () => client);
+
+  await runMigrations();
+  await seedProtocolRegistry();
+  return db;
+}
@@ -0,0 +1,113 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { currentRequestId, logger, redact, withLogContext } from '../src/utils/logger';
+import { requestId } from '../src/middleware/request-id.middleware';
+
+// Capture the JSON lines written to stderr (warn and error; tests run with LOG_LEVEL=error)
+function stderrLines(t: TestContext): Record<string, unknown>[] {
+  const lines: Record<string, unknown>[] = [];
+  t.mock.method(process.stderr, 'write', (chunk: string) => {
+    lines.push(JSON.parse(chunk));
+    return true;
+  });
+  return lines;
+}
+
+describe('redact', () => {
+  it('masks the admin key, Sui private keys and URL credentials', () => {
+    const adminKey = process.env.ADMIN_PRIVATE_KEY!;
+
+    assert.equal(redact(`key ${adminKey}`), 'key [REDACTED]');
+    assert.equal(redact('other suiprivkey1qzy5abc'), 'other [REDACTED]');
+    assert.equal(
+      redact('connect to postgres://settler:hunter22@db:5432/settlements failed'),
+      'connect to postgres://settler:[REDACTED]@db:5432/settlements failed'
+    );
+    assert.equal(redact('https://example.com/path'), 'https://example.com/path');
+  });
+});
+
+describe('logger', () => {
+  it('writes one JSON line with sensitive fields masked', (t) => {
+    const lines = stderrLines(t);
+
+    logger.error('Signer failed', {
+      signerToken: 'abc',
+      headers: { Authorization: 'Bearer abc', accept: 'json' },
+      balance: BigInt(5),
+      at: new Date(0),
+      error: Object.assign(new Error(`bad key ${process.env.ADMIN_PRIVATE_KEY}`), { code: 'E_KEY' }),
+    });
+
+    assert.equal(lines.length, 1);
+    const [line] = lines;
+    assert.equal(line.level, 'error');
+    assert.equal(line.msg, 'Signer failed');
+    assert.equal(line.signerToken, '[REDACTED]');
+    assert.deepEqual(line.headers, { Authorization: '[REDACTED]', accept: 'json' });
+    assert.equal(line.balance, '5');
+    assert.equal(line.at, '1970-01-01T00:00:00.000Z');
+    const error = line.error as { name: string; message: string; code: string };
+    assert.equal(error.name, 'Error');
+    assert.equal(error.message, 'bad key [REDACTED]');
+    assert.equal(error.code, 'E_KEY');
+  });
+
+  it('drops lines below LOG_LEVEL', (t) => {
+    const lines = stderrLines(t);
+
+    logger.warn('Not at error level');
+
+    assert.equal(lines.length, 0);
+  });
+
+  it('adds the log context and child fields to every line', async (t) => {
+    const lines = stderrLines(t);
+
+    await withLogContext({ requestId: 'req-1' }, async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      assert.equal(currentRequestId(), 'req-1');
+      logger.child({ worker: 'settlement' }).error('Job failed', { jobId: 'job-1' });
+    });
+
+    assert.equal(currentRequestId(), undefined);
+    assert.deepEqual(
+      { requestId: lines[0].requestId, worker: lines[0].worker, jobId: lines[0].jobId },
+      { requestId: 'req-1', worker: 'settlement', jobId: 'job-1' }
+    );
+  });
+});
+
+describe('requestId middleware', () => {
+  // Run the middleware for a request with `supplied` as X-Request-Id; returns the id seen by the next handler
+  function run(supplied?: string): { header: string; requestId: string | undefined; contextId: string | undefined } {
+    const headers: Record<string, string> = {};
+    const req = { get: () => supplied } as unknown as Request;
+    const res = {
+      set(name: string, value: string) {
+        headers[name] = value;
+      },
+      on() {},
+    } as unknown as Response;
+    let contextId: string | undefined;
+
+    requestId(req, res, () => {
+      contextId = currentRequestId();
+    });
+    return { header: headers['X-Request-Id'], requestId: req.requestId, contextId };
+  }
+
+  it('echoes a well-formed client id and runs the request in its context', () => {
+    assert.deepEqual(run('client-id:42'), { header: 'client-id:42', requestId: 'client-id:42', contextId: 'client-id:42' });
+  });
+
+  it('replaces a missing or malformed id with a UUID', () => {
+    for (const supplied of [undefined, 'has space', 'x'.repeat(129)]) {
+      const { header, requestId: id, contextId } = run(supplied);
+      assert.match(header, /^[0-9a-f-]{36}$/);
+      assert.equal(id, header);
+      assert.equal(contextId, header);
+    }
+  });
+});
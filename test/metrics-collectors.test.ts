@@ -0,0 +1,41 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CoinBalance } from '@mysten/sui/client';
+import { suiClient } from '../src/config/sui.config';
+import { renderMetrics } from '../src/utils/metrics';
+import '../src/services/metrics.service';
+
+// Value line of the admin gas gauge, or undefined while it has none
+async function adminGasLine(): Promise<string | undefined> {
+  return (await renderMetrics()).split('\n').find((line) => line.startsWith('suiverify_admin_gas_balance_mist '));
+}
+
+// Chain whose getBalance answers with `balance`, or never while it is null
+function adminBalance(t: TestContext): { balance: string | null; calls: number } {
+  const chain = { balance: null as string | null, calls: 0 };
+  t.mock.method(suiClient, 'getBalance', () => {
+    chain.calls++;
+    return chain.balance === null ? new Promise(() => {}) : Promise.resolve({ totalBalance: chain.balance } as CoinBalance);
+  });
+  return chain;
+}
+
+describe('admin gas balance metric', () => {
+  it('reads the balance once per refresh interval and keeps the last value when a read hangs', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    const chain = adminBalance(t);
+    chain.balance = '5000000000';
+
+    assert.equal(await adminGasLine(), 'suiverify_admin_gas_balance_mist 5000000000');
+    assert.equal(await adminGasLine(), 'suiverify_admin_gas_balance_mist 5000000000');
+    assert.equal(chain.calls, 1);
+
+    t.mock.timers.tick(30_000);
+    chain.balance = null;
+    const startedAt = process.hrtime.bigint();
+
+    assert.equal(await adminGasLine(), 'suiverify_admin_gas_balance_mist 5000000000');
+    assert.ok(Number(process.hrtime.bigint() - startedAt) / 1e6 < 2000, 'scrape waited on the RPC node');
+    assert.equal(chain.calls, 2);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCounter, createGauge, createHistogram, registerCollector, renderMetrics } from '../src/utils/metrics';
+
+// Lines rendered for one metric family, from its HELP line up to the next family
+async function family(name: string): Promise<string[]> {
+  const lines = (await renderMetrics()).trimEnd().split('\n');
+  const start = lines.findIndex((line) => line.startsWith(`# HELP ${name} `));
+  assert.ok(start >= 0, `${name} is not rendered`);
+  const end = lines.findIndex((line, index) => index > start + 1 && line.startsWith('# HELP '));
+  return lines.slice(start, end === -1 ? undefined : end);
+}
+
+describe('renderMetrics', () => {
+  it('renders counters with HELP and TYPE lines and one series per label set', async () => {
+    const counter = createCounter({ name: 'test_requests_total', help: 'Requests handled', labelNames: ['route', 'status'] });
+    counter.inc({ route: '/settle', status: 200 });
+    counter.inc({ status: 200, route: '/settle' }, 2);
+    counter.inc({ route: '/settle', status: 500, ignored: 'x' });
+
+    assert.deepEqual(await family('test_requests_total'), [
+      '# HELP test_requests_total Requests handled',
+      '# TYPE test_requests_total counter',
+      'test_requests_total{route="/settle",status="200"} 3',
+      'test_requests_total{route="/settle",status="500"} 1',
+    ]);
+  });
+
+  it('renders gauges set directly and escapes label values', async () => {
+    const gauge = createGauge({ name: 'test_vault_balance', help: 'Vault balance', labelNames: ['protocol'] });
+    gauge.set({ protocol: 'say "hi"\\\n' }, 5);
+    gauge.inc({ protocol: 'plain' }, 3);
+    gauge.dec({ protocol: 'plain' });
+
+    assert.deepEqual(await family('test_vault_balance'), [
+      '# HELP test_vault_balance Vault balance',
+      '# TYPE test_vault_balance gauge',
+      'test_vault_balance{protocol="say \\"hi\\"\\\\\\n"} 5',
+      'test_vault_balance{protocol="plain"} 2',
+    ]);
+  });
+
+  it('runs collectors before rendering and keeps the last value when one fails', async () => {
+    const gauge = createGauge({ name: 'test_pool_clients', help: 'Pool clients' });
+    let failing = false;
+    let clients = 4;
+    registerCollector(() => {
+      if (failing) {
+        throw new Error('pool unavailable');
+      }
+      gauge.set({}, clients);
+    });
+
+    assert.deepEqual((await family('test_pool_clients')).slice(2), ['test_pool_clients 4']);
+    failing = true;
+    clients = 9;
+    assert.deepEqual((await family('test_pool_clients')).slice(2), ['test_pool_clients 4']);
+  });
+
+  it('renders histograms as cumulative buckets with +Inf, sum and count', async () => {
+    const histogram = createHistogram({ name: 'test_rpc_seconds', help: 'RPC latency', labelNames: ['method'], buckets: [1, 0.1] });
+    histogram.observe({ method: 'dryRun' }, 0.05);
+    histogram.observe({ method: 'dryRun' }, 0.5);
+    histogram.observe({ method: 'dryRun' }, 2);
+
+    assert.deepEqual(await family('test_rpc_seconds'), [
+      '# HELP test_rpc_seconds RPC latency',
+      '# TYPE test_rpc_seconds histogram',
+      'test_rpc_seconds_bucket{method="dryRun",le="0.1"} 1',
+      'test_rpc_seconds_bucket{method="dryRun",le="1"} 2',
+      'test_rpc_seconds_bucket{method="dryRun",le="+Inf"} 3',
+      'test_rpc_seconds_sum{method="dryRun"} 2.55',
+      'test_rpc_seconds_count{method="dryRun"} 3',
+    ]);
+  });
+});
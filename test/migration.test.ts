@@ -0,0 +1,77 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import { getMigrationStatus, isDestructive, loadMigrations, runMigrations } from '../src/services/migration.service';
+
+// Serve `extra` appended to one migration file, as if it had been edited on disk
+function editMigration(t: TestContext, file: string, extra: string): void {
+  const readFileSync = fs.readFileSync;
+  t.mock.method(fs, 'readFileSync', (filePath: fs.PathOrFileDescriptor, options?: unknown) => {
+    const content = readFileSync(filePath, options as BufferEncoding);
+    return String(filePath).endsWith(file) ? `${content}${extra}` : content;
+  });
+}
+
+describe('isDestructive', () => {
+  it('flags statements that drop data or constraints', () => {
+    for (const sql of [
+      'DROP TABLE nft_settlements;',
+      'ALTER TABLE nft_settlements DROP COLUMN did_nft_name;',
+      'ALTER TABLE nft_settlements DROP CONSTRAINT nft_settlements_enclave_tx_digest_key;',
+      'ALTER TABLE nft_settlements ALTER COLUMN user_address DROP NOT NULL;',
+      'TRUNCATE settlement_attempts;',
+      'DELETE FROM settlement_attempts;',
+    ]) {
+      assert.equal(isDestructive(99, sql, 'checksum'), true, sql);
+    }
+    assert.equal(isDestructive(99, 'CREATE INDEX IF NOT EXISTS idx ON nft_settlements(status);', 'checksum'), false);
+  });
+
+  it('lets a reviewed migration through only with its reviewed checksum', () => {
+    const migration = loadMigrations().find((m) => m.version === 13)!;
+
+    assert.equal(migration.destructive, false);
+    assert.equal(isDestructive(13, migration.sql, migration.checksum), false);
+    assert.equal(isDestructive(13, migration.sql, 'edited'), true);
+    assert.equal(isDestructive(12, migration.sql, migration.checksum), true);
+  });
+});
+
+describe('loadMigrations', () => {
+  it('loads every migration in version order with a sha256 checksum', () => {
+    const migrations = loadMigrations();
+
+    assert.deepEqual(migrations.map((m) => m.version), migrations.map((_, index) => index + 1));
+    assert.ok(migrations.every((m) => /^[0-9a-f]{64}$/.test(m.checksum)));
+    assert.deepEqual(migrations.filter((m) => m.destructive), []);
+  });
+});
+
+describe('runMigrations', () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('applies nothing once every migration is recorded', async () => {
+    assert.equal(await runMigrations(), 0);
+    assert.ok((await getMigrationStatus()).every((status) => status.applied));
+  });
+
+  it('refuses to start when an applied migration was edited', async (t) => {
+    editMigration(t, '001_create_nft_settlements.sql', '\n-- edited\n');
+
+    await assert.rejects(runMigrations(), /Checksum mismatch for migration 1_create_nft_settlements/);
+  });
+
+  it('refuses a pending destructive migration unless it is allowed', async (t) => {
+    await db.query('DELETE FROM schema_migrations WHERE version = 15');
+    editMigration(t, '015_add_settlement_completion_time.sql', '\nALTER TABLE nft_settlements DROP CONSTRAINT IF EXISTS no_such_constraint;\n');
+
+    await assert.rejects(runMigrations(), /Refusing to apply destructive migration\(s\) implicitly: 15_add_settlement_completion_time/);
+    assert.equal(await runMigrations({ allowDestructive: true }), 1);
+  });
+});
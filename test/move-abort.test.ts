@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { moveAbortToError, parseMoveAbort } from '../src/utils/move-abort';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PACKAGE_ID = normalizeSuiAddress(CONTRACT_CONFIG.packageId);
+const OTHER_PACKAGE_ID = normalizeSuiAddress('0x2');
+
+// Abort message as the SDK reports it (address without its 0x prefix)
+function abortMessage(options: { packageId?: string; module?: string; functionName?: string | null; code: number }): string {
+  const functionName = options.functionName === null ? 'None' : `Some("${options.functionName ?? 'settle_nft_payment_with_vault'}")`;
+  return (
+    `MoveAbort(MoveLocation { module: ModuleId { address: ${(options.packageId ?? PACKAGE_ID).slice(2)}, ` +
+    `name: Identifier("${options.module ?? 'payment'}") }, function: 3, instruction: 12, ` +
+    `function_name: ${functionName} }, ${options.code}) in command 2`
+  );
+}
+
+describe('parseMoveAbort', () => {
+  it('extracts the location, abort code and PTB command', () => {
+    assert.deepEqual(parseMoveAbort(`Dry run failed: ${abortMessage({ code: 3 })}`), {
+      packageId: PACKAGE_ID,
+      module: 'payment',
+      function: 'settle_nft_payment_with_vault',
+      abortCode: 3,
+      command: 2,
+    });
+  });
+
+  it('leaves the function and command null when they are not reported', () => {
+    const message = abortMessage({ functionName: null, code: 1 }).replace(' in command 2', '');
+
+    assert.deepEqual(parseMoveAbort(message), { packageId: PACKAGE_ID, module: 'payment', function: null, abortCode: 1, command: null });
+  });
+
+  it('returns null for errors that are not aborts', () => {
+    assert.equal(parseMoveAbort('InsufficientCoinBalance in command 0'), null);
+  });
+});
+
+describe('moveAbortToError', () => {
+  it('maps payment.move abort codes to their status and code', () => {
+    const error = moveAbortToError(abortMessage({ code: 2 }), { settlementId: 7 });
+
+    assert.equal(error?.status, 402);
+    assert.equal(error?.code, 'VAULT_INSUFFICIENT_FUNDS');
+    assert.deepEqual(error?.details, {
+      settlementId: 7,
+      abort: { module: 'payment', function: 'settle_nft_payment_with_vault', abortCode: 2 },
+    });
+  });
+
+  it('reports unknown codes and aborts in other modules as MOVE_ABORT', () => {
+    for (const message of [
+      abortMessage({ code: 99 }),
+      abortMessage({ module: 'registry', code: 2 }),
+      abortMessage({ packageId: OTHER_PACKAGE_ID, code: 2 }),
+    ]) {
+      const error = moveAbortToError(message);
+      assert.equal(error?.status, 500);
+      assert.equal(error?.code, 'MOVE_ABORT');
+    }
+  });
+
+  it('returns null for errors that are not aborts', () => {
+    assert.equal(moveAbortToError('InsufficientGas'), null);
+  });
+});
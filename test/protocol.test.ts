@@ -0,0 +1,73 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import { getAllProtocols, getProtocolByUid, seedProtocolRegistry } from '../src/services/protocol.service';
+import { verifySettlementRequest } from '../src/services/settlement.service';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+
+const request = {
+  enclaveTxDigest: '7rDBN3iAZc4C7C8vqXGBzXbWUbqGGsNxkVLbC2PQr6mU',
+  didVerifiedId: `0x${'1'.repeat(64)}`,
+  userAddress: `0x${'ab'.repeat(32)}`,
+  protocolName: PROTOCOL.name,
+  protocolUid: PROTOCOL.uid,
+};
+
+describe('protocol registry', () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('is seeded from protocol-config.json', async () => {
+    const protocol = await getProtocolByUid(PROTOCOL.uid);
+
+    assert.equal(protocol?.protocol_name, PROTOCOL.name);
+    assert.equal(protocol?.vault_object_id, PROTOCOL.vault.objectId);
+    assert.equal(protocol?.settlement_mode, PROTOCOL.settlementMode);
+    assert.deepEqual((await getAllProtocols()).map((p) => p.protocol_uid), CONTRACT_CONFIG.protocols.map((p) => p.uid));
+  });
+
+  it('keeps registry edits made in the database when seeded again', async () => {
+    await db.query("UPDATE protocols SET protocol_address = '0xedited' WHERE protocol_uid = $1", [PROTOCOL.uid]);
+
+    await seedProtocolRegistry();
+
+    assert.equal((await getProtocolByUid(PROTOCOL.uid))?.protocol_address, '0xedited');
+  });
+
+  it('hides deactivated protocols', async () => {
+    await db.query(
+      `INSERT INTO protocols (protocol_uid, protocol_name, protocol_address, vault_object_id, vault_initial_shared_version, active)
+       VALUES (2000, 'retired', '0x2', '0x3', '1', FALSE)`
+    );
+
+    assert.equal(await getProtocolByUid(2000), null);
+    assert.ok((await getAllProtocols()).every((protocol) => protocol.protocol_uid !== 2000));
+  });
+});
+
+describe('verifySettlementRequest', () => {
+  before(async () => {
+    await createTestDatabase();
+  });
+
+  it('rejects a protocol that is not in the registry', async () => {
+    await assert.rejects(verifySettlementRequest({ ...request, protocolUid: 4242 }), {
+      status: 403,
+      code: 'PROTOCOL_NOT_REGISTERED',
+    });
+  });
+
+  it('rejects a protocol name that does not match the registry', async () => {
+    await assert.rejects(verifySettlementRequest({ ...request, protocolName: 'spoofed' }), {
+      status: 403,
+      code: 'PROTOCOL_NAME_MISMATCH',
+      message: `Invalid protocol name. Expected "${PROTOCOL.name}", got "spoofed"`,
+    });
+  });
+});
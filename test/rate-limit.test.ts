@@ -0,0 +1,145 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { createTestDatabase } from './helpers/database';
+import { createMemoryStore, createPostgresStore, RateLimitBudget, RateLimitStore } from '../src/services/rate-limit.service';
+import { rateLimit, rateLimitByIp } from '../src/middleware/rate-limit.middleware';
+
+const BUDGET: RateLimitBudget = { capacity: 2, refillPerSecond: 1 };
+
+// Allowed flags of `count` requests on one key
+async function consumeMany(store: RateLimitStore, key: string, count: number, cost?: number): Promise<boolean[]> {
+  const allowed: boolean[] = [];
+  for (let i = 0; i < count; i++) {
+    allowed.push((await store.consume(key, BUDGET, cost)).allowed);
+  }
+  return allowed;
+}
+
+// Response stub recording the status, headers and JSON body a middleware sends
+function responseStub() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    set(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+// Run middlewares in order until one answers instead of calling next()
+async function run(req: Partial<Request>, ...middlewares: ReturnType<typeof rateLimit>[]) {
+  const res = responseStub();
+  for (const middleware of middlewares) {
+    let passed = false;
+    await middleware(req as Request, res as unknown as Response, () => {
+      passed = true;
+    });
+    if (!passed) {
+      break;
+    }
+  }
+  return res;
+}
+
+describe('memory rate limit store', () => {
+  it('allows a burst up to capacity, then reports when the next token arrives', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+    const store = createMemoryStore();
+
+    assert.deepEqual(await consumeMany(store, 'burst', 2), [true, true]);
+    assert.deepEqual(await store.consume('burst', BUDGET), {
+      allowed: false,
+      limit: 2,
+      remaining: 0,
+      resetSeconds: 2,
+      retryAfterSeconds: 1,
+    });
+    assert.deepEqual(await consumeMany(store, 'other', 1), [true]);
+  });
+
+  it('refills over time up to capacity', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+    const store = createMemoryStore();
+    await consumeMany(store, 'refill', 2);
+
+    t.mock.timers.tick(1000);
+    assert.deepEqual(await consumeMany(store, 'refill', 2), [true, false]);
+
+    t.mock.timers.tick(60_000);
+    assert.deepEqual(await consumeMany(store, 'refill', 3), [true, true, false]);
+  });
+
+  it('lets a costly request through while one token is left and keeps the debt', async (t) => {
+    t.mock.timers.enable({ apis: ['Date'], now: 1_000_000 });
+    const store = createMemoryStore();
+
+    assert.equal((await store.consume('debt', BUDGET, 5)).allowed, true);
+    t.mock.timers.tick(3000);
+    assert.equal((await store.consume('debt', BUDGET)).allowed, false);
+    t.mock.timers.tick(1000);
+    assert.equal((await store.consume('debt', BUDGET)).allowed, true);
+  });
+});
+
+describe('postgres rate limit store', () => {
+  before(async () => {
+    await createTestDatabase();
+  });
+
+  it('shares buckets through rate_limit_buckets', async () => {
+    const slow: RateLimitBudget = { capacity: 2, refillPerSecond: 0.001 };
+    const first = createPostgresStore();
+    const second = createPostgresStore();
+
+    assert.equal((await first.consume('shared', slow)).allowed, true);
+    assert.equal((await second.consume('shared', slow)).allowed, true);
+    const denied = await first.consume('shared', slow);
+    assert.equal(denied.allowed, false);
+    assert.ok(denied.retryAfterSeconds > 0);
+  });
+});
+
+describe('rateLimit middleware', () => {
+  it('answers 429 with Retry-After once the write burst is spent', async () => {
+    const req = () => ({ ip: '203.0.113.1', params: {}, body: {} });
+
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await run(req(), rateLimit('write'))).statusCode, 200);
+    }
+    const res = await run(req(), rateLimit('write'));
+
+    assert.equal(res.statusCode, 429);
+    assert.equal(res.headers['Retry-After'], '2');
+    assert.deepEqual(res.body, { success: false, code: 'RATE_LIMITED', error: 'Too many requests', retryAfter: 2 });
+  });
+
+  it('charges the client IP once when limited before and after authentication', async () => {
+    const req = (userAddress: string) => ({ ip: '203.0.113.2', params: {}, body: { userAddress } });
+
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await run(req(`0x${i}`), rateLimitByIp('write'), rateLimit('write'))).statusCode, 200);
+    }
+    assert.equal((await run(req('0xa'), rateLimitByIp('write'), rateLimit('write'))).statusCode, 429);
+  });
+
+  it('limits a user address across client IPs', async () => {
+    const req = (ip: string) => ({ ip, params: {}, body: { userAddress: '0xABC' } });
+
+    for (let i = 0; i < 10; i++) {
+      assert.equal((await run(req(`198.51.100.${i}`), rateLimit('write'))).statusCode, 200);
+    }
+    assert.equal((await run({ ...req('198.51.100.99'), body: { userAddress: '0xabc' } }, rateLimit('write'))).statusCode, 429);
+  });
+});
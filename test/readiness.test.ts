@@ -0,0 +1,108 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import type { CoinBalance, SuiObjectResponse } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { readiness } from '../src/controllers/settlement.controller';
+import * as health from '../src/services/health.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+import { adminAddress } from '../src/config/signer.config';
+
+// Shared objects the checks look up, by object id
+const SHARED_VERSIONS = new Map([
+  [CONTRACT_CONFIG.paymentRegistry.objectId, CONTRACT_CONFIG.paymentRegistry.initialSharedVersion],
+  ...CONTRACT_CONFIG.protocols.map((protocol) => [protocol.vault.objectId, protocol.vault.initialSharedVersion] as [string, string]),
+]);
+
+// Testnet node where every configured object is where the checks expect it
+// `chainId` can be a promise that never settles, for a node that stops answering
+function healthyChain(t: TestContext, balance = '5000000000', chainId: Promise<string> = Promise.resolve('4c78adac')): void {
+  t.mock.method(suiClient, 'getChainIdentifier', () => chainId);
+  t.mock.method(suiClient, 'getBalance', async () => ({ totalBalance: balance }) as CoinBalance);
+  t.mock.method(suiClient, 'getObject', async ({ id }: { id: string }) => ({
+    data: {
+      owner: id === CONTRACT_CONFIG.paymentCap.objectId
+        ? { AddressOwner: adminAddress }
+        : { Shared: { initial_shared_version: SHARED_VERSIONS.get(id) } },
+    },
+  }) as SuiObjectResponse);
+}
+
+// Call the readiness handler and capture what it responds
+async function probe(): Promise<{ status: number; body: any }> {
+  const response = { status: 0, body: undefined as any };
+  const res = {
+    status(code: number) {
+      response.status = code;
+      return res;
+    },
+    json(body: unknown) {
+      response.body = body;
+      return res;
+    },
+  };
+  await readiness({} as Request, res as unknown as Response);
+  return response;
+}
+
+describe('readiness probe', () => {
+  before(async () => {
+    await createTestDatabase();
+  });
+
+  it('is ready when every check passes', async (t) => {
+    healthyChain(t);
+
+    const { status, body } = await probe();
+
+    assert.equal(status, 200);
+    assert.equal(body.status, 'ready');
+    assert.deepEqual(
+      body.checks.map((check: { name: string; status: string }) => [check.name, check.status]),
+      [
+        ['database', 'pass'],
+        ['suiRpc', 'pass'],
+        ['paymentCap', 'pass'],
+        ['adminGas', 'pass'],
+        ['paymentRegistry', 'pass'],
+        ...CONTRACT_CONFIG.protocols.map((protocol) => [`vault:${protocol.uid}`, 'pass']),
+      ]
+    );
+  });
+
+  it('answers 503 with the failing check', async (t) => {
+    healthyChain(t, '42000000');
+
+    const { status, body } = await probe();
+
+    assert.equal(status, 503);
+    assert.equal(body.status, 'not_ready');
+    const failed = body.checks.filter((check: { status: string }) => check.status === 'fail');
+    assert.deepEqual(failed.map((check: { name: string; error: string }) => [check.name, check.error]), [
+      ['adminGas', 'Admin gas balance 42000000 MIST is below 100000000 MIST'],
+    ]);
+  });
+
+  it('fails a check that does not answer in time', async (t) => {
+    healthyChain(t, undefined, new Promise(() => {}));
+
+    const { status, body } = await probe();
+
+    assert.equal(status, 503);
+    const suiRpc = body.checks.find((check: { name: string }) => check.name === 'suiRpc');
+    assert.equal(suiRpc.error, 'Timed out after 300ms');
+  });
+
+  it('answers 503 not_ready when the checks cannot be run', async (t) => {
+    t.mock.method(health, 'checkReadiness', async () => {
+      throw new Error('registry unavailable');
+    });
+
+    const { status, body } = await probe();
+
+    assert.equal(status, 503);
+    assert.equal(body.success, false);
+    assert.equal(body.status, 'not_ready');
+    assert.equal(body.error, 'registry unavailable');
+  });
+});
@@ -0,0 +1,214 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import type { EventId, PaginatedEvents, SuiEvent, SuiObjectResponse } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { getSettlementByNftId, reserveSettlement, SettlementRecord } from '../src/services/database.service';
+import { getReconciliationReport, runReconciliation } from '../src/services/reconciliation.service';
+import * as webhooks from '../src/services/webhook.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const USER = `0x${'ab'.repeat(32)}`;
+
+let db: PGlite;
+let nextNft = 1;
+
+function freshNft(): string {
+  return `0x${(nextNft++).toString(16).padStart(64, 'd')}`;
+}
+
+// NftSettled event paying for `nftId` in transaction `txDigest`
+function nftSettled(nftId: string, txDigest: string, timestampMs = Date.now()): SuiEvent {
+  return {
+    id: { txDigest, eventSeq: '0' },
+    type: `${CONTRACT_CONFIG.packageId}::payment::NftSettled`,
+    parsedJson: { nft_id: nftId, protocol_uid: String(PROTOCOL.uid), amount: '3000000', nft_name: 'KYC NFT' },
+    timestampMs: String(timestampMs),
+  } as SuiEvent;
+}
+
+// Payment module that emitted `pages` of events; page n+1 is served for the cursor ending page n
+// Returns the cursors the indexer asked with
+function chainPages(t: TestContext, pages: SuiEvent[][]): (EventId | null)[] {
+  const cursors: (EventId | null)[] = [];
+  t.mock.method(suiClient, 'queryEvents', async ({ cursor }: { cursor: EventId | null }) => {
+    cursors.push(cursor);
+    const index = cursor ? Number(cursor.eventSeq) + 1 : 0;
+    return {
+      data: pages[index] ?? [],
+      nextCursor: index < pages.length ? { txDigest: `page${index}`, eventSeq: String(index) } : cursor,
+      hasNextPage: index < pages.length - 1,
+    } as PaginatedEvents;
+  });
+  return cursors;
+}
+
+// Chain that emitted `events` in one page, leaving the stored cursor where it is
+function chainEvents(t: TestContext, events: SuiEvent[]): void {
+  t.mock.method(suiClient, 'queryEvents', async () => ({ data: events, nextCursor: null, hasNextPage: false }) as PaginatedEvents);
+}
+
+// DID NFTs owned by `owner` (null: not owned by an address)
+function nftOwner(t: TestContext, owner: string | null): void {
+  t.mock.method(suiClient, 'getObject', async () => ({
+    data: { owner: owner ? { AddressOwner: owner } : { Shared: { initial_shared_version: '1' } } },
+  }) as SuiObjectResponse);
+}
+
+// Webhook events enqueued while the test runs
+function webhookEvents(t: TestContext): string[] {
+  const events: string[] = [];
+  t.mock.method(webhooks, 'enqueueWebhookEvent', async (_protocolUid: number, event: string) => {
+    events.push(event);
+  });
+  return events;
+}
+
+async function reserve(nftId: string): Promise<SettlementRecord> {
+  const { settlement } = await reserveSettlement({
+    enclave_tx_digest: `ReconcileEnclave${nftId.slice(-4)}`,
+    did_verified_id: nftId,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: USER,
+    settlement_amount: 3000000,
+  });
+  return settlement;
+}
+
+async function discrepancies(nftId: string): Promise<{ kind: string; details: unknown }[]> {
+  const result = await db.query<{ kind: string; details: unknown }>(
+    'SELECT kind, details FROM settlement_discrepancies WHERE did_verified_id = $1 ORDER BY id',
+    [nftId]
+  );
+  return result.rows;
+}
+
+describe('runReconciliation', () => {
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('completes a reservation the process lost track of', async (t) => {
+    const nftId = freshNft();
+    const settlement = await reserve(nftId);
+    chainEvents(t, [nftSettled(nftId, 'LostDigest')]);
+    const webhooksSent = webhookEvents(t);
+
+    assert.deepEqual(await runReconciliation(), { eventsIndexed: 1, backfilled: 1, missingRows: 0, conflicts: 0 });
+
+    const row = await getSettlementByNftId(nftId);
+    assert.equal(row?.id, settlement.id);
+    assert.equal(row?.status, 'success');
+    assert.equal(row?.payment_tx_digest, 'LostDigest');
+    assert.deepEqual(await discrepancies(nftId), [{ kind: 'backfilled', details: { previousStatus: 'pending' } }]);
+    assert.deepEqual(webhooksSent, ['settlement.succeeded']);
+  });
+
+  it('inserts the row of a settlement the database never saw', async (t) => {
+    const nftId = freshNft();
+    chainEvents(t, [nftSettled(nftId, 'UnseenDigest', 1763740000000)]);
+    nftOwner(t, USER);
+    webhookEvents(t);
+
+    assert.equal((await runReconciliation()).backfilled, 1);
+
+    const row = await getSettlementByNftId(nftId);
+    assert.equal(row?.status, 'success');
+    assert.equal(row?.enclave_tx_digest, null);
+    assert.equal(row?.user_address, USER);
+    assert.equal(row?.did_nft_name, 'KYC NFT');
+    assert.equal(row?.settlement_mode, 'vault');
+    assert.equal(row?.timestamp, '1763740000000');
+    assert.deepEqual(await discrepancies(nftId), [{ kind: 'backfilled', details: { previousStatus: null } }]);
+  });
+
+  it('flags a settlement whose row cannot be rebuilt', async (t) => {
+    const nftId = freshNft();
+    chainEvents(t, [nftSettled(nftId, 'OrphanDigest')]);
+    nftOwner(t, null);
+
+    assert.equal((await runReconciliation()).missingRows, 1);
+
+    assert.equal(await getSettlementByNftId(nftId), null);
+    assert.deepEqual(await discrepancies(nftId), [{ kind: 'missing_row', details: null }]);
+  });
+
+  it('flags a conflict when the NFT was settled by another transaction', async (t) => {
+    const nftId = freshNft();
+    const settlement = await reserve(nftId);
+    await db.query("UPDATE nft_settlements SET status = 'success', payment_tx_digest = 'OurDigest' WHERE id = $1", [settlement.id]);
+    chainEvents(t, [nftSettled(nftId, 'TheirDigest')]);
+
+    assert.equal((await runReconciliation()).conflicts, 1);
+
+    assert.equal((await getSettlementByNftId(nftId))?.payment_tx_digest, 'OurDigest');
+    assert.deepEqual(await discrepancies(nftId), [{ kind: 'conflict', details: { databaseDigest: 'OurDigest' } }]);
+  });
+
+  it('skips other payment events and is idempotent', async (t) => {
+    const nftId = freshNft();
+    await reserve(nftId);
+    const event = nftSettled(nftId, 'RepeatDigest');
+    chainEvents(t, [{ ...event, type: `${CONTRACT_CONFIG.packageId}::payment::ProtocolRegistered` }, event]);
+    webhookEvents(t);
+
+    assert.equal((await runReconciliation()).backfilled, 1);
+    assert.deepEqual(await runReconciliation(), { eventsIndexed: 1, backfilled: 0, missingRows: 0, conflicts: 0 });
+    assert.equal((await discrepancies(nftId)).length, 1);
+  });
+});
+
+describe('reconciliation cursor', () => {
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('saves progress after each page and resumes from it', async (t) => {
+    const first = freshNft();
+    const second = freshNft();
+    await reserve(first);
+    await reserve(second);
+    webhookEvents(t);
+    const cursors = chainPages(t, [[nftSettled(first, 'PageDigest0')], [nftSettled(second, 'PageDigest1')]]);
+
+    assert.equal((await runReconciliation()).eventsIndexed, 2);
+    assert.deepEqual(cursors, [null, { txDigest: 'page0', eventSeq: '0' }]);
+
+    assert.equal((await runReconciliation()).eventsIndexed, 0);
+    assert.deepEqual(cursors[2], { txDigest: 'page1', eventSeq: '1' });
+  });
+});
+
+describe('getReconciliationReport', () => {
+  const LAST_EVENT = Date.UTC(2025, 10, 20);
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('lists settled rows without an event once the indexer is past them', async (t) => {
+    const indexed = freshNft();
+    await reserve(indexed);
+    webhookEvents(t);
+    chainEvents(t, [nftSettled(indexed, 'IndexedDigest', LAST_EVENT)]);
+    await runReconciliation();
+
+    const old = await reserve(freshNft());
+    const recent = await reserve(freshNft());
+    await db.query(
+      `UPDATE nft_settlements SET status = 'success', payment_tx_digest = 'Unindexed' || id,
+         timestamp = CASE WHEN id = $1 THEN $2::bigint ELSE $3::bigint END
+       WHERE id IN ($1, $4)`,
+      [old.id, LAST_EVENT - 60 * 60 * 1000, LAST_EVENT - 1000, recent.id]
+    );
+
+    const report = await getReconciliationReport({ kind: 'missing_event', limit: 10, offset: 0 });
+
+    assert.equal(report.lastEventTimestampMs, String(LAST_EVENT));
+    assert.deepEqual(report.counts, { missing_event: 1, missing_row: 0, backfilled: 1, conflict: 0 });
+    assert.deepEqual(report.items.map((item) => item.id), [old.id]);
+    assert.equal((await getReconciliationReport({ protocolUid: PROTOCOL.uid + 1, limit: 10, offset: 0 })).counts.backfilled, 0);
+  });
+});
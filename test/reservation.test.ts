@@ -0,0 +1,120 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import {
+  completeSettlement,
+  failSettlement,
+  getSettlementByIdempotencyKey,
+  isEnclaveTxUsed,
+  reserveSettlement,
+  SettlementRecord,
+} from '../src/services/database.service';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+
+let nextNft = 1;
+
+// Reservation request for a fresh DID NFT, with `overrides` applied
+function request(overrides: Partial<SettlementRecord> = {}): SettlementRecord {
+  const n = nextNft++;
+  return {
+    enclave_tx_digest: `ReservationEnclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, 'c')}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: `0x${'ab'.repeat(32)}`,
+    settlement_amount: 3000000,
+    ...overrides,
+  };
+}
+
+describe('reserveSettlement', () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('reserves a DID NFT once and returns the existing row afterwards', async () => {
+    const first = request();
+
+    const reservation = await reserveSettlement(first);
+    assert.equal(reservation.reserved, true);
+    assert.equal(reservation.settlement.status, 'pending');
+
+    const again = await reserveSettlement({ ...first, enclave_tx_digest: 'ReservationEnclaveOther' });
+    assert.equal(again.reserved, false);
+    assert.equal(again.settlement.id, reservation.settlement.id);
+    assert.equal(again.settlement.enclave_tx_digest, first.enclave_tx_digest);
+  });
+
+  it('does not re-claim a completed settlement', async () => {
+    const first = request();
+    const { settlement } = await reserveSettlement(first);
+    await completeSettlement(settlement.id!, 'ReservationPayment');
+
+    const again = await reserveSettlement(first);
+    assert.equal(again.reserved, false);
+    assert.equal(again.settlement.status, 'success');
+  });
+
+  it('re-claims a released reservation under the same id', async () => {
+    const first = request();
+    const { settlement } = await reserveSettlement(first);
+    await failSettlement(settlement.id!, 'ReservationAborted');
+    assert.equal(await isEnclaveTxUsed(first.enclave_tx_digest!), false);
+
+    const retry = await reserveSettlement({ ...first, enclave_tx_digest: 'ReservationEnclaveRetry' });
+    assert.equal(retry.reserved, true);
+    assert.equal(retry.settlement.id, settlement.id);
+    assert.equal(retry.settlement.status, 'pending');
+    assert.equal(retry.settlement.payment_tx_digest, null);
+    assert.equal(retry.settlement.enclave_tx_digest, 'ReservationEnclaveRetry');
+  });
+
+  it('re-claims an expired reservation only when no job is working on it', async () => {
+    const expired = request({ timestamp: Date.now() - 60 * 60 * 1000 });
+    const { settlement } = await reserveSettlement(expired);
+
+    await db.query(
+      `INSERT INTO settlement_jobs (id, settlement_id, did_verified_id, protocol_uid, max_attempts)
+       VALUES ('reservation-job', $1, $2, $3, 3)`,
+      [settlement.id, expired.did_verified_id, PROTOCOL.uid]
+    );
+    assert.equal((await reserveSettlement(expired)).reserved, false);
+
+    await db.query(`UPDATE settlement_jobs SET status = 'failed' WHERE settlement_id = $1`, [settlement.id]);
+    const reclaimed = await reserveSettlement({ ...expired, timestamp: Date.now() });
+    assert.equal(reclaimed.reserved, true);
+    assert.equal(reclaimed.settlement.id, settlement.id);
+  });
+
+  it('refuses an enclave digest or Idempotency-Key bound to another DID NFT', async () => {
+    const first = request({ idempotency_key: 'reservation-key-1' });
+    await reserveSettlement(first);
+
+    await assert.rejects(reserveSettlement(request({ enclave_tx_digest: first.enclave_tx_digest })), {
+      status: 409,
+      code: 'SETTLEMENT_CONFLICT',
+    });
+    await assert.rejects(reserveSettlement(request({ idempotency_key: 'reservation-key-1' })), {
+      status: 409,
+      code: 'SETTLEMENT_CONFLICT',
+    });
+  });
+});
+
+describe('getSettlementByIdempotencyKey', () => {
+  before(async () => {
+    await createTestDatabase();
+  });
+
+  it('finds the settlement created with the key', async () => {
+    const { settlement } = await reserveSettlement(request({ idempotency_key: 'lookup-key' }));
+
+    assert.equal((await getSettlementByIdempotencyKey('lookup-key'))?.id, settlement.id);
+    assert.equal(await getSettlementByIdempotencyKey('unknown-key'), null);
+  });
+});
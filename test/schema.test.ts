@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validate } from '../src/utils/schema';
+import {
+  allSettlementsQuerySchema,
+  reconciliationQuerySchema,
+  settlementRequestSchema,
+  statsQuerySchema,
+} from '../src/schemas/settlement.schema';
+import { encodeCursor } from '../src/utils/cursor';
+import { getOpenApiDocument } from '../src/services/openapi.service';
+
+const request = {
+  enclaveTxDigest: '7rDBN3iAZc4C7C8vqXGBzXbWUbqGGsNxkVLbC2PQr6mU',
+  didVerifiedId: `0x${'1'.repeat(64)}`,
+  userAddress: `0x${'ab'.repeat(32)}`,
+  protocolName: 'test',
+};
+
+interface OpenApiOperation {
+  security?: unknown[];
+  parameters: { name: string; in: string; required: boolean; schema: Record<string, unknown> }[];
+  responses: Record<string, unknown>;
+}
+
+function operation(path: string, method: string): OpenApiOperation {
+  const paths = getOpenApiDocument().paths as Record<string, Record<string, OpenApiOperation>>;
+  assert.ok(paths[path]?.[method], `${method.toUpperCase()} ${path} is not documented`);
+  return paths[path][method];
+}
+
+describe('validate', () => {
+  it('returns the parsed value without unknown fields', () => {
+    assert.deepEqual(validate(settlementRequestSchema, { ...request, protocolUid: 1000, extra: 'x' }), {
+      value: { ...request, protocolUid: 1000 },
+    });
+  });
+
+  it('reports every invalid field at once', () => {
+    const result = validate(settlementRequestSchema, { ...request, didVerifiedId: '0x1', userAddress: 7, protocolName: undefined });
+
+    assert.deepEqual(result, {
+      errors: [
+        { field: 'didVerifiedId', message: 'Invalid didVerifiedId. Expected 0x + 64 hex characters' },
+        { field: 'userAddress', message: 'Invalid userAddress. Expected string' },
+        { field: 'protocolName', message: 'protocolName is required' },
+      ],
+    });
+  });
+
+  it('coerces query strings and applies defaults', () => {
+    assert.deepEqual(validate(reconciliationQuerySchema, { limit: '20' }, { coerce: true }), { value: { limit: 20, offset: 0 } });
+    assert.deepEqual(validate(reconciliationQuerySchema, undefined, { coerce: true }), { value: { limit: 100, offset: 0 } });
+    assert.ok('errors' in validate(reconciliationQuerySchema, { limit: '20' }));
+    assert.ok('errors' in validate(reconciliationQuerySchema, { limit: '501' }, { coerce: true }));
+  });
+
+  it('parses timestamps from Unix milliseconds or ISO 8601 dates', () => {
+    assert.deepEqual(
+      validate(statsQuerySchema, { from: '1735689600000', to: '2025-01-02T00:00:00Z' }, { coerce: true }),
+      { value: { groupBy: 'day', from: 1735689600000, to: 1735776000000 } }
+    );
+    assert.deepEqual(validate(statsQuerySchema, { from: 'yesterday' }, { coerce: true }), {
+      errors: [{ field: 'from', message: 'Invalid from. Expected Unix milliseconds or ISO 8601 date' }],
+    });
+  });
+
+  it('runs cross-field checks once every field is valid', () => {
+    assert.deepEqual(validate(statsQuerySchema, { from: '2', to: '1' }, { coerce: true }), {
+      errors: [{ field: 'from', message: 'from must not be after to' }],
+    });
+
+    const cursor = encodeCursor({ sort: 'id', order: 'desc', value: '10', id: 10 });
+    assert.deepEqual(validate(allSettlementsQuerySchema, { cursor, sort: 'amount' }, { coerce: true }), {
+      errors: [{ field: 'cursor', message: 'cursor was issued for a different sort or order' }],
+    });
+  });
+});
+
+describe('getOpenApiDocument', () => {
+  it('documents the signed routes with the API key security scheme', () => {
+    const signed = { ApiKey: [], Timestamp: [], Signature: [] };
+
+    for (const [path, method] of [
+      ['/api/settlement/settle', 'post'],
+      ['/api/settlement/settle/batch', 'post'],
+      ['/api/settlement/all', 'get'],
+      ['/api/settlement/statements', 'get'],
+      ['/api/settlement/reconciliation', 'get'],
+      ['/api/webhooks', 'post'],
+    ]) {
+      assert.deepEqual(operation(path, method).security, [signed], `${path} is not signed`);
+    }
+    assert.equal(operation('/api/settlement/status/{nftId}', 'get').security, undefined);
+  });
+
+  it('derives parameters from the route schemas', () => {
+    const parameters = operation('/api/settlement/reconciliation', 'get').parameters.filter((parameter) => parameter.in === 'query');
+
+    assert.deepEqual(parameters.map(({ name, required }) => [name, required]), [['kind', false], ['limit', false], ['offset', false]]);
+    assert.deepEqual(parameters[1].schema, { type: 'integer', minimum: 1, maximum: 500, default: 100 });
+
+    const [id] = operation('/api/settlement/{id}', 'get').parameters;
+    assert.deepEqual([id.name, id.in, id.required], ['id', 'path', true]);
+  });
+
+  it('lists error responses with the error envelope', () => {
+    const responses = operation('/api/settlement/settle', 'post').responses as Record<string, { content: unknown }>;
+
+    assert.deepEqual(responses['400'].content, { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } });
+    assert.deepEqual(responses['503'].content, { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } });
+    assert.ok(responses['429'] && responses['500']);
+  });
+});
@@ -0,0 +1,221 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import type { PaginatedEvents, SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { reserveSettlement, SettlementRecord } from '../src/services/database.service';
+import { executeSettlementBatch, settlementAmountFor } from '../src/services/settlement.service';
+import * as executor from '../src/services/executor.service';
+import * as vault from '../src/services/vault.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+import { TransactionSubmissionError } from '../src/utils/errors';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const GAS_USED = { computationCost: '1000', storageCost: '2000', storageRebate: '600', nonRefundableStorageFee: '0' };
+
+let db: PGlite;
+let nextNft = 1;
+
+// Reserve a vault-funded settlement for a fresh DID NFT
+async function reserve(): Promise<SettlementRecord> {
+  const n = nextNft++;
+  const reservation = await reserveSettlement({
+    enclave_tx_digest: `Enclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, '0')}`,
+    did_nft_name: `NFT ${n}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: `0x${'ab'.repeat(32)}`,
+    settlement_amount: Number(settlementAmountFor('vault')),
+    settlement_mode: 'vault',
+    timestamp: Date.now(),
+  });
+  assert.equal(reservation.reserved, true);
+  return reservation.settlement;
+}
+
+// Transaction response for a successful execution
+function executed(digest: string): SuiTransactionBlockResponse {
+  return { digest, effects: { status: { status: 'success' }, gasUsed: GAS_USED } } as SuiTransactionBlockResponse;
+}
+
+// Dry-run error for a payment.move abort in one command of the PTB
+function abortInCommand(abortCode: number, command: number): Error {
+  return new Error(
+    `MoveAbort(MoveLocation { module: ModuleId { address: ${CONTRACT_CONFIG.packageId.slice(2)}, ` +
+    'name: Identifier("payment") }, function: 3, instruction: 12, ' +
+    `function_name: Some("settle_nft_payment_with_vault") }, ${abortCode}) in command ${command}`
+  );
+}
+
+// Chain whose payment module emitted `events`
+function chainEvents(t: TestContext, events: SuiEvent[]): void {
+  t.mock.method(suiClient, 'queryEvents', async () => ({ data: events, nextCursor: null, hasNextPage: false }) as PaginatedEvents);
+}
+
+// Vault able to pay `fees` settlement fees
+function fundVault(t: TestContext, fees: number): void {
+  t.mock.method(vault, 'getVaultBalance', async () => settlementAmountFor('vault') * BigInt(fees));
+}
+
+async function rowsOf(settlements: SettlementRecord[]) {
+  const result = await db.query<SettlementRecord>(
+    'SELECT * FROM nft_settlements WHERE id = ANY($1::int[]) ORDER BY id',
+    [settlements.map((settlement) => settlement.id)]
+  );
+  return result.rows;
+}
+
+describe('executeSettlementBatch', () => {
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('settles every item in one transaction and lets the rows share its digest', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve(), await reserve(), await reserve()];
+    const execute = t.mock.method(executor, 'executeCapTransaction', async () => executed('BatchDigest1'));
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.equal(execute.mock.callCount(), 1);
+    assert.deepEqual(outcomes.map((outcome) => outcome.error), [null, null, null]);
+
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => [row.status, row.payment_tx_digest]), [
+      ['success', 'BatchDigest1'],
+      ['success', 'BatchDigest1'],
+      ['success', 'BatchDigest1'],
+    ]);
+    assert.ok(rows.every((row) => row.completed_at !== null));
+
+    // Gas is paid once and split over the items
+    const attempts = await db.query<{ status: string; gas_used: string }>(
+      'SELECT status, gas_used FROM settlement_attempts WHERE payment_tx_digest = $1',
+      ['BatchDigest1']
+    );
+    assert.deepEqual(attempts.rows, [
+      { status: 'success', gas_used: '800' },
+      { status: 'success', gas_used: '800' },
+      { status: 'success', gas_used: '800' },
+    ]);
+  });
+
+  it('drops an item that aborts in the dry run and settles the rest', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve(), await reserve(), await reserve()];
+    let calls = 0;
+    const execute = t.mock.method(executor, 'executeCapTransaction', async () => {
+      calls++;
+      if (calls === 1) {
+        throw abortInCommand(4, 1);
+      }
+      return executed('BatchDigest2');
+    });
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.equal(execute.mock.callCount(), 2);
+    assert.equal(outcomes[0].error, null);
+    assert.equal(outcomes[1].error?.status, 403);
+    assert.equal(outcomes[1].error?.code, 'PROTOCOL_NOT_REGISTERED_ON_CHAIN');
+    assert.equal(outcomes[2].error, null);
+
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => [row.status, row.payment_tx_digest]), [
+      ['success', 'BatchDigest2'],
+      ['failed', null],
+      ['success', 'BatchDigest2'],
+    ]);
+  });
+
+  it('completes an item that is already settled on-chain from its NftSettled event', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve(), await reserve()];
+    let calls = 0;
+    t.mock.method(executor, 'executeCapTransaction', async () => {
+      calls++;
+      if (calls === 1) {
+        throw abortInCommand(3, 0);
+      }
+      return executed('BatchDigest5');
+    });
+    chainEvents(t, [{
+      id: { txDigest: 'EarlierDigest', eventSeq: '0' },
+      type: `${CONTRACT_CONFIG.packageId}::payment::NftSettled`,
+      parsedJson: { nft_id: settlements[0].did_verified_id, protocol_uid: String(PROTOCOL.uid), amount: '0' },
+      timestampMs: String(Date.now()),
+    } as SuiEvent]);
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.deepEqual(outcomes.map((outcome) => outcome.error), [null, null]);
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => [row.status, row.payment_tx_digest]), [
+      ['success', 'EarlierDigest'],
+      ['success', 'BatchDigest5'],
+    ]);
+  });
+
+  it('keeps an already-settled item pending until its event is indexed', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve()];
+    t.mock.method(executor, 'executeCapTransaction', async () => {
+      throw abortInCommand(3, 0);
+    });
+    chainEvents(t, []);
+
+    const [outcome] = await executeSettlementBatch(settlements);
+
+    assert.equal(outcome.error?.code, 'ALREADY_SETTLED_ON_CHAIN');
+    assert.equal(outcome.error?.details?.settlementStatus, 'pending');
+    assert.deepEqual((await rowsOf(settlements)).map((row) => row.status), ['pending']);
+  });
+
+  it('fails every item when the transaction fails on-chain', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve(), await reserve()];
+    t.mock.method(executor, 'executeCapTransaction', async () => ({
+      digest: 'BatchDigest3',
+      effects: { status: { status: 'failure', error: 'InsufficientGas' }, gasUsed: GAS_USED },
+    }) as SuiTransactionBlockResponse);
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.deepEqual(outcomes.map((outcome) => outcome.error?.code), ['BATCH_TRANSACTION_FAILED', 'BATCH_TRANSACTION_FAILED']);
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => [row.status, row.payment_tx_digest]), [
+      ['failed', 'BatchDigest3'],
+      ['failed', 'BatchDigest3'],
+    ]);
+  });
+
+  it('leaves every item pending when the outcome is unknown and the chain has no record of it', async (t) => {
+    fundVault(t, 100);
+    const settlements = [await reserve(), await reserve()];
+    t.mock.method(executor, 'executeCapTransaction', async () => {
+      throw new TransactionSubmissionError(new Error('Request timed out'));
+    });
+    chainEvents(t, []);
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.deepEqual(outcomes.map((outcome) => outcome.error?.code), ['SETTLEMENT_UNCONFIRMED', 'SETTLEMENT_UNCONFIRMED']);
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => row.status), ['pending', 'pending']);
+  });
+
+  it('rejects vault-funded items beyond what the vault can pay', async (t) => {
+    fundVault(t, 1);
+    const settlements = [await reserve(), await reserve()];
+    t.mock.method(executor, 'executeCapTransaction', async () => executed('BatchDigest4'));
+
+    const outcomes = await executeSettlementBatch(settlements);
+
+    assert.equal(outcomes[0].error, null);
+    assert.equal(outcomes[1].error?.status, 402);
+    assert.equal(outcomes[1].error?.code, 'VAULT_INSUFFICIENT_FUNDS');
+    const rows = await rowsOf(settlements);
+    assert.deepEqual(rows.map((row) => row.status), ['success', 'failed']);
+  });
+});
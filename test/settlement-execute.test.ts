@@ -0,0 +1,126 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import type { PaginatedEvents, SuiEvent } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { reserveSettlement, SettlementRecord } from '../src/services/database.service';
+import { executeSettlement } from '../src/services/settlement.service';
+import * as executor from '../src/services/executor.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+import { TransactionSubmissionError } from '../src/utils/errors';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+
+let db: PGlite;
+let nextNft = 1;
+
+// Reserve a mark-only settlement (no vault pre-flight) for a fresh DID NFT
+async function reserve(): Promise<SettlementRecord> {
+  const n = nextNft++;
+  const reservation = await reserveSettlement({
+    enclave_tx_digest: `ExecuteEnclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, 'e')}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: `0x${'ef'.repeat(32)}`,
+    settlement_amount: 0,
+    settlement_mode: 'mark_only',
+    timestamp: Date.now(),
+  });
+  return reservation.settlement;
+}
+
+// NftSettled event for a settlement, as queryEvents returns it
+function nftSettled(settlement: SettlementRecord, txDigest: string): SuiEvent {
+  return {
+    id: { txDigest, eventSeq: '0' },
+    type: `${CONTRACT_CONFIG.packageId}::payment::NftSettled`,
+    parsedJson: { nft_id: settlement.did_verified_id, protocol_uid: String(PROTOCOL.uid), amount: '0' },
+    timestampMs: String(Date.now()),
+  } as SuiEvent;
+}
+
+// Execution whose outcome is unknown: the RPC timed out after the transaction was submitted
+function submissionTimesOut(t: TestContext): void {
+  t.mock.method(executor, 'executeCapTransaction', async () => {
+    throw new TransactionSubmissionError(new Error('Request timed out'));
+  });
+}
+
+// Chain whose payment module emitted `events`
+function chainEvents(t: TestContext, events: SuiEvent[]): void {
+  t.mock.method(suiClient, 'queryEvents', async () => ({ data: events, nextCursor: null, hasNextPage: false }) as PaginatedEvents);
+}
+
+async function rowOf(settlement: SettlementRecord): Promise<SettlementRecord> {
+  const result = await db.query<SettlementRecord>('SELECT * FROM nft_settlements WHERE id = $1', [settlement.id]);
+  return result.rows[0];
+}
+
+describe('executeSettlement when the transaction may have landed', () => {
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('completes the settlement from its NftSettled event when the transaction landed', async (t) => {
+    const settlement = await reserve();
+    submissionTimesOut(t);
+    chainEvents(t, [nftSettled(settlement, 'LandedDigest1')]);
+
+    const completed = await executeSettlement(settlement);
+
+    assert.equal(completed.status, 'success');
+    assert.equal(completed.payment_tx_digest, 'LandedDigest1');
+    const attempts = await db.query<{ status: string; payment_tx_digest: string }>(
+      'SELECT status, payment_tx_digest FROM settlement_attempts WHERE settlement_id = $1',
+      [settlement.id]
+    );
+    assert.deepEqual(attempts.rows, [{ status: 'success', payment_tx_digest: 'LandedDigest1' }]);
+  });
+
+  it('keeps the reservation pending when the transaction is not found on-chain', async (t) => {
+    const settlement = await reserve();
+    submissionTimesOut(t);
+    chainEvents(t, []);
+
+    await assert.rejects(executeSettlement(settlement), { status: 504, code: 'SETTLEMENT_UNCONFIRMED' });
+    assert.equal((await rowOf(settlement)).status, 'pending');
+  });
+
+  it('keeps the reservation pending when the chain cannot be checked', async (t) => {
+    const settlement = await reserve();
+    submissionTimesOut(t);
+    t.mock.method(suiClient, 'queryEvents', async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await assert.rejects(executeSettlement(settlement), { code: 'SETTLEMENT_UNCONFIRMED' });
+    assert.equal((await rowOf(settlement)).status, 'pending');
+  });
+
+  it('completes a settlement that aborts as already settled when an earlier attempt landed', async (t) => {
+    const settlement = await reserve();
+    t.mock.method(executor, 'executeCapTransaction', async () => {
+      throw new Error(
+        `MoveAbort(MoveLocation { module: ModuleId { address: ${CONTRACT_CONFIG.packageId.slice(2)}, ` +
+        'name: Identifier("payment") }, function: 2, instruction: 9, function_name: Some("settle_nft_payment") }, 3) in command 0'
+      );
+    });
+    chainEvents(t, [nftSettled(settlement, 'EarlierDigest1')]);
+
+    const completed = await executeSettlement(settlement);
+
+    assert.equal(completed.status, 'success');
+    assert.equal(completed.payment_tx_digest, 'EarlierDigest1');
+  });
+
+  it('leaves errors raised before submission to the caller', async (t) => {
+    const settlement = await reserve();
+    t.mock.method(executor, 'executeCapTransaction', async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await assert.rejects(executeSettlement(settlement), { name: 'TypeError' });
+    assert.equal((await rowOf(settlement)).status, 'pending');
+  });
+});
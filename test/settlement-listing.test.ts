@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import app from '../src/app';
+import { reserveSettlement } from '../src/services/database.service';
+import { computeSignature, issueCredential } from '../src/services/credential.service';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const OTHER_PROTOCOL_UID = PROTOCOL.uid + 1;
+const USER = `0x${'cd'.repeat(32)}`;
+
+let db: PGlite;
+let server: Server;
+let baseUrl: string;
+let keyId: string;
+let secret: string;
+
+// Reserve a settlement for `protocolUid`, owned by USER
+async function settle(protocolUid: number, n: number): Promise<void> {
+  await reserveSettlement({
+    enclave_tx_digest: `ListingEnclave${protocolUid}-${n}`,
+    did_verified_id: `0x${`${protocolUid}${n}`.padStart(64, '0')}`,
+    protocol_uid: protocolUid,
+    protocol_name: protocolUid === PROTOCOL.uid ? PROTOCOL.name : 'other',
+    user_address: USER,
+    settlement_amount: 0,
+    settlement_mode: 'mark_only',
+    timestamp: Date.now(),
+  });
+}
+
+// GET `path`, signed with the test protocol's API key unless `signed` is false
+async function get(path: string, signed = true): Promise<{ status: number; body: any }> {
+  const headers: Record<string, string> = {};
+  if (signed) {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    headers['X-Api-Key'] = keyId;
+    headers['X-Timestamp'] = timestamp;
+    headers['X-Signature'] = computeSignature(secret, timestamp, 'GET', path, Buffer.alloc(0));
+  }
+  const response = await fetch(`${baseUrl}${path}`, { headers });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('settlement listings and stats', () => {
+  before(async () => {
+    db = await createTestDatabase();
+    await db.query(
+      `INSERT INTO protocols (protocol_uid, protocol_name, protocol_address, vault_object_id, vault_initial_shared_version)
+       VALUES ($1, 'other', '0x2', '0x3', '1')`,
+      [OTHER_PROTOCOL_UID]
+    );
+    await settle(PROTOCOL.uid, 1);
+    await settle(PROTOCOL.uid, 2);
+    await settle(OTHER_PROTOCOL_UID, 1);
+
+    const issued = await issueCredential(PROTOCOL.uid);
+    keyId = issued.credential.key_id;
+    secret = issued.secret;
+
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  it('require a signed request', async () => {
+    for (const path of ['/api/settlement/all', '/api/settlement/stats', `/api/settlement/user/${USER}`]) {
+      const { status, body } = await get(path, false);
+      assert.equal(status, 401, path);
+      assert.equal(body.code, 'AUTH_REQUIRED');
+    }
+  });
+
+  it("list only the API key's protocol", async () => {
+    const all = await get('/api/settlement/all');
+    assert.equal(all.status, 200);
+    assert.equal(all.body.total, 2);
+    assert.ok(all.body.data.every((settlement: { protocol_uid: number }) => settlement.protocol_uid === PROTOCOL.uid));
+
+    const user = await get(`/api/settlement/user/${USER}`);
+    assert.equal(user.status, 200);
+    assert.equal(user.body.total, 2);
+  });
+
+  it("count only the API key's protocol", async () => {
+    const { status, body } = await get('/api/settlement/stats?groupBy=protocol');
+
+    assert.equal(status, 200);
+    assert.equal(body.data.protocolUid, PROTOCOL.uid);
+    assert.deepEqual(body.data.buckets.map((bucket: { protocolUid: number }) => bucket.protocolUid), [PROTOCOL.uid]);
+  });
+
+  it('reject another protocol', async () => {
+    for (const path of [
+      `/api/settlement/all?protocolUid=${OTHER_PROTOCOL_UID}`,
+      `/api/settlement/stats?protocolUid=${OTHER_PROTOCOL_UID}`,
+      `/api/settlement/user/${USER}?protocolUid=${OTHER_PROTOCOL_UID}`,
+    ]) {
+      const { status, body } = await get(path);
+      assert.equal(status, 403, path);
+      assert.equal(body.code, 'PROTOCOL_MISMATCH');
+    }
+  });
+});
@@ -0,0 +1,125 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Transaction } from '@mysten/sui/transactions';
+import type { SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { getSettlementById } from '../src/services/database.service';
+import {
+  buildSettlementTransaction,
+  executeSettlement,
+  reserveVerifiedSettlement,
+  settlementAmountFor,
+  SettlementRequest,
+} from '../src/services/settlement.service';
+import { getProtocolByUid, ProtocolRecord } from '../src/services/protocol.service';
+import * as executor from '../src/services/executor.service';
+import * as vault from '../src/services/vault.service';
+import { CONTRACT_CONFIG, CONTRACT_FUNCTIONS } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const NFT_NAME = 'Age Verification NFT';
+
+let nextNft = 1;
+
+// The single moveCall of a settlement transaction
+function moveCallOf(tx: Transaction) {
+  const [command] = tx.getData().commands;
+  assert.ok(command.MoveCall);
+  return command.MoveCall;
+}
+
+// Settlement request for a fresh DID NFT
+function request(): SettlementRequest {
+  const n = nextNft++;
+  return {
+    enclaveTxDigest: `ModeEnclave${n}`,
+    didVerifiedId: `0x${n.toString(16).padStart(64, '7')}`,
+    userAddress: `0x${'ab'.repeat(32)}`,
+    protocolName: PROTOCOL.name,
+    protocolUid: PROTOCOL.uid,
+  };
+}
+
+// Reserve a settlement as the protocol is configured in `mode`
+async function reserve(protocol: ProtocolRecord, mode: ProtocolRecord['settlement_mode']) {
+  const settlementRequest = request();
+  return reserveVerifiedSettlement(settlementRequest, {
+    protocol: { ...protocol, settlement_mode: mode },
+    didNft: { objectId: settlementRequest.didVerifiedId, type: CONTRACT_CONFIG.didNft.type, name: NFT_NAME, display: {} },
+  });
+}
+
+// Chain that executes every settlement successfully; returns the transactions it was given
+function chainExecutes(t: TestContext): Transaction[] {
+  const transactions: Transaction[] = [];
+  t.mock.method(executor, 'executeCapTransaction', async (build: () => Transaction) => {
+    transactions.push(build());
+    return { digest: `ModeDigest${transactions.length}`, effects: { status: { status: 'success' } } } as SuiTransactionBlockResponse;
+  });
+  return transactions;
+}
+
+describe('settlement modes', () => {
+  let protocol: ProtocolRecord;
+
+  before(async () => {
+    await createTestDatabase();
+    protocol = (await getProtocolByUid(PROTOCOL.uid))!;
+  });
+
+  it('charges the settlement fee only in vault mode', () => {
+    assert.equal(settlementAmountFor('vault'), BigInt(CONTRACT_CONFIG.constants.settlementFee));
+    assert.equal(settlementAmountFor('mark_only'), BigInt(0));
+  });
+
+  it('builds settle_nft_payment_with_vault against the protocol vault', () => {
+    const call = moveCallOf(buildSettlementTransaction({ ...protocol, settlement_mode: 'vault' }, 'vault', request().didVerifiedId, NFT_NAME));
+
+    assert.equal(call.module, 'payment');
+    assert.equal(call.function, CONTRACT_FUNCTIONS.settleNftPaymentWithVault);
+    // registry, cap, vault, protocol_uid, nft_id, nft_name, clock
+    assert.equal(call.arguments.length, 7);
+  });
+
+  it('builds settle_nft_payment without the vault in mark-only mode', () => {
+    const call = moveCallOf(buildSettlementTransaction(protocol, 'mark_only', request().didVerifiedId, NFT_NAME));
+
+    assert.equal(call.function, CONTRACT_FUNCTIONS.settleNftPayment);
+    // registry, cap, protocol_uid, nft_id, nft_name, clock
+    assert.equal(call.arguments.length, 6);
+  });
+
+  it('records the mode and amount on the reservation', async () => {
+    const funded = await reserve(protocol, 'vault');
+    const marked = await reserve(protocol, 'mark_only');
+
+    assert.equal(funded.settlement_mode, 'vault');
+    assert.equal(funded.settlement_amount, String(CONTRACT_CONFIG.constants.settlementFee));
+    assert.equal(marked.settlement_mode, 'mark_only');
+    assert.equal(marked.settlement_amount, '0');
+  });
+
+  it('executes in the recorded mode after the protocol switched', async (t) => {
+    const settlement = await reserve(protocol, 'mark_only');
+    const vaultBalance = t.mock.method(vault, 'getVaultBalance', async () => BigInt(0));
+    const transactions = chainExecutes(t);
+
+    const completed = await executeSettlement(settlement);
+
+    assert.equal(completed.status, 'success');
+    assert.equal(moveCallOf(transactions[0]).function, CONTRACT_FUNCTIONS.settleNftPayment);
+    // Mark-only settlements skip the vault pre-flight
+    assert.equal(vaultBalance.mock.callCount(), 0);
+  });
+
+  it('refuses a vault settlement the vault cannot pay for', async (t) => {
+    const settlement = await reserve(protocol, 'vault');
+    t.mock.method(vault, 'getVaultBalance', async () => BigInt(1000));
+    const transactions = chainExecutes(t);
+
+    await assert.rejects(executeSettlement(settlement), { status: 402, code: 'VAULT_INSUFFICIENT_FUNDS' });
+
+    assert.equal(transactions.length, 0);
+    assert.equal((await getSettlementById(settlement.id!))?.status, 'failed');
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { Transaction } from '@mysten/sui/transactions';
+import type { DryRunTransactionBlockResponse } from '@mysten/sui/client';
+import { simulateSettlement, settlementAmountFor, SettlementRequest, VerifiedSettlement } from '../src/services/settlement.service';
+import type { ProtocolRecord } from '../src/services/protocol.service';
+import * as vault from '../src/services/vault.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const GAS_USED = { computationCost: '1000', storageCost: '2000', storageRebate: '600', nonRefundableStorageFee: '0' };
+const VAULT_BALANCE = BigInt(6000000);
+
+const request: SettlementRequest = {
+  enclaveTxDigest: 'SimulateEnclave',
+  didVerifiedId: `0x${'5'.repeat(64)}`,
+  userAddress: `0x${'ab'.repeat(32)}`,
+  protocolName: PROTOCOL.name,
+  protocolUid: PROTOCOL.uid,
+};
+
+const protocol: ProtocolRecord = {
+  protocol_uid: PROTOCOL.uid,
+  protocol_name: PROTOCOL.name,
+  protocol_address: PROTOCOL.address,
+  vault_object_id: PROTOCOL.vault.objectId,
+  vault_initial_shared_version: PROTOCOL.vault.initialSharedVersion,
+  settlement_mode: 'vault',
+  active: true,
+};
+
+const verified: VerifiedSettlement = {
+  protocol,
+  didNft: { objectId: request.didVerifiedId, type: CONTRACT_CONFIG.didNft.type, name: 'Age Verification NFT', display: {} },
+};
+
+// payment.move abort as the SDK reports it
+const ABORT_MESSAGE =
+  `MoveAbort(MoveLocation { module: ModuleId { address: ${CONTRACT_CONFIG.packageId.slice(2)}, ` +
+  'name: Identifier("payment") }, function: 3, instruction: 12, ' +
+  'function_name: Some("settle_nft_payment_with_vault") }, 2) in command 0';
+
+// Stand in for the chain: the transaction builds offline (or with `build`) and the dry run returns `status`
+function mockChain(
+  t: TestContext,
+  status: { status: 'success' | 'failure'; error?: string },
+  build: () => Promise<Uint8Array> = async () => new Uint8Array()
+) {
+  t.mock.method(vault, 'getVaultBalance', async () => VAULT_BALANCE);
+  t.mock.method(Transaction.prototype, 'build', build);
+  return t.mock.method(suiClient, 'dryRunTransactionBlock', async () => ({
+    effects: { status, gasUsed: GAS_USED },
+  }) as DryRunTransactionBlockResponse);
+}
+
+describe('simulateSettlement', () => {
+  it('predicts success with the fee, vault balance and net gas', async (t) => {
+    mockChain(t, { status: 'success' });
+
+    const simulation = await simulateSettlement(request, verified);
+
+    assert.deepEqual(simulation, {
+      willSucceed: true,
+      error: null,
+      gasEstimate: { computationCost: BigInt(1000), storageCost: BigInt(2000), storageRebate: BigInt(600), totalGas: BigInt(2400) },
+      settlementMode: 'vault',
+      settlementFee: settlementAmountFor('vault'),
+      vaultBalance: VAULT_BALANCE,
+    });
+  });
+
+  it('decodes a Move abort in the dry run', async (t) => {
+    mockChain(t, { status: 'failure', error: ABORT_MESSAGE });
+
+    const simulation = await simulateSettlement(request, verified);
+
+    assert.equal(simulation.willSucceed, false);
+    assert.equal(simulation.error?.status, 402);
+    assert.equal(simulation.error?.code, 'VAULT_INSUFFICIENT_FUNDS');
+    assert.equal(simulation.gasEstimate?.totalGas, BigInt(2400));
+  });
+
+  it('decodes a Move abort raised while building, before any dry run', async (t) => {
+    const dryRun = mockChain(t, { status: 'success' }, async () => {
+      throw new Error(`Dry run failed, could not automatically determine a budget: ${ABORT_MESSAGE}`);
+    });
+
+    const simulation = await simulateSettlement(request, verified);
+
+    assert.equal(simulation.willSucceed, false);
+    assert.equal(simulation.error?.code, 'VAULT_INSUFFICIENT_FUNDS');
+    assert.equal(simulation.gasEstimate, null);
+    assert.equal(dryRun.mock.callCount(), 0);
+  });
+
+  it('reports other execution failures as TRANSACTION_FAILED', async (t) => {
+    mockChain(t, { status: 'failure', error: 'InsufficientCoinBalance' });
+
+    const simulation = await simulateSettlement(request, verified);
+
+    assert.equal(simulation.error?.status, 500);
+    assert.equal(simulation.error?.code, 'TRANSACTION_FAILED');
+  });
+
+  it('rethrows build errors that are not aborts', async (t) => {
+    mockChain(t, { status: 'success' }, async () => {
+      throw new Error('fetch failed');
+    });
+
+    await assert.rejects(simulateSettlement(request, verified), /fetch failed/);
+  });
+});
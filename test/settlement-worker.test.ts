@@ -0,0 +1,161 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import type { PaginatedEvents, SuiEvent } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { reserveSettlement, SettlementRecord } from '../src/services/database.service';
+import { enqueueSettlementJob, getJobById, SettlementJob } from '../src/services/job.service';
+import * as settlementService from '../src/services/settlement.service';
+import { startSettlementWorker, stopSettlementWorker } from '../src/workers/settlement.worker';
+import { SettlementError } from '../src/utils/errors';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+
+let db: PGlite;
+let nextNft = 1;
+
+// Reserve a settlement for a fresh DID NFT and queue its job
+async function queueSettlement(): Promise<{ settlement: SettlementRecord; job: SettlementJob }> {
+  const n = nextNft++;
+  const { settlement } = await reserveSettlement({
+    enclave_tx_digest: `JobEnclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, 'f')}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: `0x${'cd'.repeat(32)}`,
+    settlement_amount: 0,
+    settlement_mode: 'mark_only',
+    timestamp: Date.now(),
+  });
+  const job = await enqueueSettlementJob({
+    settlementId: settlement.id!,
+    didVerifiedId: settlement.did_verified_id,
+    protocolUid: settlement.protocol_uid,
+  });
+  return { settlement, job };
+}
+
+// Run the worker until the job has been processed once
+async function processJob(t: TestContext, job: SettlementJob): Promise<SettlementJob> {
+  startSettlementWorker();
+  t.after(() => stopSettlementWorker());
+
+  const deadline = Date.now() + 5000;
+  for (;;) {
+    const current = (await getJobById(job.id))!;
+    if (current.attempts > job.attempts && current.status !== 'running') {
+      await stopSettlementWorker();
+      return current;
+    }
+    assert.ok(Date.now() < deadline, `job ${job.id} was not processed`);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+async function settlementStatus(settlement: SettlementRecord): Promise<string> {
+  const result = await db.query<{ status: string }>('SELECT status FROM nft_settlements WHERE id = $1', [settlement.id]);
+  return result.rows[0].status;
+}
+
+describe('settlement worker', () => {
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('settles a queued job and records the payment digest', async (t) => {
+    const { job } = await queueSettlement();
+    t.mock.method(settlementService, 'executeSettlement', async (pending: SettlementRecord) => ({
+      ...pending,
+      status: 'success',
+      payment_tx_digest: 'JobDigest1',
+    }));
+
+    const processed = await processJob(t, job);
+
+    assert.equal(processed.status, 'succeeded');
+    assert.equal(processed.payment_tx_digest, 'JobDigest1');
+  });
+
+  it('requeues the job with a delay after a transient RPC error', async (t) => {
+    const { settlement, job } = await queueSettlement();
+    t.mock.method(settlementService, 'executeSettlement', async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    const processed = await processJob(t, job);
+
+    assert.equal(processed.status, 'queued');
+    assert.equal(processed.attempts, 1);
+    assert.equal(processed.last_error, 'fetch failed');
+    assert.ok(new Date(processed.run_at).getTime() > Date.now());
+    assert.equal(await settlementStatus(settlement), 'pending');
+  });
+
+  it('fails the job without retrying on a settlement error', async (t) => {
+    const { job } = await queueSettlement();
+    t.mock.method(settlementService, 'executeSettlement', async () => {
+      throw new SettlementError(402, 'VAULT_INSUFFICIENT_FUNDS', 'Protocol vault has insufficient funds', { digest: 'JobDigest2' });
+    });
+
+    const processed = await processJob(t, job);
+
+    assert.equal(processed.status, 'failed');
+    assert.equal(processed.attempts, 1);
+    assert.equal(processed.payment_tx_digest, 'JobDigest2');
+  });
+
+  it('checks the chain before retrying and completes a job whose earlier attempt landed', async (t) => {
+    const { settlement, job } = await queueSettlement();
+    await db.query('UPDATE settlement_jobs SET attempts = 1 WHERE id = $1', [job.id]);
+    const execute = t.mock.method(settlementService, 'executeSettlement', async () => {
+      throw new Error('executed again');
+    });
+    t.mock.method(suiClient, 'queryEvents', async () => ({
+      data: [{
+        id: { txDigest: 'LandedJobDigest', eventSeq: '0' },
+        type: `${CONTRACT_CONFIG.packageId}::payment::NftSettled`,
+        parsedJson: { nft_id: settlement.did_verified_id, protocol_uid: String(PROTOCOL.uid), amount: '0' },
+        timestampMs: String(Date.now()),
+      } as SuiEvent],
+      nextCursor: null,
+      hasNextPage: false,
+    }) as PaginatedEvents);
+
+    const processed = await processJob(t, (await getJobById(job.id))!);
+
+    assert.equal(execute.mock.callCount(), 0);
+    assert.equal(processed.status, 'succeeded');
+    assert.equal(processed.payment_tx_digest, 'LandedJobDigest');
+    assert.equal(await settlementStatus(settlement), 'success');
+  });
+
+  it('keeps the reservation pending and checks again when the outcome is unconfirmed', async (t) => {
+    const { settlement, job } = await queueSettlement();
+    t.mock.method(settlementService, 'executeSettlement', async () => {
+      throw new SettlementError(409, 'ALREADY_SETTLED_ON_CHAIN', 'DID NFT has already been settled on-chain', {
+        settlementStatus: 'pending',
+      });
+    });
+
+    const processed = await processJob(t, job);
+
+    assert.equal(processed.status, 'queued');
+    assert.equal(processed.attempts, 1);
+    assert.equal(await settlementStatus(settlement), 'pending');
+  });
+
+  it('releases the reservation once the last attempt fails', async (t) => {
+    const { settlement, job } = await queueSettlement();
+    await db.query('UPDATE settlement_jobs SET attempts = max_attempts - 1 WHERE id = $1', [job.id]);
+    t.mock.method(settlementService, 'executeSettlement', async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    const processed = await processJob(t, (await getJobById(job.id))!);
+
+    assert.equal(processed.status, 'failed');
+    assert.equal(processed.attempts, processed.max_attempts);
+    assert.equal(await settlementStatus(settlement), 'failed');
+  });
+});
@@ -0,0 +1,15 @@
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+
+// Configuration the services read at import time (loaded with --require before every test file)
+// Nothing here is ever contacted: tests swap the pool for PGlite and mock chain calls
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgres://test@127.0.0.1:1/test';
+process.env.SUI_RPC_URL = process.env.SUI_RPC_URL || 'http://127.0.0.1:1';
+process.env.ENCLAVE_PACKAGE_ID = process.env.ENCLAVE_PACKAGE_ID || '0x1';
+process.env.DID_NFT_TYPE = process.env.DID_NFT_TYPE || '0x2::did::DidNft';
+process.env.ADMIN_PRIVATE_KEY = process.env.ADMIN_PRIVATE_KEY || new Ed25519Keypair().getSecretKey();
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+// Workers poll often so tests don't wait on the production interval
+process.env.SETTLEMENT_WORKER_INTERVAL_MS = '20';
+process.env.WEBHOOK_WORKER_INTERVAL_MS = '20';
+// Chain reads the tests leave hanging time out quickly
+process.env.HEALTH_CHECK_TIMEOUT_MS = '300';
@@ -0,0 +1,122 @@
+import { after, before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { decodeSuiPrivateKey } from '@mysten/sui/cryptography';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { parsePrivateKey } from '../src/signers/keypair.signer';
+import { encryptKeystore, loadKeystore } from '../src/signers/keystore.signer';
+import { RemoteSigner } from '../src/signers/remote.signer';
+
+describe('parsePrivateKey', () => {
+  it('reads suiprivkey strings with their own scheme', () => {
+    const keypair = new Secp256k1Keypair();
+
+    const parsed = parsePrivateKey(keypair.getSecretKey());
+
+    assert.equal(parsed.getKeyScheme(), 'Secp256k1');
+    assert.equal(parsed.toSuiAddress(), keypair.toSuiAddress());
+  });
+
+  it('reads raw hex and base64 keys with the configured scheme', () => {
+    const keypair = new Secp256k1Keypair();
+    const { secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+
+    const hex = parsePrivateKey(`0x${Buffer.from(secretKey).toString('hex')}`, 'Secp256k1');
+    const base64 = parsePrivateKey(Buffer.from(secretKey).toString('base64'), 'Secp256k1');
+
+    assert.equal(hex.toSuiAddress(), keypair.toSuiAddress());
+    assert.equal(base64.toSuiAddress(), keypair.toSuiAddress());
+    assert.notEqual(parsePrivateKey(Buffer.from(secretKey).toString('base64')).toSuiAddress(), keypair.toSuiAddress());
+  });
+
+  it('rejects an unsupported scheme', () => {
+    assert.throws(() => parsePrivateKey(`0x${'11'.repeat(32)}`, 'ZkLogin'), {
+      message: 'Unsupported key scheme ZkLogin. Expected one of: ED25519, Secp256k1, Secp256r1',
+    });
+  });
+});
+
+describe('keystore signer', () => {
+  const keypair = new Ed25519Keypair();
+  let dir: string;
+  let path: string;
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'keystore-'));
+    path = join(dir, 'admin.json');
+    writeFileSync(path, JSON.stringify(encryptKeystore(keypair, 'correct horse')));
+  });
+
+  after(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('decrypts the key with the passphrase', () => {
+    assert.equal(loadKeystore(path, 'correct horse').toSuiAddress(), keypair.toSuiAddress());
+  });
+
+  it('refuses a wrong passphrase', () => {
+    assert.throws(() => loadKeystore(path, 'battery staple'), {
+      message: `Failed to decrypt keystore ${path}: wrong passphrase or corrupted file`,
+    });
+  });
+
+  it('refuses a keystore whose address was edited', () => {
+    const edited = join(dir, 'edited.json');
+    const keystore = encryptKeystore(keypair, 'correct horse');
+    writeFileSync(edited, JSON.stringify({ ...keystore, address: new Ed25519Keypair().toSuiAddress() }));
+
+    assert.throws(() => loadKeystore(edited, 'correct horse'), {
+      message: `Keystore ${edited} address does not match its key`,
+    });
+  });
+});
+
+describe('RemoteSigner', () => {
+  const keypair = new Ed25519Keypair();
+  const message = new TextEncoder().encode('settle');
+
+  // Signing service holding `key`; records the Authorization header of each request
+  function signingService(t: TestContext, key = keypair, status = 200): (string | null)[] {
+    const authorizations: (string | null)[] = [];
+    t.mock.method(globalThis, 'fetch', async (_url: string, init: RequestInit) => {
+      authorizations.push(new Headers(init.headers).get('authorization'));
+      const { digest } = JSON.parse(String(init.body)) as { digest: string };
+      const signature = await key.sign(new Uint8Array(Buffer.from(digest, 'base64')));
+      return new Response(JSON.stringify({ signature: Buffer.from(signature).toString('base64') }), { status });
+    });
+    return authorizations;
+  }
+
+  function remoteSigner(token?: string): RemoteSigner {
+    return new RemoteSigner({ url: 'http://signer.internal/', publicKey: keypair.getPublicKey().toSuiPublicKey(), token });
+  }
+
+  it('produces signatures for the configured key', async (t) => {
+    const authorizations = signingService(t);
+
+    const { signature } = await remoteSigner('signer-token').signPersonalMessage(message);
+
+    const publicKey = await verifyPersonalMessageSignature(message, signature);
+    assert.equal(publicKey.toSuiAddress(), keypair.toSuiAddress());
+    assert.deepEqual(authorizations, ['Bearer signer-token']);
+  });
+
+  it('rejects a signature made with another key', async (t) => {
+    signingService(t, new Ed25519Keypair());
+
+    await assert.rejects(remoteSigner().signPersonalMessage(message), {
+      message: 'Remote signer returned a signature that does not verify against the configured public key',
+    });
+  });
+
+  it('surfaces an error response', async (t) => {
+    signingService(t, keypair, 401);
+
+    await assert.rejects(remoteSigner().signPersonalMessage(message), { message: 'Remote signer responded 401' });
+  });
+});
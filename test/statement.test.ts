@@ -0,0 +1,120 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import { reserveSettlement } from '../src/services/database.service';
+import { formatSui, getProtocolStatement } from '../src/services/statement.service';
+import { getStatement } from '../src/controllers/settlement.controller';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const NOV_1 = Date.UTC(2025, 10, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+let db: PGlite;
+let nextNft = 1;
+
+// Settlement of `amount` MIST at `timestamp`, completed unless `status` says otherwise
+async function settlement(timestamp: number, amount: number, status = 'success'): Promise<number> {
+  const n = nextNft++;
+  const { settlement } = await reserveSettlement({
+    enclave_tx_digest: `StatementEnclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, 'b')}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: `0x${'ab'.repeat(32)}`,
+    settlement_amount: amount,
+    settlement_mode: amount > 0 ? 'vault' : 'mark_only',
+    timestamp,
+  });
+  await db.query('UPDATE nft_settlements SET status = $2, payment_tx_digest = $3 WHERE id = $1', [settlement.id, status, `Digest${n}`]);
+  return settlement.id!;
+}
+
+describe('formatSui', () => {
+  it('formats MIST as an exact decimal SUI string', () => {
+    assert.equal(formatSui(BigInt(0)), '0.000000000');
+    assert.equal(formatSui(BigInt(3000000)), '0.003000000');
+    assert.equal(formatSui(BigInt('12345678901234567890')), '12345678901.234567890');
+  });
+});
+
+describe('getProtocolStatement', () => {
+  const ids: number[] = [];
+
+  before(async () => {
+    db = await createTestDatabase();
+    // Two settlements share a timestamp so pages have to break the tie by id
+    ids.push(await settlement(NOV_1 + DAY, 3000000));
+    ids.push(await settlement(NOV_1 + 2 * DAY, 2000000));
+    ids.push(await settlement(NOV_1 + 2 * DAY, 0));
+    ids.push(await settlement(NOV_1 + 3 * DAY, 1000000));
+    await settlement(NOV_1 + 3 * DAY, 9000000, 'failed');
+    await settlement(NOV_1 - DAY, 9000000);
+  });
+
+  it('totals the whole range and pages the line items oldest first', async () => {
+    const range = { protocolUid: PROTOCOL.uid, from: NOV_1, to: NOV_1 + 30 * DAY, limit: 3 };
+
+    const first = await getProtocolStatement(range);
+    assert.deepEqual(first!.totals, {
+      settlements: 4,
+      vaultSettlements: 3,
+      markOnlySettlements: 1,
+      amountMist: '6000000',
+      amountSui: '0.006000000',
+    });
+    assert.deepEqual(first!.lineItems.map((item) => item.settlementId), ids.slice(0, 3));
+    assert.deepEqual(first!.next, { sort: 'timestamp', order: 'asc', value: String(NOV_1 + 2 * DAY), id: ids[2] });
+
+    const second = await getProtocolStatement({ ...range, after: first!.next! });
+    assert.deepEqual(second!.totals, first!.totals);
+    assert.deepEqual(second!.lineItems, [{
+      settlementId: ids[3],
+      didVerifiedId: `0x${(4).toString(16).padStart(64, 'b')}`,
+      didNftName: null,
+      userAddress: `0x${'ab'.repeat(32)}`,
+      paymentTxDigest: 'Digest4',
+      settlementMode: 'vault',
+      amountMist: '1000000',
+      timestamp: NOV_1 + 3 * DAY,
+    }]);
+    assert.equal(second!.next, null);
+  });
+
+  it('returns null for a protocol that was never registered', async () => {
+    assert.equal(await getProtocolStatement({ protocolUid: 999999, from: NOV_1, to: NOV_1 + DAY, limit: 10 }), null);
+  });
+});
+
+describe('getStatement', () => {
+  // Call the handler as the validate middleware and requireProtocolAuth leave the request
+  async function statement(query: Record<string, unknown>): Promise<{ status: number; body: any }> {
+    const response = { status: 0, body: undefined as any };
+    const res = {
+      status(code: number) {
+        response.status = code;
+        return res;
+      },
+      json(body: unknown) {
+        response.body = body;
+        return res;
+      },
+    };
+    const req = { protocolUid: PROTOCOL.uid, validated: { query: { limit: 100, ...query } } };
+    await getStatement(req as unknown as Request, res as unknown as Response);
+    return response;
+  }
+
+  it("bills the API key's protocol and refuses another one", async () => {
+    const own = await statement({ from: NOV_1, to: NOV_1 + 30 * DAY });
+    assert.equal(own.status, 200);
+    assert.equal(own.body.data.protocolUid, PROTOCOL.uid);
+    assert.deepEqual(own.body.pagination, { limit: 100, nextCursor: null });
+
+    const other = await statement({ protocolUid: PROTOCOL.uid + 1 });
+    assert.equal(other.status, 403);
+    assert.equal(other.body.code, 'PROTOCOL_MISMATCH');
+  });
+});
@@ -0,0 +1,102 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import { reserveSettlement } from '../src/services/database.service';
+import { recordAttempt } from '../src/services/attempt.service';
+import { getSettlementStats } from '../src/services/stats.service';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+const OTHER_UID = 2000;
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+// Attempts are stamped with the current time, so the buckets are around today (UTC)
+const TODAY = Math.floor(Date.now() / DAY) * DAY;
+const YESTERDAY = TODAY - DAY;
+const USER_1 = `0x${'1a'.repeat(32)}`;
+const USER_2 = `0x${'2b'.repeat(32)}`;
+
+let db: PGlite;
+let nextNft = 1;
+
+// Settlement reserved at `timestamp` and moved to `status`, completed `latencyMs` later when successful
+async function settlement(timestamp: number, status: string, userAddress: string, latencyMs = 0): Promise<void> {
+  const n = nextNft++;
+  const { settlement } = await reserveSettlement({
+    enclave_tx_digest: `StatsEnclave${n}`,
+    did_verified_id: `0x${n.toString(16).padStart(64, '5')}`,
+    protocol_uid: PROTOCOL.uid,
+    protocol_name: PROTOCOL.name,
+    user_address: userAddress,
+    settlement_amount: 3000000,
+    timestamp,
+  });
+  await db.query(
+    'UPDATE nft_settlements SET status = $2, completed_at = $3 WHERE id = $1',
+    [settlement.id, status, status === 'success' ? timestamp + latencyMs : null]
+  );
+}
+
+describe('getSettlementStats', () => {
+  const range = { from: YESTERDAY, to: TODAY + DAY };
+
+  before(async () => {
+    db = await createTestDatabase();
+    await settlement(YESTERDAY + HOUR, 'success', USER_1, 2000);
+    await settlement(TODAY + HOUR, 'success', USER_2, 4000);
+    await settlement(TODAY + HOUR, 'failed', USER_1);
+    await settlement(TODAY + 2 * HOUR, 'pending', USER_1);
+    await settlement(TODAY - 10 * DAY, 'success', USER_1, 1000);
+
+    for (const status of ['success', 'success', 'failed', 'rejected'] as const) {
+      await recordAttempt({ protocol_uid: PROTOCOL.uid, status });
+    }
+    // Attempts without any settlement row still get a bucket
+    await recordAttempt({ protocol_uid: OTHER_UID, status: 'failed' });
+  });
+
+  it('totals settlements and executed attempts over the range', async () => {
+    const { totals } = await getSettlementStats({ ...range, groupBy: 'day' });
+
+    assert.deepEqual(totals, {
+      settlements: 4,
+      succeeded: 2,
+      failed: 1,
+      pending: 1,
+      attemptsSucceeded: 2,
+      attemptsFailed: 2,
+      failureRate: 0.5,
+      amountMist: '6000000',
+      amountSui: '0.006000000',
+      uniqueUsers: 2,
+      avgLatencyMs: 3000,
+    });
+  });
+
+  it('buckets by UTC day and protocol', async () => {
+    const { buckets } = await getSettlementStats({ ...range, groupBy: 'day' });
+
+    assert.deepEqual(
+      buckets.map((bucket) => [bucket.periodStart, bucket.protocolUid, bucket.settlements, bucket.attemptsSucceeded, bucket.attemptsFailed]),
+      [
+        [new Date(YESTERDAY).toISOString(), PROTOCOL.uid, 1, 0, 0],
+        [new Date(TODAY).toISOString(), PROTOCOL.uid, 3, 2, 1],
+        [new Date(TODAY).toISOString(), OTHER_UID, 0, 0, 1],
+      ]
+    );
+    assert.equal(buckets[1].failureRate, 1 / 3);
+    assert.equal(buckets[0].failureRate, null);
+    assert.equal(buckets[2].protocolName, null);
+  });
+
+  it('groups by protocol and filters to one protocol', async () => {
+    const { totals, buckets } = await getSettlementStats({ ...range, groupBy: 'protocol', protocolUid: PROTOCOL.uid });
+
+    assert.equal(totals.attemptsFailed, 1);
+    assert.deepEqual(
+      buckets.map((bucket) => [bucket.periodStart, bucket.protocolUid, bucket.protocolName, bucket.settlements]),
+      [[null, PROTOCOL.uid, PROTOCOL.name, 4]]
+    );
+  });
+});
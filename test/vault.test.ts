@@ -0,0 +1,112 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { createTestDatabase } from './helpers/database';
+import { getProtocolByUid, ProtocolRecord } from '../src/services/protocol.service';
+import { getVaultBalance, getVaultStatus } from '../src/services/vault.service';
+import * as webhooks from '../src/services/webhook.service';
+import { startVaultMonitor, stopVaultMonitor } from '../src/workers/vault.worker';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+
+const PROTOCOL = CONTRACT_CONFIG.protocols[0];
+
+// ProtocolVault object whose `balance` field renders as given (undefined for a missing object)
+function vaultObject(t: TestContext, balance: () => unknown): void {
+  t.mock.method(suiClient, 'getObject', async () => {
+    const value = balance();
+    return {
+      data: value === undefined ? null : { content: { dataType: 'moveObject', fields: { balance: value } } },
+    } as unknown as SuiObjectResponse;
+  });
+}
+
+describe('getVaultBalance', () => {
+  it('reads a plain u64 balance', async (t) => {
+    vaultObject(t, () => '6000000');
+
+    assert.equal(await getVaultBalance(PROTOCOL.vault.objectId), 6000000n);
+  });
+
+  it('reads a Balance<SUI> struct', async (t) => {
+    vaultObject(t, () => ({ type: '0x2::balance::Balance<0x2::sui::SUI>', fields: { value: '9000000' } }));
+
+    assert.equal(await getVaultBalance(PROTOCOL.vault.objectId), 9000000n);
+  });
+
+  it('throws for a vault that is not on-chain', async (t) => {
+    vaultObject(t, () => undefined);
+
+    await assert.rejects(getVaultBalance('0xmissing'), { message: 'ProtocolVault 0xmissing not found on-chain' });
+  });
+});
+
+describe('getVaultStatus', () => {
+  let protocol: ProtocolRecord;
+
+  before(async () => {
+    await createTestDatabase();
+    protocol = (await getProtocolByUid(PROTOCOL.uid))!;
+  });
+
+  it('counts the settlements the balance still pays for', async (t) => {
+    vaultObject(t, () => '7000000');
+
+    const status = await getVaultStatus(protocol);
+
+    assert.equal(status.balance, 7000000n);
+    assert.equal(status.settlementFee, BigInt(CONTRACT_CONFIG.constants.settlementFee));
+    assert.equal(status.remainingSettlements, 2);
+    assert.equal(status.belowMinimum, false);
+  });
+
+  it('flags a balance below minVaultAmount', async (t) => {
+    vaultObject(t, () => '1000000');
+
+    const status = await getVaultStatus(protocol);
+
+    assert.equal(status.remainingSettlements, 0);
+    assert.equal(status.belowMinimum, true);
+  });
+});
+
+describe('vault monitor', () => {
+  before(async () => {
+    await createTestDatabase();
+  });
+
+  it('alerts once per drop below the minimum', async (t) => {
+    let balance = '1000000';
+    vaultObject(t, () => balance);
+    const alerts: unknown[] = [];
+    t.mock.method(webhooks, 'enqueueWebhookEvent', async (protocolUid: number, event: string, data: unknown) => {
+      alerts.push({ protocolUid, event, data });
+    });
+
+    // Each start checks every vault once; the interval never fires within a test
+    const check = async () => {
+      startVaultMonitor();
+      await stopVaultMonitor();
+    };
+
+    await check();
+    await check();
+    assert.deepEqual(alerts, [{
+      protocolUid: PROTOCOL.uid,
+      event: 'vault.low_balance',
+      data: {
+        protocolUid: PROTOCOL.uid,
+        protocolName: PROTOCOL.name,
+        vaultObjectId: PROTOCOL.vault.objectId,
+        balance: '1000000',
+        minVaultAmount: String(CONTRACT_CONFIG.constants.minVaultAmount),
+        remainingSettlements: 0,
+      },
+    }]);
+
+    balance = '6000000';
+    await check();
+    balance = '2000000';
+    await check();
+    assert.equal(alerts.length, 2);
+  });
+});
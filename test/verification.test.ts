@@ -0,0 +1,130 @@
+import { describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonRpcError } from '@mysten/sui/client';
+import type { SuiEvent, SuiObjectResponse, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import { verifyDidNft, verifyEnclaveTransaction } from '../src/services/verification.service';
+import { CONTRACT_CONFIG, suiClient } from '../src/config/sui.config';
+
+const ENCLAVE_TX = '7rDBN3iAZc4C7C8vqXGBzXbWUbqGGsNxkVLbC2PQr6mU';
+const DID_NFT = `0x${'1'.repeat(64)}`;
+const USER = `0x${'ab'.repeat(32)}`;
+
+const params = { enclaveTxDigest: ENCLAVE_TX, didVerifiedId: DID_NFT, userAddress: USER };
+
+// Verification event emitted by `packageId` with the given fields
+function enclaveEvent(parsedJson: unknown, packageId = CONTRACT_CONFIG.enclave.packageId): SuiEvent {
+  return { packageId, parsedJson, type: `${packageId}::enclave::Verified` } as SuiEvent;
+}
+
+// Enclave transaction as getTransactionBlock returns it
+function enclaveTransaction(t: TestContext, events: SuiEvent[], status: 'success' | 'failure' = 'success'): void {
+  t.mock.method(suiClient, 'getTransactionBlock', async () => ({
+    digest: ENCLAVE_TX,
+    effects: { status: { status } },
+    events,
+  }) as unknown as SuiTransactionBlockResponse);
+}
+
+// DID NFT object as getObject returns it (null when it does not exist)
+function didNftObject(t: TestContext, data: Record<string, unknown> | null): void {
+  t.mock.method(suiClient, 'getObject', async () => ({ data: data && { objectId: DID_NFT, ...data } }) as SuiObjectResponse);
+}
+
+describe('verifyEnclaveTransaction', () => {
+  it('accepts a successful transaction whose event names the DID NFT and user', async (t) => {
+    // Mixed-case and nested IDs are normalized before comparing
+    enclaveTransaction(t, [enclaveEvent({ result: { nft_id: DID_NFT, owner: USER.toUpperCase().replace('0X', '0x') } })]);
+
+    await verifyEnclaveTransaction(params);
+  });
+
+  it('rejects a transaction the node does not know', async (t) => {
+    t.mock.method(suiClient, 'getTransactionBlock', async () => {
+      throw new JsonRpcError('Could not find the referenced transaction', -32602);
+    });
+
+    await assert.rejects(verifyEnclaveTransaction(params), { status: 422, code: 'ENCLAVE_TX_NOT_FOUND' });
+  });
+
+  it('answers 503 when the node cannot be reached', async (t) => {
+    t.mock.method(suiClient, 'getTransactionBlock', async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    await assert.rejects(verifyEnclaveTransaction(params), { status: 503, code: 'RPC_ERROR' });
+  });
+
+  it('rejects a transaction that failed on-chain', async (t) => {
+    enclaveTransaction(t, [enclaveEvent({ nft_id: DID_NFT, owner: USER })], 'failure');
+
+    await assert.rejects(verifyEnclaveTransaction(params), { status: 422, code: 'ENCLAVE_TX_FAILED' });
+  });
+
+  it('rejects events emitted by another package', async (t) => {
+    enclaveTransaction(t, [enclaveEvent({ nft_id: DID_NFT, owner: USER }, `0x${'9'.repeat(64)}`)]);
+
+    await assert.rejects(verifyEnclaveTransaction(params), { status: 422, code: 'ENCLAVE_PACKAGE_MISMATCH' });
+  });
+
+  it('rejects a verification of another DID NFT or user', async (t) => {
+    enclaveTransaction(t, [
+      enclaveEvent({ nft_id: `0x${'2'.repeat(64)}`, owner: USER }),
+      enclaveEvent({ nft_id: DID_NFT, owner: `0x${'cd'.repeat(32)}` }),
+    ]);
+
+    await assert.rejects(verifyEnclaveTransaction(params), { status: 422, code: 'ENCLAVE_EVENT_MISMATCH' });
+  });
+});
+
+describe('verifyDidNft', () => {
+  const owned = { AddressOwner: USER };
+
+  it('returns the type and the display name read from chain', async (t) => {
+    didNftObject(t, {
+      type: CONTRACT_CONFIG.didNft.type,
+      owner: owned,
+      display: { data: { name: 'Age Verification NFT', image_url: 'https://example.com/nft.png' } },
+    });
+
+    assert.deepEqual(await verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER }), {
+      objectId: DID_NFT,
+      type: CONTRACT_CONFIG.didNft.type,
+      name: 'Age Verification NFT',
+      display: { name: 'Age Verification NFT', image_url: 'https://example.com/nft.png' },
+    });
+  });
+
+  it('falls back to the name field without a Display', async (t) => {
+    didNftObject(t, {
+      type: CONTRACT_CONFIG.didNft.type,
+      owner: owned,
+      content: { dataType: 'moveObject', fields: { name: 'KYC NFT' } },
+    });
+
+    assert.equal((await verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER })).name, 'KYC NFT');
+  });
+
+  it('rejects a missing object', async (t) => {
+    didNftObject(t, null);
+
+    await assert.rejects(verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER }), { status: 404, code: 'DID_NFT_NOT_FOUND' });
+  });
+
+  it('rejects an object of another type', async (t) => {
+    didNftObject(t, { type: '0x2::coin::Coin<0x2::sui::SUI>', owner: owned });
+
+    await assert.rejects(verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER }), { status: 422, code: 'DID_NFT_TYPE_MISMATCH' });
+  });
+
+  it('rejects a DID NFT the user does not own', async (t) => {
+    didNftObject(t, { type: CONTRACT_CONFIG.didNft.type, owner: { AddressOwner: `0x${'cd'.repeat(32)}` } });
+
+    await assert.rejects(verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER }), { status: 403, code: 'DID_NFT_NOT_OWNED' });
+  });
+
+  it('rejects a shared DID NFT', async (t) => {
+    didNftObject(t, { type: CONTRACT_CONFIG.didNft.type, owner: { Shared: { initial_shared_version: '1' } } });
+
+    await assert.rejects(verifyDidNft({ didVerifiedId: DID_NFT, userAddress: USER }), { status: 403, code: 'DID_NFT_NOT_OWNED' });
+  });
+});
@@ -0,0 +1,145 @@
+import { before, describe, it, TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import dns from 'dns';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase } from './helpers/database';
+import {
+  checkWebhookTarget,
+  claimNextDelivery,
+  enqueueWebhookEvent,
+  markDeliveryFailed,
+  registerWebhook,
+  signWebhookPayload,
+} from '../src/services/webhook.service';
+import { startWebhookWorker, stopWebhookWorker } from '../src/workers/webhook.worker';
+import { CONTRACT_CONFIG } from '../src/config/sui.config';
+
+const PROTOCOL_UID = CONTRACT_CONFIG.protocols[0].uid;
+
+// Resolver answering every host with `addresses`
+function resolvesTo(t: TestContext, ...addresses: string[]): void {
+  t.mock.method(dns.promises, 'lookup', async () => addresses.map((address) => ({ address, family: address.includes(':') ? 6 : 4 })));
+}
+
+describe('checkWebhookTarget', () => {
+  it('accepts hosts that only resolve to public addresses', async (t) => {
+    resolvesTo(t, '93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946');
+
+    assert.equal(await checkWebhookTarget('https://protocol.example.com/hook'), null);
+  });
+
+  it('refuses loopback, private, link-local and mapped addresses', async (t) => {
+    let address = '';
+    t.mock.method(dns.promises, 'lookup', async () => [{ address: '93.184.216.34', family: 4 }, { address, family: address.includes(':') ? 6 : 4 }]);
+
+    for (address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      assert.equal(
+        await checkWebhookTarget('https://protocol.example.com/hook'),
+        `protocol.example.com resolves to a non-public address (${address})`
+      );
+    }
+  });
+
+  it('checks IP literals and refuses hosts that do not resolve', async (t) => {
+    assert.match(String(await checkWebhookTarget('https://[::1]:8443/hook')), /^::1 resolves to a non-public address/);
+    assert.match(String(await checkWebhookTarget('https://169.254.169.254/latest/meta-data')), /non-public address \(169\.254\.169\.254\)/);
+
+    t.mock.method(dns.promises, 'lookup', async () => {
+      throw Object.assign(new Error('getaddrinfo ENOTFOUND nowhere.example'), { code: 'ENOTFOUND' });
+    });
+    assert.equal(await checkWebhookTarget('https://nowhere.example/hook'), 'Cannot resolve nowhere.example');
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('is the hex HMAC-SHA256 of "<timestamp>.<body>"', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"id":"1"}').digest('hex');
+
+    assert.equal(signWebhookPayload('whsec_test', '1700000000', '{"id":"1"}'), expected);
+  });
+});
+
+describe('webhook deliveries', () => {
+  let db: PGlite;
+
+  before(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('queues an event only for active webhooks subscribed to it', async () => {
+    const succeeded = await registerWebhook({ protocolUid: PROTOCOL_UID, url: 'https://a.example/hook', events: ['settlement.succeeded'] });
+    await registerWebhook({ protocolUid: PROTOCOL_UID, url: 'https://b.example/hook', events: ['vault.low_balance'] });
+
+    await enqueueWebhookEvent(PROTOCOL_UID, 'settlement.succeeded', { settlementId: 1 });
+
+    const deliveries = await db.query<{ webhook_id: number; event: string; status: string }>(
+      'SELECT webhook_id, event, status FROM webhook_deliveries'
+    );
+    assert.deepEqual(deliveries.rows, [{ webhook_id: succeeded.webhook.id, event: 'settlement.succeeded', status: 'pending' }]);
+
+    const claimed = await claimNextDelivery();
+    assert.equal(claimed?.url, 'https://a.example/hook');
+    assert.equal(claimed?.secret, succeeded.secret);
+    assert.equal(await claimNextDelivery(), null);
+
+    // A retry is not due before its delay; a permanent failure is never claimed again
+    await markDeliveryFailed(claimed!.id, 'Endpoint responded 500', 500, 60_000);
+    assert.equal(await claimNextDelivery(), null);
+    await markDeliveryFailed(claimed!.id, 'Endpoint responded 500', 500, null);
+    const failed = await db.query<{ status: string }>('SELECT status FROM webhook_deliveries WHERE id = $1', [claimed!.id]);
+    assert.equal(failed.rows[0].status, 'failed');
+  });
+
+  it('signs each delivery so the receiver can verify it with the webhook secret', async (t) => {
+    const { secret } = await registerWebhook({ protocolUid: PROTOCOL_UID, url: 'https://c.example/hook', events: ['settlement.failed'] });
+    await enqueueWebhookEvent(PROTOCOL_UID, 'settlement.failed', { settlementId: 2 });
+
+    resolvesTo(t, '93.184.216.34');
+
+    const received = new Promise<{ headers: Record<string, string>; body: string; redirect?: string }>((resolve) => {
+      t.mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+        resolve({ headers: init.headers as Record<string, string>, body: init.body as string, redirect: init.redirect });
+        return new Response(null, { status: 204 });
+      });
+    });
+
+    startWebhookWorker();
+    const { headers, body, redirect } = await received;
+    await stopWebhookWorker();
+
+    assert.equal(redirect, 'manual');
+    const expected = createHmac('sha256', secret).update(`${headers['X-SuiVerify-Timestamp']}.${body}`).digest('hex');
+    assert.equal(headers['X-SuiVerify-Signature'], expected);
+    assert.equal(headers['X-SuiVerify-Event'], 'settlement.failed');
+    assert.deepEqual(JSON.parse(body).data, { settlementId: 2 });
+
+    const delivery = await db.query<{ status: string; last_status_code: number }>(
+      'SELECT status, last_status_code FROM webhook_deliveries WHERE id = $1',
+      [headers['X-SuiVerify-Delivery']]
+    );
+    assert.deepEqual(delivery.rows[0], { status: 'succeeded', last_status_code: 204 });
+  });
+
+  it('does not deliver to a host that now resolves to a non-public address', async (t) => {
+    await registerWebhook({ protocolUid: PROTOCOL_UID, url: 'https://d.example/hook', events: ['vault.low_balance'] });
+    await enqueueWebhookEvent(PROTOCOL_UID, 'vault.low_balance', { protocolUid: PROTOCOL_UID });
+    const queued = await db.query<{ id: string }>(
+      `SELECT d.id FROM webhook_deliveries d JOIN protocol_webhooks w ON w.id = d.webhook_id WHERE w.url = 'https://d.example/hook'`
+    );
+    resolvesTo(t, '169.254.169.254');
+    const fetch = t.mock.method(globalThis, 'fetch', async () => new Response(null, { status: 204 }));
+
+    startWebhookWorker();
+    const deadline = Date.now() + 5000;
+    let delivery;
+    do {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      delivery = await db.query<{ last_error: string | null }>('SELECT last_error FROM webhook_deliveries WHERE id = $1', [queued.rows[0].id]);
+    } while (delivery.rows[0].last_error === null && Date.now() < deadline);
+    await stopWebhookWorker();
+
+    assert.equal(fetch.mock.callCount(), 0);
+    assert.equal(delivery.rows[0].last_error, 'd.example resolves to a non-public address (169.254.169.254)');
+  });
+});